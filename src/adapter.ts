@@ -279,6 +279,7 @@ export class AdapterRuntime {
       runId: entry.control.runId,
       pausedMs: state.pausedMs,
       sources: state.sources,
+      tabs: entry.session.listTabs(),
       latestIntervention: entry.session.getLatestIntervention(),
       interventionJournal: journal
     };
@@ -8,14 +8,18 @@ export async function annotateActionScreenshot(options: {
   action: Action;
   resolvedNodeId?: string;
   resolvedBoundingBox?: BoundingBox;
+  destinationBoundingBox?: BoundingBox;
+  clickPoint?: { x: number; y: number };
   snapshot: DomSnapshot;
 }): Promise<string | undefined> {
-  const { screenshotPath, action, resolvedNodeId, resolvedBoundingBox, snapshot } = options;
+  const { screenshotPath, action, resolvedNodeId, resolvedBoundingBox, destinationBoundingBox, clickPoint, snapshot } =
+    options;
 
   const node = resolvedNodeId ? snapshot.nodes.find((candidate) => candidate.id === resolvedNodeId) : undefined;
-  const box = resolvedBoundingBox ?? node?.boundingBox;
+  const candidateBox = resolvedBoundingBox ?? node?.boundingBox;
+  const box = candidateBox && candidateBox.width > 0 && candidateBox.height > 0 ? candidateBox : undefined;
 
-  if (!box || box.width <= 0 || box.height <= 0) {
+  if (!box && !clickPoint) {
     return undefined;
   }
 
@@ -23,8 +27,20 @@ export async function annotateActionScreenshot(options: {
   const png = PNG.sync.read(raw);
   const color = colorForAction(action.type);
 
-  drawBoundingBox(png, box, color);
-  drawCenterMarker(png, box, color);
+  if (box) {
+    drawBoundingBox(png, box, color);
+  }
+  // A coordinate click marks the exact point instead of the box center.
+  if (clickPoint) {
+    drawPointMarker(png, clickPoint, color);
+  } else if (box) {
+    drawCenterMarker(png, box, color);
+  }
+  if (box && destinationBoundingBox && destinationBoundingBox.width > 0 && destinationBoundingBox.height > 0) {
+    drawBoundingBox(png, destinationBoundingBox, color);
+    drawLine(png, boxCenter(png, box), boxCenter(png, destinationBoundingBox), color);
+    drawCenterMarker(png, destinationBoundingBox, color);
+  }
 
   const parsedExt = extname(screenshotPath);
   const annotatedPath = join(
@@ -36,9 +52,20 @@ export async function annotateActionScreenshot(options: {
 }
 
 function colorForAction(actionType: Action["type"]): [number, number, number, number] {
-  if (actionType === "click") {
+  if (
+    actionType === "click" ||
+    actionType === "dblclick" ||
+    actionType === "contextClick" ||
+    actionType === "clickAt"
+  ) {
     return [236, 72, 153, 255];
   }
+  if (actionType === "hover") {
+    return [147, 51, 234, 255];
+  }
+  if (actionType === "drag") {
+    return [234, 88, 12, 255];
+  }
   if (actionType === "fill" || actionType === "select") {
     return [14, 116, 144, 255];
   }
@@ -71,8 +98,7 @@ function drawBoundingBox(
 }
 
 function drawCenterMarker(png: PNG, box: BoundingBox, color: [number, number, number, number]): void {
-  const centerX = clamp(Math.floor(box.x + box.width / 2), 0, png.width - 1);
-  const centerY = clamp(Math.floor(box.y + box.height / 2), 0, png.height - 1);
+  const [centerX, centerY] = boxCenter(png, box);
   const radius = 6;
 
   for (let y = -radius; y <= radius; y += 1) {
@@ -90,6 +116,42 @@ function drawCenterMarker(png: PNG, box: BoundingBox, color: [number, number, nu
   }
 }
 
+function drawPointMarker(png: PNG, point: { x: number; y: number }, color: [number, number, number, number]): void {
+  const centerX = Math.round(point.x);
+  const centerY = Math.round(point.y);
+  const arm = 10;
+
+  for (let offset = -arm; offset <= arm; offset += 1) {
+    if (Math.abs(offset) <= 2) {
+      continue;
+    }
+    setPixelSafe(png, centerX + offset, centerY, color);
+    setPixelSafe(png, centerX, centerY + offset, color);
+  }
+  setPixelSafe(png, centerX, centerY, color);
+}
+
+function drawLine(
+  png: PNG,
+  [startX, startY]: [number, number],
+  [endX, endY]: [number, number],
+  color: [number, number, number, number]
+): void {
+  const steps = Math.max(Math.abs(endX - startX), Math.abs(endY - startY), 1);
+  for (let step = 0; step <= steps; step += 1) {
+    const x = Math.round(startX + ((endX - startX) * step) / steps);
+    const y = Math.round(startY + ((endY - startY) * step) / steps);
+    setPixel(png, x, y, color);
+  }
+}
+
+function boxCenter(png: PNG, box: BoundingBox): [number, number] {
+  return [
+    clamp(Math.floor(box.x + box.width / 2), 0, png.width - 1),
+    clamp(Math.floor(box.y + box.height / 2), 0, png.height - 1)
+  ];
+}
+
 function horizontalLine(
   png: PNG,
   startX: number,
@@ -122,6 +184,12 @@ function setPixel(png: PNG, x: number, y: number, color: [number, number, number
   png.data[index + 3] = color[3];
 }
 
+function setPixelSafe(png: PNG, x: number, y: number, color: [number, number, number, number]): void {
+  if (x >= 0 && y >= 0 && x < png.width && y < png.height) {
+    setPixel(png, x, y, color);
+  }
+}
+
 function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value));
 }
@@ -10,16 +10,21 @@ import { createInterface } from "node:readline";
 import { Command } from "commander";
 import { AdapterRuntime, type AdapterRequest } from "./adapter.js";
 import { ClaudeCodeAdapterBridge } from "./claude-adapter.js";
-import { cliActionSchema, parseLoopScript, parseScript } from "./contracts.js";
+import { writePlaywrightSpec } from "./codegen.js";
+import { cliActionSchema, parseLoopScript, parseScript, type ParsedScript } from "./contracts.js";
 import { CodexAdapterService } from "./codex-adapter.js";
 import {
   buildDriftAggregate,
   buildDriftRecommendationReport,
   loadDriftHistoryFromFile
 } from "./drift-monitor.js";
+import { loadDataset, resolveRowTracePath } from "./dataset.js";
+import { healScript } from "./heal.js";
+import { expandScriptIncludes, loadActionScript } from "./includes.js";
 import { renderLiveTimelineTuiFrame, toLiveTimelineEntry, type LiveTimelineEntry } from "./live-timeline.js";
 import { OpenCodeAdapterBridge } from "./opencode-adapter.js";
 import { buildLoopMetricsReport, runLoop } from "./loop.js";
+import { resolveNetworkArchivePath } from "./network-archive.js";
 import { formatEvent } from "./observer.js";
 import { detectFlakes, replayTrace } from "./replay.js";
 import { buildRunArtifactIndex } from "./run-index.js";
@@ -32,9 +37,22 @@ import {
 import { AgentSession } from "./session.js";
 import { createAgentPageDescription, tokenOptimizedSnapshot } from "./snapshot.js";
 import { writeTimelineHtmlReport } from "./timeline-html.js";
-import { getTraceTimeline, loadSavedTrace } from "./trace.js";
+import { formatBlockPath, getTraceTimeline, loadSavedTrace } from "./trace.js";
 import { compareTraceVisuals } from "./visual.js";
-import type { Action, ActionResult, AgentSessionOptions, ReplayMode, SavedSession } from "./types.js";
+import type {
+  Action,
+  ActionResult,
+  ActionScript,
+  AgentSessionOptions,
+  DataRunRowSummary,
+  DataRunSummary,
+  DialogPolicy,
+  NetworkMode,
+  NetworkUnmatchedPolicy,
+  NodeTarget,
+  ReplayMode,
+  SavedSession
+} from "./types.js";
 
 const program = new Command();
 program
@@ -45,6 +63,7 @@ program
 configureOpenCommand(program);
 configureInspectCommand(program);
 configureRunCommand(program);
+configureRecordCommand(program);
 configureLoopCommand(program);
 configureActionCommand(program);
 configureSnapshotCommand(program);
@@ -61,6 +80,8 @@ configureSelectorHealthCommand(program);
 configureDriftMonitorCommand(program);
 configureTimelineHtmlCommand(program);
 configureVisualDiffCommand(program);
+configureCodegenCommand(program);
+configureHealCommand(program);
 configureAdapterStdioCommand(program);
 configureAdapterOpenCodeCommand(program);
 configureAdapterClaudeCodeCommand(program);
@@ -101,6 +122,8 @@ function configureOpenCommand(root: Command): void {
     .option("--no-deterministic", "Disable deterministic mode")
     .option("--slowmo <ms>", "Playwright slow motion delay in ms")
     .option("--stability-profile <profile>", "Stability profile: fast|balanced|chatty")
+    .option("--dialog-policy <policy>", "JavaScript dialog policy: accept|dismiss|manual")
+    .option("--dialog-prompt-text <text>", "Text entered when the dialog policy accepts a prompt()")
     .option("--viewport <size>", "Viewport size as WIDTHxHEIGHT")
     .option("--screenshot-mode <mode>", "Screenshot mode: viewport|fullpage")
     .option("--no-annotate-screenshots", "Disable screenshot action overlays")
@@ -140,6 +163,8 @@ function configureInspectCommand(root: Command): void {
     .option("--no-deterministic", "Disable deterministic mode")
     .option("--slowmo <ms>", "Playwright slow motion delay in ms")
     .option("--stability-profile <profile>", "Stability profile: fast|balanced|chatty")
+    .option("--dialog-policy <policy>", "JavaScript dialog policy: accept|dismiss|manual")
+    .option("--dialog-prompt-text <text>", "Text entered when the dialog policy accepts a prompt()")
     .option("--viewport <size>", "Viewport size as WIDTHxHEIGHT")
     .option("--screenshot-mode <mode>", "Screenshot mode: viewport|fullpage")
     .option("--no-annotate-screenshots", "Disable screenshot action overlays")
@@ -162,8 +187,9 @@ function configureInspectCommand(root: Command): void {
           `Interactive nodes: ${interactive.length} | total nodes: ${snapshot.nodeCount} | hash: ${snapshot.domHash}`
         );
         for (const node of interactive.slice(0, limit)) {
+          const frame = node.framePath ? ` | frame=${truncate(node.framePath.join(" >> "), 60)}` : "";
           console.log(
-            `${node.id} | role=${node.role} | name="${truncate(node.name, 50)}" | ref=${truncate(node.stableRef, 60)}`
+            `${node.id} | role=${node.role} | name="${truncate(node.name, 50)}" | ref=${truncate(node.stableRef, 60)}${frame}`
           );
         }
       } finally {
@@ -181,12 +207,20 @@ function configureRunCommand(root: Command): void {
     .option("--no-deterministic", "Disable deterministic mode")
     .option("--slowmo <ms>", "Playwright slow motion delay in ms")
     .option("--stability-profile <profile>", "Stability profile: fast|balanced|chatty")
+    .option("--dialog-policy <policy>", "JavaScript dialog policy: accept|dismiss|manual")
+    .option("--dialog-prompt-text <text>", "Text entered when the dialog policy accepts a prompt()")
     .option("--viewport <size>", "Viewport size as WIDTHxHEIGHT")
     .option("--screenshot-mode <mode>", "Screenshot mode: viewport|fullpage")
     .option("--no-annotate-screenshots", "Disable screenshot action overlays")
+    .option("--no-evaluate", "Disable evaluate actions for locked-down runs")
     .option("--redaction-pack <pack>", "Redaction pack: default|strict|off")
     .option("--raw-logs", "Disable log noise filtering", false)
+    .option("--vars <spec>", "Script variables as name=value pairs (e.g. user=alice,plan=pro)")
+    .option("--secrets-file <path>", "JSON object of secrets referenced as ${secret.NAME}")
     .option("--trace <path>", "Write trace JSON to this path")
+    .option("--record-network", "Store request/response pairs next to the trace for network playback", false)
+    .option("--data <path>", "Run the script once per CSV/JSON dataset row, exposing row values as ${vars.NAME}")
+    .option("--data-summary-out <path>", "Output file or directory for the per-row data run summary", "reports/data-runs")
     .option("--save <name>", "Save session on completion")
     .option("--logs", "Print captured events after each action", false)
     .option("--live-timeline", "Print timeline rows as actions complete", false)
@@ -211,8 +245,12 @@ function configureRunCommand(root: Command): void {
     .option("--retry-backoff-ms <n>", "Delay between retry attempts in milliseconds")
     .action(async (scriptPath: string, options: Record<string, string | boolean>) => {
       const absolutePath = resolve(scriptPath);
-      const raw = await readFile(absolutePath, "utf8");
-      const script = parseScript(JSON.parse(raw));
+      // Includes are inlined up front so the hash and checkpoint indexes cover the included actions.
+      const { script, includedPaths } = await loadActionScript(absolutePath);
+      if (typeof options.data === "string" && options.data.length > 0) {
+        await runDataDrivenScript({ scriptPath: absolutePath, script, dataPath: options.data, options });
+        return;
+      }
       const scriptHash = computeScriptHash(script);
       const checkpointManifestPath = resolveCheckpointManifestPath(absolutePath, options.checkpointManifest);
       const resumeCheckpointName =
@@ -230,11 +268,19 @@ function configureRunCommand(root: Command): void {
       const liveTimelineMode = parseLiveTimelineMode(options.liveTimelineMode);
       const usingLiveTimelineTui =
         Boolean(options.liveTimeline) && liveTimelineMode === "tui" && Boolean(process.stdout.isTTY);
+      const hasTracePath = typeof options.trace === "string" && options.trace.length > 0;
+      if (options.recordNetwork === true && !hasTracePath) {
+        throw new Error("--record-network requires --trace so the archive can be stored next to it");
+      }
 
       const sessionOptions: AgentSessionOptions = {
         ...script.settings,
-        ...toSessionOptions(options)
+        ...toSessionOptions(options),
+        ...(await resolveScriptVariableOptions(script.vars, options))
       };
+      if (options.recordNetwork === true) {
+        sessionOptions.recordNetwork = true;
+      }
       if (resumeTarget) {
         sessionOptions.storageStatePath = resumeTarget.session.storageStatePath;
       }
@@ -313,6 +359,10 @@ function configureRunCommand(root: Command): void {
           }
         }
 
+        if (!usingLiveTimelineTui && includedPaths.length > 0) {
+          console.log(`Included scripts: ${includedPaths.join(", ")}`);
+        }
+
         if (!resumeTarget && !usingLiveTimelineTui && script.actions.length > 0) {
           console.log(`Starting script from action 1/${script.actions.length}`);
         }
@@ -416,6 +466,9 @@ function configureRunCommand(root: Command): void {
         if (typeof options.trace === "string" && options.trace.length > 0) {
           const tracePath = await session.saveTrace(options.trace);
           console.log(`\nSaved trace -> ${tracePath}`);
+          if (sessionOptions.recordNetwork) {
+            console.log(`Network archive -> ${resolveNetworkArchivePath(tracePath)}`);
+          }
           const companions = await writeTraceCompanionReports(tracePath);
           console.log(`Selector health -> ${companions.selectorHealthPath}`);
           console.log(`Run index -> ${companions.runIndexPath}`);
@@ -439,6 +492,72 @@ function configureRunCommand(root: Command): void {
     });
 }
 
+function configureRecordCommand(root: Command): void {
+  root
+    .command("record")
+    .description("Record clicks, typing, selects and navigations into an action script")
+    .argument("<url>", "Starting URL")
+    .requiredOption("--out <path>", "Write the recorded script JSON to this path")
+    .option("--stop-after-ms <ms>", "Stop recording automatically after this many ms")
+    .option("--no-deterministic", "Disable deterministic mode")
+    .option("--slowmo <ms>", "Playwright slow motion delay in ms")
+    .option("--viewport <size>", "Viewport size as WIDTHxHEIGHT")
+    .option("--redaction-pack <pack>", "Redaction pack: default|strict|off")
+    .option("--raw-logs", "Disable log noise filtering", false)
+    .action(async (url: string, options: Record<string, string | boolean>) => {
+      const sessionOptions: AgentSessionOptions = {
+        ...toSessionOptions(options),
+        headed: true
+      };
+      const session = new AgentSession(sessionOptions);
+      await session.start();
+
+      const recorder = await session.startRecording();
+      const unsubscribe = recorder.subscribe((action) => {
+        console.log(`recorded ${formatRecordedAction(action)}`);
+      });
+
+      try {
+        await session.perform({ type: "navigate", url });
+        const stopAfterMs = toOptionalNumber(options.stopAfterMs);
+        if (typeof stopAfterMs === "number" && stopAfterMs > 0) {
+          console.log(`Recording for ${stopAfterMs}ms.`);
+        } else {
+          console.log("Recording. Interact with the browser, then press Ctrl+C to save the script.");
+        }
+        await waitForInterruptOrTimeout(stopAfterMs);
+
+        const settings: ActionScript["settings"] = {};
+        if (sessionOptions.viewportWidth && sessionOptions.viewportHeight) {
+          settings.viewportWidth = sessionOptions.viewportWidth;
+          settings.viewportHeight = sessionOptions.viewportHeight;
+        }
+        const recorded = await recorder.toScript(Object.keys(settings).length > 0 ? settings : undefined);
+        if (recorded.actions.length === 0) {
+          throw new Error("No actions were recorded");
+        }
+
+        const script = parseScript(recorded);
+        const outPath = resolve(String(options.out));
+        await mkdir(dirname(outPath), { recursive: true });
+        await writeFile(outPath, JSON.stringify(script, null, 2), "utf8");
+        console.log(`Recorded ${script.actions.length} actions -> ${outPath}`);
+        if (recorder.unresolvedEventCount > 0) {
+          console.log(`Skipped ${recorder.unresolvedEventCount} events whose element could not be resolved`);
+        }
+        if (recorder.secretNames.length > 0) {
+          console.log(
+            `Password fields were recorded as secrets: ${recorder.secretNames.join(", ")} ` +
+              "(supply them with --secrets-file or SAZEN_SECRET_<NAME>)"
+          );
+        }
+      } finally {
+        unsubscribe();
+        await safeCloseSession(session);
+      }
+    });
+}
+
 function configureLoopCommand(root: Command): void {
   root
     .command("loop")
@@ -448,11 +567,16 @@ function configureLoopCommand(root: Command): void {
     .option("--no-deterministic", "Disable deterministic mode")
     .option("--slowmo <ms>", "Playwright slow motion delay in ms")
     .option("--stability-profile <profile>", "Stability profile: fast|balanced|chatty")
+    .option("--dialog-policy <policy>", "JavaScript dialog policy: accept|dismiss|manual")
+    .option("--dialog-prompt-text <text>", "Text entered when the dialog policy accepts a prompt()")
     .option("--viewport <size>", "Viewport size as WIDTHxHEIGHT")
     .option("--screenshot-mode <mode>", "Screenshot mode: viewport|fullpage")
     .option("--no-annotate-screenshots", "Disable screenshot action overlays")
+    .option("--no-evaluate", "Disable evaluate actions for locked-down runs")
     .option("--redaction-pack <pack>", "Redaction pack: default|strict|off")
     .option("--raw-logs", "Disable log noise filtering", false)
+    .option("--vars <spec>", "Script variables as name=value pairs (e.g. user=alice,plan=pro)")
+    .option("--secrets-file <path>", "JSON object of secrets referenced as ${secret.NAME}")
     .option("--trace <path>", "Write trace JSON to this path")
     .option("--save <name>", "Save session on completion")
     .option("--logs", "Print captured events for loop actions", false)
@@ -482,7 +606,30 @@ function configureLoopCommand(root: Command): void {
     .action(async (loopPath: string, options: Record<string, string | boolean>) => {
       const absolutePath = resolve(loopPath);
       const raw = await readFile(absolutePath, "utf8");
-      const script = parseLoopScript(JSON.parse(raw));
+      const parsedLoop = parseLoopScript(JSON.parse(raw));
+      const includedVars: Record<string, string> = {};
+      const expand = async (actions: Action[], pointer: string): Promise<Action[]> => {
+        const expanded = await expandScriptIncludes(actions, absolutePath, pointer);
+        for (const [name, value] of Object.entries(expanded.vars)) {
+          includedVars[name] ??= value;
+        }
+        return expanded.actions;
+      };
+      const setupActions = parsedLoop.setupActions
+        ? await expand(parsedLoop.setupActions as Action[], "/setupActions")
+        : undefined;
+      const branches = [];
+      for (const [index, branch] of parsedLoop.branches.entries()) {
+        const actions = branch.actions && (await expand(branch.actions as Action[], `/branches/${index}/actions`));
+        branches.push(actions ? { ...branch, actions } : branch);
+      }
+      const script = {
+        ...parsedLoop,
+        vars: { ...includedVars, ...parsedLoop.vars },
+        setupActions,
+        stepAction: { ...parsedLoop.stepAction, source: { path: absolutePath, pointer: "/stepAction" } },
+        branches
+      };
       const maxIterationsOverride = toOptionalNumber(options.maxIterations);
       const loopLogEvery = Math.max(1, toNumber(options.loopLogEvery, 1));
       const loopSummaryOnly = Boolean(options.loopSummaryOnly);
@@ -490,7 +637,8 @@ function configureLoopCommand(root: Command): void {
 
       const session = new AgentSession({
         ...script.settings,
-        ...toSessionOptions(options)
+        ...toSessionOptions(options),
+        ...(await resolveScriptVariableOptions(script.vars, options))
       });
 
       await session.start();
@@ -610,9 +758,12 @@ function configureActionCommand(root: Command): void {
     .option("--no-deterministic", "Disable deterministic mode")
     .option("--slowmo <ms>", "Playwright slow motion delay in ms")
     .option("--stability-profile <profile>", "Stability profile: fast|balanced|chatty")
+    .option("--dialog-policy <policy>", "JavaScript dialog policy: accept|dismiss|manual")
+    .option("--dialog-prompt-text <text>", "Text entered when the dialog policy accepts a prompt()")
     .option("--viewport <size>", "Viewport size as WIDTHxHEIGHT")
     .option("--screenshot-mode <mode>", "Screenshot mode: viewport|fullpage")
     .option("--no-annotate-screenshots", "Disable screenshot action overlays")
+    .option("--no-evaluate", "Disable evaluate actions for locked-down runs")
     .option("--redaction-pack <pack>", "Redaction pack: default|strict|off")
     .option("--raw-logs", "Disable log noise filtering", false)
     .option("--logs", "Print captured events", true)
@@ -648,6 +799,8 @@ function configureSnapshotCommand(root: Command): void {
     .option("--no-deterministic", "Disable deterministic mode")
     .option("--slowmo <ms>", "Playwright slow motion delay in ms")
     .option("--stability-profile <profile>", "Stability profile: fast|balanced|chatty")
+    .option("--dialog-policy <policy>", "JavaScript dialog policy: accept|dismiss|manual")
+    .option("--dialog-prompt-text <text>", "Text entered when the dialog policy accepts a prompt()")
     .option("--viewport <size>", "Viewport size as WIDTHxHEIGHT")
     .option("--screenshot-mode <mode>", "Screenshot mode: viewport|fullpage")
     .option("--no-annotate-screenshots", "Disable screenshot action overlays")
@@ -676,6 +829,8 @@ function configureDescribeCommand(root: Command): void {
     .option("--no-deterministic", "Disable deterministic mode")
     .option("--slowmo <ms>", "Playwright slow motion delay in ms")
     .option("--stability-profile <profile>", "Stability profile: fast|balanced|chatty")
+    .option("--dialog-policy <policy>", "JavaScript dialog policy: accept|dismiss|manual")
+    .option("--dialog-prompt-text <text>", "Text entered when the dialog policy accepts a prompt()")
     .option("--viewport <size>", "Viewport size as WIDTHxHEIGHT")
     .option("--screenshot-mode <mode>", "Screenshot mode: viewport|fullpage")
     .option("--no-annotate-screenshots", "Disable screenshot action overlays")
@@ -711,20 +866,33 @@ function configureReplayCommand(root: Command): void {
     .option("--no-deterministic", "Disable deterministic mode")
     .option("--slowmo <ms>", "Playwright slow motion delay in ms")
     .option("--stability-profile <profile>", "Stability profile: fast|balanced|chatty")
+    .option("--dialog-policy <policy>", "JavaScript dialog policy: accept|dismiss|manual")
+    .option("--dialog-prompt-text <text>", "Text entered when the dialog policy accepts a prompt()")
     .option("--viewport <size>", "Viewport size as WIDTHxHEIGHT")
     .option("--screenshot-mode <mode>", "Screenshot mode: viewport|fullpage")
     .option("--no-annotate-screenshots", "Disable screenshot action overlays")
+    .option("--no-evaluate", "Disable evaluate actions for locked-down runs")
     .option("--redaction-pack <pack>", "Redaction pack: default|strict|off")
     .option("--raw-logs", "Disable log noise filtering", false)
     .option("--preflight-timeout <ms>", "Preflight timeout per origin in ms", "4000")
     .option("--no-preflight", "Skip replay preflight checks")
     .option("--no-selector-invariants", "Disable selector-level checks in relaxed mode")
+    .option("--network <mode>", "Network mode: live|playback", "live")
+    .option("--network-unmatched <policy>", "Unmatched requests during playback: fail|passthrough", "fail")
+    .option("--vars <spec>", "Script variables as name=value pairs (e.g. user=alice,plan=pro)")
+    .option("--secrets-file <path>", "JSON object of secrets referenced as ${secret.NAME}")
     .action(async (tracePath: string, options: Record<string, string | boolean>) => {
-      const report = await replayTrace(tracePath, toSessionOptions(options), {
+      const sessionOptions: AgentSessionOptions = {
+        ...toSessionOptions(options),
+        ...(await resolveScriptVariableOptions(undefined, options))
+      };
+      const report = await replayTrace(tracePath, sessionOptions, {
         mode: parseReplayMode(options.mode),
         preflight: options.preflight !== false,
         preflightTimeoutMs: toNumber(options.preflightTimeout, 4_000),
-        selectorInvariants: options.selectorInvariants !== false
+        selectorInvariants: options.selectorInvariants !== false,
+        network: parseNetworkMode(options.network),
+        networkUnmatched: parseNetworkUnmatchedPolicy(options.networkUnmatched)
       });
       console.log(`Trace: ${report.tracePath}`);
       console.log(`Mode: ${report.mode}`);
@@ -733,6 +901,14 @@ function configureReplayCommand(root: Command): void {
       } else {
         console.log(`Preflight origins checked: ${report.preflight.checkedOrigins.length}`);
       }
+      if (report.network) {
+        console.log(
+          `Network playback: ${report.network.served} served, ${report.network.unmatched.length} unmatched (${report.network.unmatchedPolicy})`
+        );
+        for (const request of report.network.unmatched) {
+          console.log(`- unmatched ${request}`);
+        }
+      }
       if (report.invariants.selectorEnabled) {
         console.log(
           `Selector invariants: ${report.invariants.selectorChecks} checks, ${report.invariants.selectorMismatches} mismatches`
@@ -765,6 +941,8 @@ function configureProfileSaveCommand(root: Command): void {
     .option("--no-deterministic", "Disable deterministic mode")
     .option("--slowmo <ms>", "Playwright slow motion delay in ms")
     .option("--stability-profile <profile>", "Stability profile: fast|balanced|chatty")
+    .option("--dialog-policy <policy>", "JavaScript dialog policy: accept|dismiss|manual")
+    .option("--dialog-prompt-text <text>", "Text entered when the dialog policy accepts a prompt()")
     .option("--viewport <size>", "Viewport size as WIDTHxHEIGHT")
     .option("--screenshot-mode <mode>", "Screenshot mode: viewport|fullpage")
     .option("--no-annotate-screenshots", "Disable screenshot action overlays")
@@ -811,6 +989,8 @@ function configureProfileLoadCommand(root: Command): void {
     .option("--no-deterministic", "Disable deterministic mode")
     .option("--slowmo <ms>", "Playwright slow motion delay in ms")
     .option("--stability-profile <profile>", "Stability profile: fast|balanced|chatty")
+    .option("--dialog-policy <policy>", "JavaScript dialog policy: accept|dismiss|manual")
+    .option("--dialog-prompt-text <text>", "Text entered when the dialog policy accepts a prompt()")
     .option("--viewport <size>", "Viewport size as WIDTHxHEIGHT")
     .option("--screenshot-mode <mode>", "Screenshot mode: viewport|fullpage")
     .option("--no-annotate-screenshots", "Disable screenshot action overlays")
@@ -917,6 +1097,14 @@ function configureTimelineCommand(root: Command): void {
           }
         }
 
+        if (entry.block) {
+          console.log(`    block: ${formatBlockPath(entry.block)}`);
+        }
+
+        for (const dialog of entry.dialogs ?? []) {
+          console.log(`    dialog: ${dialog.dialogType} ${dialog.outcome} "${dialog.message}"`);
+        }
+
         if (entry.control) {
           console.log(
             `    control: phase=${entry.control.phase} elapsed=${entry.control.elapsedMs ?? 0}ms sources=${entry.control.sources.join(",") || "none"} urlChanged=${Boolean(entry.control.urlChanged)} domChanged=${Boolean(entry.control.domChanged)}`
@@ -1189,6 +1377,83 @@ function configureTimelineHtmlCommand(root: Command): void {
     });
 }
 
+function configureCodegenCommand(root: Command): void {
+  root
+    .command("codegen")
+    .description("Export a trace as a Playwright Test spec")
+    .argument("<tracePath>", "Path to trace JSON")
+    .option("--out <dir>", "Output directory", "reports/codegen")
+    .option("--name <text>", "Test name (default: trace file name)")
+    .action(async (tracePath: string, options: Record<string, string | boolean>) => {
+      const report = await writePlaywrightSpec(tracePath, {
+        outDir: typeof options.out === "string" ? options.out : "reports/codegen",
+        testName: typeof options.name === "string" ? options.name : undefined
+      });
+
+      console.log(`Playwright spec: ${report.specPath}`);
+      console.log(`Steps exported: ${report.exportedSteps}`);
+      if (report.skippedSteps > 0) {
+        console.log(`Steps skipped: ${report.skippedSteps} (see comments in the spec)`);
+      }
+    });
+}
+
+function configureHealCommand(root: Command): void {
+  root
+    .command("heal")
+    .description("Rewrite script targets to the fallback candidates that worked in recorded traces")
+    .argument("<scriptPath>", "Path to the action script JSON")
+    .argument("<tracePaths...>", "Trace JSON files recorded from the script")
+    .option("--write", "Apply the rewrite to the script instead of only printing the diff", false)
+    .option("--out <path>", "Write the healed script to this path (implies --write)")
+    .option("--diff <path>", "Save the diff as a patch file")
+    .option("--json", "Print the heal report as JSON", false)
+    .action(async (scriptPath: string, tracePaths: string[], options: Record<string, string | boolean>) => {
+      const report = await healScript(scriptPath, tracePaths, {
+        write: Boolean(options.write),
+        outPath: typeof options.out === "string" ? options.out : undefined
+      });
+
+      if (typeof options.diff === "string") {
+        const diffPath = resolve(options.diff);
+        await mkdir(dirname(diffPath), { recursive: true });
+        await writeFile(diffPath, report.diff, "utf8");
+        console.error(`Heal diff: ${diffPath}`);
+      }
+
+      if (Boolean(options.json)) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      if (report.diff.length > 0) {
+        process.stdout.write(report.diff);
+      }
+
+      console.log(`Heal suggestions: ${report.suggestions.length}`);
+      for (const suggestion of report.suggestions) {
+        const placement =
+          suggestion.rewrites > 0 ? `rewrote ${suggestion.rewrites}` : "not found in the script or its includes";
+        console.log(
+          `- ${suggestion.target} -> ${suggestion.candidate} (fallback used ${suggestion.fallbackUses}x, ${placement})`
+        );
+      }
+      for (const unhealed of report.unhealed) {
+        console.log(`- unhealed ${unhealed.target}: ${unhealed.reason}`);
+      }
+
+      if (report.writtenPath) {
+        console.log(`Healed script: ${report.writtenPath}`);
+      }
+      for (const includePath of report.writtenIncludes) {
+        console.log(`Healed include: ${includePath}`);
+      }
+      if (!report.writtenPath && report.writtenIncludes.length === 0 && report.diff.length > 0) {
+        console.log("Review the diff above and rerun with --write to apply it.");
+      }
+    });
+}
+
 function configureVisualDiffCommand(root: Command): void {
   root
     .command("visual-diff")
@@ -1241,21 +1506,34 @@ function configureFlakeCommand(root: Command): void {
     .option("--no-deterministic", "Disable deterministic mode")
     .option("--slowmo <ms>", "Playwright slow motion delay in ms")
     .option("--stability-profile <profile>", "Stability profile: fast|balanced|chatty")
+    .option("--dialog-policy <policy>", "JavaScript dialog policy: accept|dismiss|manual")
+    .option("--dialog-prompt-text <text>", "Text entered when the dialog policy accepts a prompt()")
     .option("--viewport <size>", "Viewport size as WIDTHxHEIGHT")
     .option("--screenshot-mode <mode>", "Screenshot mode: viewport|fullpage")
     .option("--redaction-pack <pack>", "Redaction pack: default|strict|off")
     .option("--raw-logs", "Disable log noise filtering", false)
+    .option("--no-evaluate", "Disable evaluate actions for locked-down runs")
     .option("--preflight-timeout <ms>", "Preflight timeout per origin in ms", "4000")
     .option("--no-preflight", "Skip replay preflight checks")
     .option("--no-selector-invariants", "Disable selector-level checks in relaxed mode")
+    .option("--network <mode>", "Network mode: live|playback", "live")
+    .option("--network-unmatched <policy>", "Unmatched requests during playback: fail|passthrough", "fail")
+    .option("--vars <spec>", "Script variables as name=value pairs (e.g. user=alice,plan=pro)")
+    .option("--secrets-file <path>", "JSON object of secrets referenced as ${secret.NAME}")
     .action(async (tracePath: string, options: Record<string, string | boolean>) => {
       const runs = Math.max(2, toNumber(options.runs, 3));
       const mode = parseReplayMode(options.mode);
-      const report = await detectFlakes(tracePath, runs, toSessionOptions(options), {
+      const sessionOptions: AgentSessionOptions = {
+        ...toSessionOptions(options),
+        ...(await resolveScriptVariableOptions(undefined, options))
+      };
+      const report = await detectFlakes(tracePath, runs, sessionOptions, {
         mode,
         preflight: options.preflight !== false,
         preflightTimeoutMs: toNumber(options.preflightTimeout, 4_000),
-        selectorInvariants: options.selectorInvariants !== false
+        selectorInvariants: options.selectorInvariants !== false,
+        network: parseNetworkMode(options.network),
+        networkUnmatched: parseNetworkUnmatchedPolicy(options.networkUnmatched)
       });
 
       console.log(`Trace: ${report.tracePath}`);
@@ -1286,6 +1564,8 @@ function configureLoadCommand(root: Command): void {
     .option("--no-deterministic", "Disable deterministic mode")
     .option("--slowmo <ms>", "Playwright slow motion delay in ms")
     .option("--stability-profile <profile>", "Stability profile: fast|balanced|chatty")
+    .option("--dialog-policy <policy>", "JavaScript dialog policy: accept|dismiss|manual")
+    .option("--dialog-prompt-text <text>", "Text entered when the dialog policy accepts a prompt()")
     .option("--viewport <size>", "Viewport size as WIDTHxHEIGHT")
     .option("--screenshot-mode <mode>", "Screenshot mode: viewport|fullpage")
     .option("--redaction-pack <pack>", "Redaction pack: default|strict|off")
@@ -2058,6 +2338,128 @@ function parseLiveTimelineMode(raw: string | boolean | undefined): "row" | "tui"
   throw new Error(`Invalid live timeline mode '${raw}'. Use row or tui.`);
 }
 
+async function runDataDrivenScript(input: {
+  scriptPath: string;
+  script: ParsedScript;
+  dataPath: string;
+  options: Record<string, string | boolean>;
+}): Promise<void> {
+  const { script, options } = input;
+  const unsupported = Object.entries({
+    resumeFromCheckpoint: "--resume-from-checkpoint",
+    controlSocket: "--control-socket",
+    save: "--save",
+    liveTimeline: "--live-timeline"
+  })
+    .filter(([name]) => options[name] !== undefined && options[name] !== false)
+    .map(([, flag]) => flag);
+  if (unsupported.length > 0) {
+    throw new Error(`--data cannot be combined with ${unsupported.join(", ")}`);
+  }
+
+  const hasTracePath = typeof options.trace === "string" && options.trace.length > 0;
+  if (options.recordNetwork === true && !hasTracePath) {
+    throw new Error("--record-network requires --trace so the archive can be stored next to it");
+  }
+
+  const rows = await loadDataset(input.dataPath);
+  if (rows.length === 0) {
+    throw new Error(`Dataset '${input.dataPath}' has no rows`);
+  }
+
+  const baseOptions: AgentSessionOptions = {
+    ...script.settings,
+    ...toSessionOptions(options),
+    ...(await resolveScriptVariableOptions(script.vars, options))
+  };
+  if (options.recordNetwork === true) {
+    baseOptions.recordNetwork = true;
+  }
+
+  const rowSummaries: DataRunRowSummary[] = [];
+  for (const [index, row] of rows.entries()) {
+    console.log(`\nRow ${index + 1}/${rows.length}: ${Object.entries(row).map(([name, value]) => `${name}=${value}`).join(" ")}`);
+    const rowStartedAt = Date.now();
+    const summary: DataRunRowSummary = {
+      index,
+      vars: row,
+      status: "passed",
+      actions: script.actions.length,
+      failedActions: 0,
+      durationMs: 0
+    };
+
+    const session = new AgentSession({
+      ...baseOptions,
+      variables: { ...baseOptions.variables, ...row }
+    });
+    try {
+      await session.start();
+      for (const [actionIndex, action] of script.actions.entries()) {
+        console.log(`\nAction ${actionIndex + 1}/${script.actions.length}: ${action.type}`);
+        const result = await session.perform(action as Action);
+        printActionResult(result, Boolean(options.logs));
+        if (result.status !== "ok") {
+          summary.failedActions += 1;
+        }
+      }
+    } catch (error) {
+      summary.error = error instanceof Error ? error.message : String(error);
+      console.log(`error: ${summary.error}`);
+    } finally {
+      // Rows that threw are the ones worth debugging, so their traces are saved as well.
+      if (hasTracePath) {
+        try {
+          const tracePath = await session.saveTrace(resolveRowTracePath(options.trace as string, index));
+          summary.tracePath = tracePath;
+          console.log(`Saved trace -> ${tracePath}`);
+          const companions = await writeTraceCompanionReports(tracePath);
+          summary.runIndexPath = companions.runIndexPath;
+        } catch (error) {
+          const message = `trace not saved: ${error instanceof Error ? error.message : String(error)}`;
+          summary.error ??= message;
+          console.log(`error: ${message}`);
+        }
+      }
+      await safeCloseSession(session);
+    }
+
+    summary.status = summary.failedActions === 0 && !summary.error ? "passed" : "failed";
+    summary.durationMs = Date.now() - rowStartedAt;
+    rowSummaries.push(summary);
+  }
+
+  const passedRows = rowSummaries.filter((row) => row.status === "passed").length;
+  const report: DataRunSummary = {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    scriptPath: input.scriptPath,
+    dataPath: resolve(input.dataPath),
+    totalRows: rowSummaries.length,
+    passedRows,
+    failedRows: rowSummaries.length - passedRows,
+    rows: rowSummaries
+  };
+
+  const summaryPath = resolveJsonOutputPath(
+    typeof options.dataSummaryOut === "string" ? options.dataSummaryOut : "reports/data-runs",
+    hasTracePath ? resolve(options.trace as string) : input.scriptPath,
+    "data-run"
+  );
+  await mkdir(dirname(summaryPath), { recursive: true });
+  await writeFile(summaryPath, JSON.stringify(report, null, 2), "utf8");
+
+  console.log(`\nData rows passed: ${passedRows}/${report.totalRows}`);
+  for (const row of rowSummaries.filter((entry) => entry.status === "failed")) {
+    console.log(`- row ${row.index + 1}: ${row.error ?? `${row.failedActions} failed action(s)`}`);
+  }
+  console.log(`Data run summary -> ${summaryPath}`);
+
+  if (report.failedRows > 0) {
+    process.exitCode = 2;
+  }
+}
+
 async function writeTraceCompanionReports(
   tracePath: string
 ): Promise<{ selectorHealthPath: string; runIndexPath: string }> {
@@ -2233,6 +2635,7 @@ function toSessionOptions(options: Record<string, string | boolean>): AgentSessi
   const stabilityProfile = parseStabilityProfile(options.stabilityProfile);
   const screenshotMode = parseScreenshotMode(options.screenshotMode);
   const redactionPack = parseRedactionPack(options.redactionPack);
+  const dialogPolicy = parseDialogPolicy(options.dialogPolicy);
   const maxInterventionsRetained = toOptionalNumber(options.maxInterventionsRetained);
   const interventionRetentionMode = parseInterventionRetentionMode(options.interventionRetentionMode);
   const interventionSourceQuotas = parseInterventionSourceQuotas(options.interventionSourceQuotas);
@@ -2248,6 +2651,14 @@ function toSessionOptions(options: Record<string, string | boolean>): AgentSessi
     redactionPack
   };
 
+  if (dialogPolicy) {
+    result.dialogPolicy = dialogPolicy;
+  }
+
+  if (typeof options.dialogPromptText === "string") {
+    result.dialogPromptText = options.dialogPromptText;
+  }
+
   if (options.headless === true) {
     result.headed = false;
   }
@@ -2284,9 +2695,66 @@ function toSessionOptions(options: Record<string, string | boolean>): AgentSessi
     result.annotateScreenshots = false;
   }
 
+  if (isFlagPresent("--no-evaluate")) {
+    result.allowEvaluate = false;
+  }
+
   return result;
 }
 
+async function resolveScriptVariableOptions(
+  scriptVars: Record<string, string> | undefined,
+  options: Record<string, string | boolean>
+): Promise<Pick<AgentSessionOptions, "variables" | "secrets">> {
+  const cliVars = parseVariableAssignments(options.vars);
+  const variables = scriptVars || cliVars ? { ...scriptVars, ...cliVars } : undefined;
+  const secrets = typeof options.secretsFile === "string" ? await loadSecretsFile(options.secretsFile) : undefined;
+  return { variables, secrets };
+}
+
+async function loadSecretsFile(filePath: string): Promise<Record<string, string>> {
+  const parsed = JSON.parse(await readFile(resolve(filePath), "utf8")) as unknown;
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Secrets file '${filePath}' must contain a JSON object of name/value strings.`);
+  }
+
+  const secrets: Record<string, string> = {};
+  for (const [name, value] of Object.entries(parsed)) {
+    if (typeof value !== "string") {
+      throw new Error(`Secret '${name}' in '${filePath}' must be a string.`);
+    }
+    secrets[name] = value;
+  }
+  return secrets;
+}
+
+function parseVariableAssignments(raw: string | boolean | undefined): Record<string, string> | undefined {
+  if (typeof raw !== "string") {
+    return undefined;
+  }
+
+  const variables: Record<string, string> = {};
+  const segments = raw
+    .split(",")
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0);
+
+  for (const segment of segments) {
+    const equalsIndex = segment.indexOf("=");
+    const name = equalsIndex > 0 ? segment.slice(0, equalsIndex).trim() : "";
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new Error(`Invalid variable assignment '${segment}'. Use name=value (e.g. user=alice).`);
+    }
+    variables[name] = segment.slice(equalsIndex + 1);
+  }
+
+  if (Object.keys(variables).length === 0) {
+    return undefined;
+  }
+
+  return variables;
+}
+
 function parseReplayMode(raw: string | boolean | undefined): ReplayMode {
   if (typeof raw !== "string") {
     return "strict";
@@ -2299,6 +2767,30 @@ function parseReplayMode(raw: string | boolean | undefined): ReplayMode {
   throw new Error(`Unsupported replay mode '${raw}'. Use 'strict' or 'relaxed'.`);
 }
 
+function parseNetworkMode(raw: string | boolean | undefined): NetworkMode {
+  if (typeof raw !== "string") {
+    return "live";
+  }
+
+  if (raw === "live" || raw === "playback") {
+    return raw;
+  }
+
+  throw new Error(`Unsupported network mode '${raw}'. Use 'live' or 'playback'.`);
+}
+
+function parseNetworkUnmatchedPolicy(raw: string | boolean | undefined): NetworkUnmatchedPolicy {
+  if (typeof raw !== "string") {
+    return "fail";
+  }
+
+  if (raw === "fail" || raw === "passthrough") {
+    return raw;
+  }
+
+  throw new Error(`Unsupported network unmatched policy '${raw}'. Use 'fail' or 'passthrough'.`);
+}
+
 function parseViewportSize(
   raw: string | boolean | undefined
 ): { width: number; height: number } | undefined {
@@ -2321,6 +2813,18 @@ function parseViewportSize(
   return { width, height };
 }
 
+function parseDialogPolicy(raw: string | boolean | undefined): DialogPolicy | undefined {
+  if (typeof raw !== "string") {
+    return undefined;
+  }
+
+  if (raw === "accept" || raw === "dismiss" || raw === "manual") {
+    return raw;
+  }
+
+  throw new Error(`Invalid dialog policy '${raw}'. Use accept, dismiss, or manual.`);
+}
+
 function parseStabilityProfile(
   raw: string | boolean | undefined
 ): AgentSessionOptions["stabilityProfile"] {
@@ -2450,6 +2954,11 @@ function printActionResult(result: ActionResult, printEvents: boolean): void {
     console.log(`error: ${result.error.message}`);
   }
 
+  if (result.selectorDiagnostics?.nameMatch) {
+    const nameMatch = result.selectorDiagnostics.nameMatch;
+    console.log(`name match: "${nameMatch.matchedName}" score=${nameMatch.score} via "${nameMatch.query}"`);
+  }
+
   if (result.screenshotPath) {
     console.log(`screenshot: ${result.screenshotPath}`);
   }
@@ -2468,6 +2977,66 @@ function printActionResult(result: ActionResult, printEvents: boolean): void {
     console.log(`checkpoint: name=${result.checkpointSummary.name} manifest=${result.checkpointSummary.manifestPath}`);
   }
 
+  if (result.captureSummary) {
+    console.log(`capture: ${result.captureSummary.name}=${JSON.stringify(result.captureSummary.value)}`);
+  }
+
+  if (result.downloadSummary) {
+    console.log(
+      `download: ${result.downloadSummary.path} (${result.downloadSummary.sizeBytes} bytes, sha256=${result.downloadSummary.sha256.slice(0, 12)})`
+    );
+  }
+
+  if (result.screenshotSummary) {
+    const clip = result.screenshotSummary.clip;
+    console.log(
+      `screenshot: ${result.screenshotSummary.path}${clip ? ` (clip ${Math.round(clip.width)}x${Math.round(clip.height)} at ${Math.round(clip.x)},${Math.round(clip.y)})` : ""}`
+    );
+  }
+
+  if (result.evaluateSummary) {
+    console.log(`evaluate: ${JSON.stringify(result.evaluateSummary.value)} (${result.evaluateSummary.sizeBytes} bytes)`);
+  }
+
+  if (result.clickAtSummary) {
+    const { x, y, viewport, scaledFrom } = result.clickAtSummary;
+    const scaled = scaledFrom
+      ? ` (scaled from ${scaledFrom.x},${scaledFrom.y} at ${scaledFrom.width}x${scaledFrom.height})`
+      : "";
+    console.log(`clickAt: ${x},${y} in ${viewport.width}x${viewport.height}${scaled}`);
+  }
+
+  if (result.extractSummary) {
+    console.log(
+      `extract: ${result.extractSummary.rowCount} row(s) from ${result.extractSummary.pages} page(s) -> ${result.extractSummary.path}`
+    );
+  }
+
+  if (result.scopedSnapshot) {
+    console.log(
+      `snapshot scope: nodes=${result.scopedSnapshot.nodeCount} interactive=${result.scopedSnapshot.interactiveCount} domHash=${result.scopedSnapshot.domHash}`
+    );
+  }
+
+  if (result.scrollSummary) {
+    console.log(
+      `scroll: scrolls=${result.scrollSummary.scrollCount} position=${result.scrollSummary.scrollX},${result.scrollSummary.scrollY} atEnd=${result.scrollSummary.atEnd}`
+    );
+  }
+
+  if (result.dragSummary) {
+    const destination = result.dragSummary.destinationSelectorDiagnostics;
+    console.log(`drag: to=${destination.selectedCandidateLabel ?? destination.targetLabel}`);
+  }
+
+  if (result.block) {
+    console.log(`block: ${formatBlockPath(result.block)}`);
+  }
+
+  if (result.action.type === "newTab" || result.action.type === "switchTab" || result.action.type === "closeTab") {
+    console.log(`tab: ${result.tabId}`);
+  }
+
   if (result.retry) {
     const statuses = result.retry.attempts.map((attempt) => attempt.status).join(" -> ");
     console.log(
@@ -2480,6 +3049,59 @@ function printActionResult(result: ActionResult, printEvents: boolean): void {
       console.log(`  ${formatEvent(event)}`);
     }
   }
+
+  if (result.blockSummary) {
+    const summary = result.blockSummary;
+    console.log(
+      `${summary.kind}: label=${summary.label ?? "-"} branch=${summary.branch ?? "-"} iterations=${summary.iterations ?? "-"} steps=${summary.results.length}`
+    );
+    for (const child of summary.results) {
+      printActionResult(child, printEvents);
+    }
+  }
+}
+
+function formatRecordedAction(action: Action): string {
+  if (action.type === "navigate") {
+    return `navigate ${action.url}`;
+  }
+  if (action.type === "press") {
+    return `press ${action.key}`;
+  }
+  if (action.type === "switchTab") {
+    return `switchTab ${action.tabId}`;
+  }
+  if ((action.type === "click" || action.type === "fill" || action.type === "select") && action.target) {
+    const label = formatRecordedTarget(action.target);
+    return action.type === "click" ? `click ${label}` : `${action.type} ${label} = ${JSON.stringify(action.value)}`;
+  }
+  return action.type;
+}
+
+function formatRecordedTarget(target: NodeTarget): string {
+  switch (target.kind) {
+    case "roleName":
+      return `${target.role} "${target.name}"`;
+    case "stableRef":
+    case "testId":
+      return target.value;
+    case "css":
+      return target.selector;
+    case "xpath":
+      return target.expression;
+    case "text":
+    case "label":
+    case "placeholder":
+      return `${target.kind} "${target.text}"`;
+    case "node":
+      return target.nodeId;
+    case "within":
+      return `${formatRecordedTarget(target.target)} within ${formatRecordedTarget(target.scope)}`;
+    case "nth":
+      return `${formatRecordedTarget(target.target)} #${target.index}`;
+    case "near":
+      return `${formatRecordedTarget(target.target)} near ${formatRecordedTarget(target.anchor)}`;
+  }
 }
 
 function formatTimelineEntry(index: number, result: ActionResult): string {
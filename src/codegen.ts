@@ -0,0 +1,752 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { basename, join, resolve } from "node:path";
+import { parseFrameLabel } from "./snapshot.js";
+import { loadSavedTrace } from "./trace.js";
+import type { Action, AssertCondition, NodeTarget, SavedTrace, TraceRecord, WaitCondition } from "./types.js";
+import { SECRET_ENV_PREFIX, SECRET_PLACEHOLDER } from "./variables.js";
+
+export interface PlaywrightCodegenOptions {
+  outDir?: string;
+  testName?: string;
+}
+
+export interface PlaywrightSpecSource {
+  source: string;
+  exportedSteps: number;
+  skippedSteps: number;
+}
+
+interface CodegenState {
+  tabVariables: Map<string, string>;
+  activePage: string;
+  usesContext: boolean;
+  vars: Record<string, string>;
+}
+
+type StepOutput = { lines: string[] } | { skipped: string };
+
+const SCRIPT_PLACEHOLDER = /\$\{(env|secret|vars)\.([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+export async function writePlaywrightSpec(
+  tracePath: string,
+  options: PlaywrightCodegenOptions = {}
+): Promise<{ specPath: string; exportedSteps: number; skippedSteps: number }> {
+  const { absolutePath, trace } = await loadSavedTrace(tracePath);
+  const traceBase = basename(absolutePath, ".json");
+  const spec = buildPlaywrightSpec(trace, {
+    testName: options.testName ?? traceBase
+  });
+
+  const outDir = resolve(options.outDir ?? "reports/codegen");
+  await mkdir(outDir, { recursive: true });
+  const specPath = join(outDir, `${traceBase}.spec.ts`);
+  await writeFile(specPath, spec.source, "utf8");
+
+  return {
+    specPath,
+    exportedSteps: spec.exportedSteps,
+    skippedSteps: spec.skippedSteps
+  };
+}
+
+export function buildPlaywrightSpec(trace: SavedTrace, input: { testName: string }): PlaywrightSpecSource {
+  const state: CodegenState = {
+    tabVariables: new Map([["tab_1", "page"]]),
+    activePage: "page",
+    usesContext: false,
+    vars: { ...trace.options.variables }
+  };
+  const body: string[] = [];
+  let exportedSteps = 0;
+  let skippedSteps = 0;
+
+  for (const [index, record] of trace.records.entries()) {
+    const header = `// ${index + 1}. ${record.action.type}`;
+    // forEach items stay set after their iteration, as they do in a run.
+    for (const frame of record.block ?? []) {
+      Object.assign(state.vars, frame.vars);
+    }
+    if (record.result.status !== "ok") {
+      body.push(`${header} skipped: recorded status was ${record.result.status}`);
+      skippedSteps += 1;
+      continue;
+    }
+
+    const output = exportRecord(record, state);
+    rememberRuntimeVariable(record, state.vars);
+    if ("skipped" in output) {
+      body.push(`${header} skipped: ${output.skipped}`);
+      skippedSteps += 1;
+      continue;
+    }
+
+    body.push(header, ...output.lines);
+    exportedSteps += 1;
+  }
+
+  const fixtures = state.usesContext ? "{ page, context }" : "{ page }";
+  const source = [
+    'import { expect, test } from "@playwright/test";',
+    "",
+    `test(${quote(input.testName)}, async (${fixtures}) => {`,
+    ...body.map((line) => `  ${line}`),
+    "});",
+    ""
+  ].join("\n");
+
+  return { source, exportedSteps, skippedSteps };
+}
+
+export function candidateLabelToLocator(label: string, pageExpression: string): string | undefined {
+  const { framePath, rest } = parseFrameLabel(label);
+  let scope = pageExpression;
+  for (const frameSelector of framePath ?? []) {
+    scope += `.frameLocator(${quote(frameSelector)})`;
+  }
+
+  const locator = bodyLabelToLocator(rest, scope);
+  return locator ? `${locator}.first()` : undefined;
+}
+
+function bodyLabelToLocator(label: string, scope: string): string | undefined {
+  const getByRole = /^getByRole\(([^,]+), (.*), exact=(true|false)\)$/.exec(label);
+  if (getByRole) {
+    const exact = getByRole[3] === "true" ? ", exact: true" : "";
+    return `${scope}.getByRole(${quote(getByRole[1])}, { name: ${quote(getByRole[2])}${exact} })`;
+  }
+
+  const textLocator = /^getBy(Text|Label|Placeholder)\((.*), exact=(true|false)\)$/.exec(label);
+  if (textLocator) {
+    const exact = textLocator[3] === "true" ? ", { exact: true }" : "";
+    return `${scope}.getBy${textLocator[1]}(${quote(textLocator[2])}${exact})`;
+  }
+
+  const textPattern = /^getByText\(\/(.*)\/\)$/.exec(label);
+  if (textPattern) {
+    return `${scope}.getByText(new RegExp(${quote(textPattern[1])}))`;
+  }
+
+  const role = /^role:(\S+) name:(.*)$/.exec(label);
+  if (role) {
+    return `${scope}.getByRole(${quote(role[1])}, { name: ${quote(role[2])} })`;
+  }
+
+  const named = /^([a-z][a-z0-9-]*)\[name=(.*)\]$/.exec(label);
+  if (named) {
+    return `${scope}.locator(${quote(`${named[1]}[name="${escapeAttributeValue(named[2])}"]`)})`;
+  }
+
+  const separator = label.indexOf(":");
+  if (separator <= 0) {
+    return undefined;
+  }
+
+  const kind = label.slice(0, separator);
+  const value = label.slice(separator + 1);
+  if (kind === "testId") {
+    return `${scope}.getByTestId(${quote(value)})`;
+  }
+  if (kind === "id") {
+    const selector = /^[A-Za-z_][\w-]*$/.test(value) ? `#${value}` : `[id="${escapeAttributeValue(value)}"]`;
+    return `${scope}.locator(${quote(selector)})`;
+  }
+  if (kind === "href") {
+    return `${scope}.locator(${quote(`a[href="${escapeAttributeValue(value)}"]`)})`;
+  }
+  if (kind === "path" || kind === "css") {
+    return `${scope}.locator(${quote(value)})`;
+  }
+  if (kind === "xpath") {
+    return `${scope}.locator(${quote(`xpath=${value}`)})`;
+  }
+
+  return undefined;
+}
+
+function exportRecord(record: TraceRecord, state: CodegenState): StepOutput {
+  const action = record.action;
+  const page = state.activePage;
+  const unresolved = unresolvedVariable(action, state.vars);
+  if (unresolved) {
+    return { skipped: `vars.${unresolved} has no usable value recorded in the trace` };
+  }
+
+  if (action.type === "newTab") {
+    const variable = tabVariable(state, record.result.tabId ?? `tab_${state.tabVariables.size + 1}`);
+    state.usesContext = true;
+    state.activePage = variable;
+    const lines = [`const ${variable} = await context.newPage();`];
+    if (action.url) {
+      lines.push(`await ${variable}.goto(${scriptValue(action.url, state.vars)}${waitUntilOption(action.waitUntil)});`);
+    }
+    return { lines };
+  }
+
+  if (action.type === "switchTab") {
+    const variable = state.tabVariables.get(action.tabId);
+    if (!variable) {
+      return { skipped: `tab '${action.tabId}' was not opened earlier in the trace` };
+    }
+    state.activePage = variable;
+    return { lines: [`await ${variable}.bringToFront();`] };
+  }
+
+  if (action.type === "closeTab") {
+    const variable = action.tabId ? state.tabVariables.get(action.tabId) : page;
+    if (!variable) {
+      return { skipped: `tab '${action.tabId}' was not opened earlier in the trace` };
+    }
+    state.activePage = (record.result.tabId && state.tabVariables.get(record.result.tabId)) ?? "page";
+    return { lines: [`await ${variable}.close();`] };
+  }
+
+  const output = exportPageAction(action, record, page, state.vars);
+  if ("skipped" in output) {
+    return output;
+  }
+
+  // A step that lands on a tab we have not seen yet opened a popup.
+  const resultTabId = record.result.tabId;
+  if (resultTabId && !state.tabVariables.has(resultTabId)) {
+    const variable = tabVariable(state, resultTabId);
+    state.usesContext = true;
+    state.activePage = variable;
+    return {
+      lines: [
+        `const ${variable}Promise = context.waitForEvent("page");`,
+        ...output.lines,
+        `const ${variable} = await ${variable}Promise;`,
+        `await ${variable}.waitForLoadState();`
+      ]
+    };
+  }
+
+  return output;
+}
+
+function exportPageAction(
+  action: Action,
+  record: TraceRecord,
+  page: string,
+  vars: Record<string, string>
+): StepOutput {
+  switch (action.type) {
+    case "navigate":
+      return { lines: [`await ${page}.goto(${scriptValue(action.url, vars)}${waitUntilOption(action.waitUntil)});`] };
+    case "goBack":
+    case "goForward":
+    case "reload":
+      return {
+        lines: [`await ${page}.${action.type}(${action.waitUntil ? `{ waitUntil: ${quote(action.waitUntil)} }` : ""});`]
+      };
+    case "click":
+    case "fill":
+    case "select":
+    case "check":
+    case "uncheck":
+    case "setChecked":
+    case "hover":
+    case "dblclick":
+    case "contextClick": {
+      const locator = resolveRecordLocator(record.result.selectorSelectedCandidate, action.target, page, vars);
+      if (!locator) {
+        return { skipped: "no Playwright locator could be derived from the recorded selector" };
+      }
+      if (action.type === "click") {
+        return { lines: [`await ${locator}.click();`] };
+      }
+      if (action.type === "check" || action.type === "uncheck") {
+        return { lines: [`await ${locator}.${action.type}();`] };
+      }
+      if (action.type === "setChecked") {
+        return { lines: [`await ${locator}.setChecked(${action.checked});`] };
+      }
+      if (action.type === "hover") {
+        return { lines: [`await ${locator}.hover();`] };
+      }
+      if (action.type === "dblclick") {
+        return { lines: [`await ${locator}.dblclick();`] };
+      }
+      if (action.type === "contextClick") {
+        return { lines: [`await ${locator}.click({ button: "right" });`] };
+      }
+      if (action.type === "fill") {
+        return { lines: [`await ${locator}.fill(${scriptValue(action.value, vars)});`] };
+      }
+      return { lines: [`await ${locator}.selectOption(${scriptValue(action.value, vars)});`] };
+    }
+    case "clickAt": {
+      const options = [
+        ...(action.button && action.button !== "left" ? [`button: ${quote(action.button)}`] : []),
+        ...(action.clickCount && action.clickCount > 1 ? [`clickCount: ${action.clickCount}`] : [])
+      ];
+      if (!action.nodeId && !action.target) {
+        // The recorded point already reflects any viewport scaling applied during the run.
+        const x = record.result.clickAtX ?? action.x;
+        const y = record.result.clickAtY ?? action.y;
+        const suffix = options.length > 0 ? `, { ${options.join(", ")} }` : "";
+        return { lines: [`await ${page}.mouse.click(${x}, ${y}${suffix});`] };
+      }
+      const locator = resolveRecordLocator(record.result.selectorSelectedCandidate, action.target, page, vars);
+      if (!locator) {
+        return { skipped: "no Playwright locator could be derived from the recorded selector" };
+      }
+      const position = [`position: { x: ${action.x}, y: ${action.y} }`, ...options].join(", ");
+      return { lines: [`await ${locator}.click({ ${position} });`] };
+    }
+    case "drag": {
+      const source = resolveRecordLocator(record.result.selectorSelectedCandidate, action.target, page, vars);
+      const destination = resolveRecordLocator(
+        record.result.dragDestinationSelectedCandidate,
+        action.toTarget,
+        page,
+        vars
+      );
+      if (!source || !destination) {
+        return { skipped: "no Playwright locator could be derived from the recorded drag selectors" };
+      }
+      return { lines: [`await ${source}.dragTo(${destination});`] };
+    }
+    case "upload": {
+      const locator = resolveRecordLocator(record.result.selectorSelectedCandidate, action.target, page, vars);
+      if (!locator) {
+        return { skipped: "no Playwright locator could be derived from the recorded selector" };
+      }
+      const files = action.files.map((file) => scriptValue(file, vars)).join(", ");
+      return { lines: [`await ${locator}.setInputFiles([${files}]);`] };
+    }
+    case "download": {
+      if (!action.nodeId && !action.target) {
+        return { skipped: "downloads started by earlier steps are captured by Sazen at runtime" };
+      }
+      const locator = resolveRecordLocator(record.result.selectorSelectedCandidate, action.target, page, vars);
+      if (!locator) {
+        return { skipped: "no Playwright locator could be derived from the recorded selector" };
+      }
+      return {
+        lines: [`await Promise.all([${page}.waitForEvent("download"), ${locator}.click()]);`]
+      };
+    }
+    case "scroll":
+      return exportScroll(action, page);
+    case "scrollIntoView": {
+      const locator = resolveRecordLocator(record.result.selectorSelectedCandidate, action.target, page, vars);
+      if (!locator) {
+        return { skipped: "no Playwright locator could be derived from the recorded selector" };
+      }
+      return { lines: [`await ${locator}.scrollIntoViewIfNeeded();`] };
+    }
+    case "handleDialog": {
+      const call =
+        action.response === "accept"
+          ? `dialog.accept(${action.promptText === undefined ? "" : scriptValue(action.promptText, vars)})`
+          : "dialog.dismiss()";
+      return { lines: [`${page}.once("dialog", (dialog) => ${call});`] };
+    }
+    case "press":
+    case "keyDown":
+    case "keyUp":
+      return exportKeyboardAction(action, record, page, vars);
+    case "type": {
+      const locator = resolveRecordLocator(record.result.selectorSelectedCandidate, action.target, page, vars);
+      if (!locator) {
+        return { skipped: "no Playwright locator could be derived from the recorded selector" };
+      }
+      const options = action.delayMs ? `, { delay: ${action.delayMs} }` : "";
+      return {
+        lines: [
+          ...(action.clearFirst ? [`await ${locator}.clear();`] : []),
+          `await ${locator}.pressSequentially(${scriptValue(action.text, vars)}${options});`
+        ]
+      };
+    }
+    case "assert":
+      return exportAssertCondition(action.condition, page, vars);
+    case "waitFor":
+      return exportWaitCondition(action.condition, page, vars);
+    case "setViewport":
+      return { lines: [`await ${page}.setViewportSize({ width: ${action.width}, height: ${action.height} });`] };
+    case "mock":
+      return exportMockRoute(action.route, page);
+    case "snapshot":
+      return { skipped: "snapshots have no Playwright Test equivalent" };
+    case "evaluate": {
+      if (!action.nodeId && !action.target) {
+        return { lines: [`await ${page}.evaluate(${quote(action.expression)});`] };
+      }
+      const locator = resolveRecordLocator(record.result.selectorSelectedCandidate, action.target, page, vars);
+      if (!locator) {
+        return { skipped: "no Playwright locator could be derived from the recorded selector" };
+      }
+      return { lines: [`await ${locator}.evaluate(${quote(action.expression)});`] };
+    }
+    case "screenshot": {
+      const path = quote(action.path ?? record.result.capturedScreenshotPath ?? "screenshot.png");
+      if (!action.nodeId && !action.target) {
+        return { lines: [`await ${page}.screenshot({ path: ${path}${action.fullPage ? ", fullPage: true" : ""} });`] };
+      }
+      if (action.padding) {
+        return { skipped: "padded element screenshots have no Playwright Test equivalent" };
+      }
+      const locator = resolveRecordLocator(record.result.selectorSelectedCandidate, action.target, page, vars);
+      if (!locator) {
+        return { skipped: "no Playwright locator could be derived from the recorded selector" };
+      }
+      return { lines: [`await ${locator}.screenshot({ path: ${path} });`] };
+    }
+    case "pause":
+    case "checkpoint":
+    case "switchProfile":
+    case "handleConsent":
+    case "handleLogin":
+    case "capture":
+    case "extract":
+      return { skipped: `${action.type} is a Sazen runtime helper` };
+    case "newTab":
+    case "switchTab":
+    case "closeTab":
+      return { skipped: "tab actions are handled separately" };
+    case "if":
+    case "repeat":
+    case "forEach":
+      return { skipped: "control-flow blocks are traced as the steps they ran" };
+    case "include":
+      return { skipped: "includes are inlined when the script is loaded" };
+    default: {
+      const exhaustive: never = action;
+      return exhaustive;
+    }
+  }
+}
+
+function exportKeyboardAction(
+  action: Extract<Action, { type: "press" | "keyDown" | "keyUp" }>,
+  record: TraceRecord,
+  page: string,
+  vars: Record<string, string>
+): StepOutput {
+  const method = action.type === "press" ? "press" : action.type === "keyDown" ? "down" : "up";
+  if (!action.nodeId && !action.target) {
+    return { lines: [`await ${page}.keyboard.${method}(${quote(action.key)});`] };
+  }
+
+  const locator = resolveRecordLocator(record.result.selectorSelectedCandidate, action.target, page, vars);
+  if (!locator) {
+    return { skipped: "no Playwright locator could be derived from the recorded selector" };
+  }
+  if (action.type === "press") {
+    return { lines: [`await ${locator}.press(${quote(action.key)});`] };
+  }
+  return { lines: [`await ${locator}.focus();`, `await ${page}.keyboard.${method}(${quote(action.key)});`] };
+}
+
+function exportScroll(action: Extract<Action, { type: "scroll" }>, page: string): StepOutput {
+  if (action.until) {
+    return { skipped: "scroll-until loops wait for lazy-loaded content at runtime" };
+  }
+  if (action.to === "top" || action.to === "bottom") {
+    const y = action.to === "top" ? "0" : "document.documentElement.scrollHeight";
+    return { lines: [`await ${page}.evaluate(() => window.scrollTo(window.scrollX, ${y}));`] };
+  }
+  if (action.to === "left" || action.to === "right") {
+    const x = action.to === "left" ? "0" : "document.documentElement.scrollWidth";
+    return { lines: [`await ${page}.evaluate(() => window.scrollTo(${x}, window.scrollY));`] };
+  }
+  return { lines: [`await ${page}.evaluate(() => window.scrollBy(${action.deltaX ?? 0}, ${action.deltaY ?? 0}));`] };
+}
+
+function resolveRecordLocator(
+  selected: string | undefined,
+  target: NodeTarget | undefined,
+  page: string,
+  vars: Record<string, string>
+): string | undefined {
+  if (selected) {
+    const locator = candidateLabelToLocator(selected, page);
+    if (locator) {
+      return locator;
+    }
+  }
+
+  if (target?.kind === "roleName") {
+    return `${page}.getByRole(${quote(target.role)}, { name: ${scriptValue(target.name, vars)} }).first()`;
+  }
+
+  if (target?.kind === "css") {
+    const frames = (target.framePath ?? []).map((frame) => `.frameLocator(${scriptValue(frame, vars)})`).join("");
+    return `${page}${frames}.locator(${scriptValue(target.selector, vars)}).first()`;
+  }
+
+  if (target?.kind === "xpath") {
+    const frames = (target.framePath ?? []).map((frame) => `.frameLocator(${scriptValue(frame, vars)})`).join("");
+    return `${page}${frames}.locator(${scriptValue(`xpath=${target.expression}`, vars)}).first()`;
+  }
+
+  if (target?.kind === "text") {
+    const match = target.match ?? "substring";
+    if (match === "regex") {
+      return `${page}.getByText(new RegExp(${scriptValue(target.text, vars)})).first()`;
+    }
+    const exact = match === "exact" ? ", { exact: true }" : "";
+    return `${page}.getByText(${scriptValue(target.text, vars)}${exact}).first()`;
+  }
+
+  if (target?.kind === "label" || target?.kind === "placeholder") {
+    const method = target.kind === "label" ? "getByLabel" : "getByPlaceholder";
+    return `${page}.${method}(${scriptValue(target.text, vars)}${target.exact ? ", { exact: true }" : ""}).first()`;
+  }
+
+  if (target?.kind === "testId") {
+    return `${page}.getByTestId(${scriptValue(target.value, vars)}).first()`;
+  }
+
+  return undefined;
+}
+
+function exportAssertCondition(condition: AssertCondition, page: string, vars: Record<string, string>): StepOutput {
+  switch (condition.kind) {
+    case "selector": {
+      const locator = `${page}.locator(${scriptValue(condition.selector, vars)}).first()`;
+      const lines = [selectorStateExpectation(locator, condition.state ?? "visible")];
+      if (condition.textContains) {
+        lines.push(`await expect(${locator}).toContainText(${scriptValue(condition.textContains, vars)});`);
+      }
+      return { lines };
+    }
+    case "selector_bbox_min": {
+      const locator = `${page}.locator(${scriptValue(condition.selector, vars)})`;
+      const lines = [
+        "{",
+        `  const box = await ${locator}.first().boundingBox();`,
+        `  expect(box?.width ?? 0).toBeGreaterThanOrEqual(${condition.minWidth});`,
+        `  expect(box?.height ?? 0).toBeGreaterThanOrEqual(${condition.minHeight});`,
+        "}"
+      ];
+      if (condition.requireCount !== undefined) {
+        lines.splice(1, 0, `  expect(await ${locator}.count()).toBeGreaterThanOrEqual(${condition.requireCount});`);
+      }
+      return { lines };
+    }
+    case "url_contains":
+      if (hasScriptPlaceholder(condition.value)) {
+        return { lines: [`await expect.poll(() => ${page}.url()).toContain(${scriptValue(condition.value, vars)});`] };
+      }
+      return { lines: [`await expect(${page}).toHaveURL(${containsPattern(condition.value)});`] };
+    case "title_contains":
+      if (hasScriptPlaceholder(condition.value)) {
+        return {
+          lines: [`await expect.poll(() => ${page}.title()).toContain(${scriptValue(condition.value, vars)});`]
+        };
+      }
+      return { lines: [`await expect(${page}).toHaveTitle(${containsPattern(condition.value)});`] };
+    case "selector_overlap_max":
+      return { skipped: "overlap assertions have no Playwright Test equivalent" };
+    case "visual_baseline":
+      return { skipped: "visual baselines are managed by Sazen, use toHaveScreenshot() instead" };
+    case "download":
+      return { skipped: "download assertions check the file Sazen saved during the run" };
+    default: {
+      const exhaustive: never = condition;
+      return exhaustive;
+    }
+  }
+}
+
+function exportWaitCondition(condition: WaitCondition, page: string, vars: Record<string, string>): StepOutput {
+  switch (condition.kind) {
+    case "timeout":
+      return { lines: [`await ${page}.waitForTimeout(${condition.ms});`] };
+    case "selector":
+      return {
+        lines: [
+          selectorStateExpectation(
+            `${page}.locator(${scriptValue(condition.selector, vars)}).first()`,
+            condition.state ?? "visible"
+          )
+        ]
+      };
+    case "network_idle":
+      return { lines: [`await ${page}.waitForLoadState("networkidle");`] };
+    case "network_response": {
+      const flags = condition.ignoreCase ? "i" : "";
+      const checks: string[] = [];
+      if (condition.urlContains) {
+        checks.push(
+          condition.ignoreCase
+            ? `response.url().toLowerCase().includes(${lowerCaseValue(condition.urlContains, vars)})`
+            : `response.url().includes(${scriptValue(condition.urlContains, vars)})`
+        );
+      }
+      if (condition.urlMatches) {
+        checks.push(`new RegExp(${scriptValue(condition.urlMatches, vars)}, ${quote(flags)}).test(response.url())`);
+      }
+      if (condition.method) {
+        checks.push(`response.request().method() === ${quote(condition.method.toUpperCase())}`);
+      }
+      if (condition.status !== undefined) {
+        checks.push(`response.status() === ${condition.status}`);
+      }
+      if (condition.statusMin !== undefined) {
+        checks.push(`response.status() >= ${condition.statusMin}`);
+      }
+      if (condition.statusMax !== undefined) {
+        checks.push(`response.status() <= ${condition.statusMax}`);
+      }
+
+      const bodyChecks: string[] = [];
+      if (condition.bodyIncludes) {
+        bodyChecks.push(
+          condition.ignoreCase
+            ? `body.toLowerCase().includes(${lowerCaseValue(condition.bodyIncludes, vars)})`
+            : `body.includes(${scriptValue(condition.bodyIncludes, vars)})`
+        );
+      }
+      if (condition.bodyMatches) {
+        bodyChecks.push(`new RegExp(${scriptValue(condition.bodyMatches, vars)}, ${quote(flags)}).test(body)`);
+      }
+
+      if (bodyChecks.length === 0) {
+        return { lines: [`await ${page}.waitForResponse((response) => ${checks.join(" && ")});`] };
+      }
+
+      return {
+        lines: [
+          `await ${page}.waitForResponse(async (response) => {`,
+          ...(checks.length > 0 ? [`  if (!(${checks.join(" && ")})) {`, "    return false;", "  }"] : []),
+          "  const body = await response.text().catch(() => \"\");",
+          `  return ${bodyChecks.join(" && ")};`,
+          "});"
+        ]
+      };
+    }
+    default: {
+      const exhaustive: never = condition;
+      return exhaustive;
+    }
+  }
+}
+
+function exportMockRoute(route: Extract<Action, { type: "mock" }>["route"], page: string): StepOutput {
+  const body = route.body ?? (route.json !== undefined ? JSON.stringify(route.json) : "");
+  const contentType = route.contentType ?? (route.json !== undefined ? "application/json" : "text/plain");
+  const fulfill = [
+    `status: ${route.status ?? 200}`,
+    `contentType: ${quote(contentType)}`,
+    ...(route.headers ? [`headers: ${JSON.stringify(route.headers)}`] : []),
+    `body: ${quote(body)}`
+  ].join(", ");
+
+  if (!route.method) {
+    return { lines: [`await ${page}.route(${quote(route.urlPattern)}, (route) => route.fulfill({ ${fulfill} }));`] };
+  }
+
+  return {
+    lines: [
+      `await ${page}.route(${quote(route.urlPattern)}, (route) =>`,
+      `  route.request().method() === ${quote(route.method.toUpperCase())}`,
+      `    ? route.fulfill({ ${fulfill} })`,
+      "    : route.fallback()",
+      ");"
+    ]
+  };
+}
+
+function selectorStateExpectation(
+  locator: string,
+  state: "attached" | "detached" | "visible" | "hidden"
+): string {
+  if (state === "attached") {
+    return `await expect(${locator}).toBeAttached();`;
+  }
+  if (state === "detached") {
+    return `await expect(${locator}).not.toBeAttached();`;
+  }
+  if (state === "hidden") {
+    return `await expect(${locator}).toBeHidden();`;
+  }
+  return `await expect(${locator}).toBeVisible();`;
+}
+
+function tabVariable(state: CodegenState, tabId: string): string {
+  const existing = state.tabVariables.get(tabId);
+  if (existing) {
+    return existing;
+  }
+
+  const variable = tabId.replace(/[^A-Za-z0-9]/g, "").replace(/^(?=\d)/, "tab");
+  state.tabVariables.set(tabId, variable);
+  return variable;
+}
+
+function waitUntilOption(waitUntil: "load" | "domcontentloaded" | "networkidle" | undefined): string {
+  return waitUntil ? `, { waitUntil: ${quote(waitUntil)} }` : "";
+}
+
+function containsPattern(value: string): string {
+  return `/${value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&").replace(/\n/g, "\\n")}/`;
+}
+
+function escapeAttributeValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+// Captures and evaluate saveAs set vars at runtime; the trace keeps the value each one produced.
+function rememberRuntimeVariable(record: TraceRecord, vars: Record<string, string>): void {
+  const { action, result } = record;
+  if (result.status !== "ok") {
+    return;
+  }
+  if (action.type === "capture" && result.capturedName && result.capturedValue !== undefined) {
+    vars[result.capturedName] = result.capturedValue;
+  }
+  if (action.type === "evaluate" && action.saveAs && result.evaluateValue !== undefined) {
+    const value: unknown = JSON.parse(result.evaluateValue);
+    vars[action.saveAs] = typeof value === "string" ? value : result.evaluateValue;
+  }
+}
+
+function unresolvedVariable(action: Action, vars: Record<string, string>): string | undefined {
+  for (const match of JSON.stringify(action).matchAll(SCRIPT_PLACEHOLDER)) {
+    const [, namespace, name] = match;
+    const value = vars[name];
+    // Redacted values are secrets; inlining the placeholder text would type the wrong thing.
+    if (namespace === "vars" && (value === undefined || value.includes(SECRET_PLACEHOLDER))) {
+      return name;
+    }
+  }
+  return undefined;
+}
+
+function hasScriptPlaceholder(value: string): boolean {
+  return value.search(SCRIPT_PLACEHOLDER) >= 0;
+}
+
+function lowerCaseValue(value: string, vars: Record<string, string>): string {
+  return hasScriptPlaceholder(value) ? `${scriptValue(value, vars)}.toLowerCase()` : quote(value.toLowerCase());
+}
+
+// Placeholders become environment lookups, using the variable names a Sazen run reads, so secrets never
+// land in the spec. Script vars are inlined from the trace; steps using unknown vars are skipped beforehand.
+function scriptValue(value: string, vars: Record<string, string>): string {
+  let source = "";
+  let last = 0;
+  for (const match of value.matchAll(SCRIPT_PLACEHOLDER)) {
+    const [placeholder, namespace, name] = match;
+    source += escapeTemplateText(value.slice(last, match.index));
+    if (namespace === "vars") {
+      source += escapeTemplateText(vars[name] ?? "");
+    } else {
+      source += `\${process.env.${namespace === "secret" ? SECRET_ENV_PREFIX : ""}${name}}`;
+    }
+    last = (match.index ?? 0) + placeholder.length;
+  }
+  return last === 0 ? quote(value) : `\`${source}${escapeTemplateText(value.slice(last))}\``;
+}
+
+function escapeTemplateText(value: string): string {
+  return value.replace(/[\\`]/g, "\\$&").replace(/\$\{/g, "\\${");
+}
+
+function quote(value: string): string {
+  return JSON.stringify(value);
+}
@@ -1,6 +1,30 @@
 import { z } from "zod";
+import { parseExtractField } from "./extract.js";
+import type { Action, NodeTarget } from "./types.js";
+import { findUnsupportedPlaceholders } from "./variables.js";
 
-const nodeTargetSchema = z.discriminatedUnion("kind", [
+const variableNameSchema = z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Variable names must be identifiers");
+
+const nodeTargetSchema: z.ZodType<NodeTarget, z.ZodTypeDef, unknown> = z.lazy(() =>
+  nodeTargetUnionSchema.superRefine((value, context) => {
+    if (value.kind === "text" && value.match === "regex" && !isValidRegExp(value.text)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Invalid text pattern '${value.text}'`,
+        path: ["text"]
+      });
+    }
+    if (value.kind === "roleName" && value.minScore !== undefined && value.match !== "fuzzy") {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "minScore only applies when match is 'fuzzy'",
+        path: ["minScore"]
+      });
+    }
+  })
+);
+
+const nodeTargetUnionSchema = z.discriminatedUnion("kind", [
   z.object({
     kind: z.literal("node"),
     nodeId: z.string().min(1)
@@ -12,11 +36,55 @@ const nodeTargetSchema = z.discriminatedUnion("kind", [
   z.object({
     kind: z.literal("roleName"),
     role: z.string().min(1),
-    name: z.string().min(1)
+    name: z.string().min(1),
+    match: z.enum(["exact", "fuzzy"]).optional(),
+    synonyms: z.array(z.string().min(1)).optional(),
+    minScore: z.number().gt(0).max(1).optional()
   }),
   z.object({
     kind: z.literal("css"),
-    selector: z.string().min(1)
+    selector: z.string().min(1),
+    framePath: z.array(z.string().min(1)).optional()
+  }),
+  z.object({
+    kind: z.literal("text"),
+    text: z.string().min(1),
+    match: z.enum(["exact", "substring", "regex"]).optional()
+  }),
+  z.object({
+    kind: z.literal("label"),
+    text: z.string().min(1),
+    exact: z.boolean().optional()
+  }),
+  z.object({
+    kind: z.literal("placeholder"),
+    text: z.string().min(1),
+    exact: z.boolean().optional()
+  }),
+  z.object({
+    kind: z.literal("testId"),
+    value: z.string().min(1)
+  }),
+  z.object({
+    kind: z.literal("xpath"),
+    expression: z.string().min(1),
+    framePath: z.array(z.string().min(1)).optional()
+  }),
+  z.object({
+    kind: z.literal("within"),
+    scope: nodeTargetSchema,
+    target: nodeTargetSchema
+  }),
+  z.object({
+    kind: z.literal("nth"),
+    index: z.number().int(),
+    target: nodeTargetSchema
+  }),
+  z.object({
+    kind: z.literal("near"),
+    anchor: nodeTargetSchema,
+    target: nodeTargetSchema,
+    maxDistance: z.number().positive().optional()
   })
 ]);
 
@@ -78,13 +146,49 @@ const assertConditionSchema = z.discriminatedUnion("kind", [
   z.object({
     kind: z.literal("visual_baseline"),
     baselinePath: z.string().min(1),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional(),
+    padding: z.number().int().nonnegative().optional(),
     maxMismatchRatio: z.number().min(0).max(1).optional(),
     threshold: z.number().min(0).max(1).optional(),
     diffPath: z.string().min(1).optional()
+  }),
+  z.object({
+    kind: z.literal("download"),
+    fileName: z.string().min(1).optional(),
+    fileNameMatches: z.string().min(1).optional(),
+    contentContains: z.string().min(1).optional(),
+    sha256: z.string().regex(/^[a-f0-9]{64}$/i).optional(),
+    minSizeBytes: z.number().int().nonnegative().optional()
   })
 ]);
 
-const actionBaseSchema = z.object({
+const loopPredicateSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("snapshot"),
+    field: z.enum(["url", "title", "domHash", "nodeCount", "interactiveCount"]),
+    operator: z.enum(["contains", "equals", "not_equals", "gt", "gte", "lt", "lte"]),
+    value: z.union([z.string(), z.number()]),
+    negate: z.boolean().optional()
+  }),
+  z.object({
+    kind: z.literal("assert"),
+    condition: assertConditionSchema,
+    timeoutMs: z.number().int().positive().optional(),
+    negate: z.boolean().optional()
+  })
+]);
+
+// Block actions nest whole action lists, so the element schema is resolved lazily.
+const nestedActionsSchema: z.ZodType<Action[], z.ZodTypeDef, unknown> = z.lazy(
+  () => z.array(actionSchema).min(1) as unknown as z.ZodType<Action[], z.ZodTypeDef, unknown>
+);
+
+const actionMetaSchema = z.object({
+  source: z.object({ path: z.string().min(1), pointer: z.string() }).optional()
+});
+
+const actionBaseSchema = actionMetaSchema.extend({
   timeoutMs: z.number().int().positive().optional()
 });
 
@@ -94,6 +198,18 @@ const actionSchemaCore = z.discriminatedUnion("type", [
     url: z.string().min(1),
     waitUntil: z.enum(["load", "domcontentloaded", "networkidle"]).optional()
   }),
+  actionBaseSchema.extend({
+    type: z.literal("goBack"),
+    waitUntil: z.enum(["load", "domcontentloaded", "networkidle"]).optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("goForward"),
+    waitUntil: z.enum(["load", "domcontentloaded", "networkidle"]).optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("reload"),
+    waitUntil: z.enum(["load", "domcontentloaded", "networkidle"]).optional()
+  }),
   actionBaseSchema.extend({
     type: z.literal("click"),
     nodeId: z.string().min(1).optional(),
@@ -111,9 +227,118 @@ const actionSchemaCore = z.discriminatedUnion("type", [
     nodeId: z.string().min(1).optional(),
     target: nodeTargetSchema.optional()
   }),
+  actionBaseSchema.extend({
+    type: z.literal("check"),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("uncheck"),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("setChecked"),
+    checked: z.boolean(),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("hover"),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("dblclick"),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("contextClick"),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("clickAt"),
+    x: z.number().finite(),
+    y: z.number().finite(),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional(),
+    viewport: z
+      .object({
+        width: z.number().int().positive(),
+        height: z.number().int().positive()
+      })
+      .optional(),
+    button: z.enum(["left", "right", "middle"]).optional(),
+    clickCount: z.number().int().min(1).max(3).optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("drag"),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional(),
+    toNodeId: z.string().min(1).optional(),
+    toTarget: nodeTargetSchema.optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("upload"),
+    files: z.array(z.string().min(1)).min(1),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("download"),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional(),
+    saveAs: z
+      .string()
+      .min(1)
+      .refine((value) => !/[\\/]/.test(value), "saveAs must be a file name, not a path")
+      .optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("scroll"),
+    deltaX: z.number().int().optional(),
+    deltaY: z.number().int().optional(),
+    to: z.enum(["top", "bottom", "left", "right"]).optional(),
+    until: nodeTargetSchema.optional(),
+    maxScrolls: z.number().int().positive().optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("scrollIntoView"),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional()
+  }),
+  actionMetaSchema.extend({
+    type: z.literal("handleDialog"),
+    response: z.enum(["accept", "dismiss"]),
+    promptText: z.string().optional()
+  }),
   actionBaseSchema.extend({
     type: z.literal("press"),
-    key: z.string().min(1)
+    key: z.string().min(1),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("type"),
+    text: z.string(),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional(),
+    delayMs: z.number().int().nonnegative().optional(),
+    clearFirst: z.boolean().optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("keyDown"),
+    key: z.string().min(1),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("keyUp"),
+    key: z.string().min(1),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional()
   }),
   actionBaseSchema.extend({
     type: z.literal("pause"),
@@ -144,10 +369,20 @@ const actionSchemaCore = z.discriminatedUnion("type", [
     type: z.literal("waitFor"),
     condition: waitConditionSchema
   }),
-  z.object({
-    type: z.literal("snapshot")
+  actionMetaSchema.extend({
+    type: z.literal("snapshot"),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional()
   }),
-  z.object({
+  actionBaseSchema.extend({
+    type: z.literal("screenshot"),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional(),
+    padding: z.number().int().nonnegative().optional(),
+    fullPage: z.boolean().optional(),
+    path: z.string().min(1).optional()
+  }),
+  actionMetaSchema.extend({
     type: z.literal("setViewport"),
     width: z.number().int().positive(),
     height: z.number().int().positive()
@@ -159,7 +394,7 @@ const actionSchemaCore = z.discriminatedUnion("type", [
     url: z.string().min(1).optional(),
     waitUntil: z.enum(["load", "domcontentloaded", "networkidle"]).optional()
   }),
-  z.object({
+  actionMetaSchema.extend({
     type: z.literal("mock"),
     route: z.object({
       method: z.string().min(1).optional(),
@@ -171,15 +406,113 @@ const actionSchemaCore = z.discriminatedUnion("type", [
       json: z.unknown().optional()
     })
   }),
-  z.object({
+  actionMetaSchema.extend({
     type: z.literal("checkpoint"),
     name: z.string().min(1),
     rootDir: z.string().min(1).optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("newTab"),
+    url: z.string().min(1).optional(),
+    waitUntil: z.enum(["load", "domcontentloaded", "networkidle"]).optional()
+  }),
+  actionMetaSchema.extend({
+    type: z.literal("switchTab"),
+    tabId: z.string().min(1)
+  }),
+  actionMetaSchema.extend({
+    type: z.literal("closeTab"),
+    tabId: z.string().min(1).optional()
+  }),
+  actionMetaSchema.extend({
+    type: z.literal("include"),
+    path: z.string().min(1),
+    params: z.record(variableNameSchema, z.string()).optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("capture"),
+    name: variableNameSchema,
+    from: z.enum(["text", "value", "attribute", "url", "title"]),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional(),
+    attribute: z.string().min(1).optional(),
+    pattern: z.string().min(1).optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("evaluate"),
+    expression: z.string().min(1),
+    nodeId: z.string().min(1).optional(),
+    target: nodeTargetSchema.optional(),
+    saveAs: variableNameSchema.optional(),
+    maxResultBytes: z.number().int().positive().optional()
+  }),
+  actionBaseSchema.extend({
+    type: z.literal("extract"),
+    schema: z
+      .record(
+        z.string().min(1),
+        z.object({
+          selector: z.string().min(1),
+          fields: z
+            .record(
+              z.string().min(1),
+              z.union([
+                z.string(),
+                z.object({
+                  selector: z.string(),
+                  type: z.enum(["string", "number", "boolean"]).optional()
+                })
+              ])
+            )
+            .refine((fields) => Object.keys(fields).length > 0, "extract lists need at least one field")
+        })
+      )
+      .refine((schema) => Object.keys(schema).length > 0, "extract schema needs at least one list"),
+    next: nodeTargetSchema.optional(),
+    maxPages: z.number().int().positive().optional(),
+    path: z.string().min(1).optional()
+  }),
+  actionMetaSchema.extend({
+    type: z.literal("if"),
+    label: z.string().min(1).optional(),
+    match: z.enum(["all", "any"]).optional(),
+    when: z.array(loopPredicateSchema).min(1),
+    then: nestedActionsSchema,
+    else: nestedActionsSchema.optional()
+  }),
+  actionMetaSchema.extend({
+    type: z.literal("repeat"),
+    label: z.string().min(1).optional(),
+    times: z.number().int().positive(),
+    until: z.array(loopPredicateSchema).min(1).optional(),
+    match: z.enum(["all", "any"]).optional(),
+    actions: nestedActionsSchema
+  }),
+  actionMetaSchema.extend({
+    type: z.literal("forEach"),
+    label: z.string().min(1).optional(),
+    items: z.array(z.union([z.string(), z.record(variableNameSchema, z.string())])),
+    as: variableNameSchema.optional(),
+    actions: nestedActionsSchema
   })
 ]);
 
 export const actionSchema = actionSchemaCore.superRefine((value, context) => {
-  if (value.type === "click" || value.type === "fill" || value.type === "select") {
+  if (
+    value.type === "click" ||
+    value.type === "fill" ||
+    value.type === "select" ||
+    value.type === "check" ||
+    value.type === "uncheck" ||
+    value.type === "setChecked" ||
+    value.type === "hover" ||
+    value.type === "dblclick" ||
+    value.type === "contextClick" ||
+    value.type === "drag" ||
+    value.type === "upload" ||
+    value.type === "scrollIntoView" ||
+    value.type === "type"
+  ) {
     if (!value.nodeId && !value.target) {
       context.addIssue({
         code: z.ZodIssueCode.custom,
@@ -189,6 +522,183 @@ export const actionSchema = actionSchemaCore.superRefine((value, context) => {
     }
   }
 
+  if (value.type === "drag" && !value.toNodeId && !value.toTarget) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Either toNodeId or toTarget is required",
+      path: ["toTarget"]
+    });
+  }
+
+  if (value.type === "press" && !isValidKeyChord(value.key)) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Invalid key chord '${value.key}'. Join keys with '+', e.g. Control+Shift+K.`,
+      path: ["key"]
+    });
+  }
+
+  if ((value.type === "keyDown" || value.type === "keyUp") && !isValidKeyChord(value.key, 1)) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `${value.type} takes a single key, got '${value.key}'`,
+      path: ["key"]
+    });
+  }
+
+  if (value.type === "scroll") {
+    const hasDelta = value.deltaX !== undefined || value.deltaY !== undefined;
+    if (!hasDelta && !value.to && !value.until) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "scroll requires deltaX/deltaY, to, or until"
+      });
+    }
+    if (value.to && (hasDelta || value.until)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "scroll 'to' cannot be combined with deltas or until",
+        path: ["to"]
+      });
+    }
+    if (value.maxScrolls !== undefined && !value.until) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "maxScrolls only applies to scroll 'until'",
+        path: ["maxScrolls"]
+      });
+    }
+  }
+
+  if (value.type === "screenshot") {
+    const scoped = Boolean(value.nodeId || value.target);
+    if (value.padding !== undefined && !scoped) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "screenshot padding requires nodeId or target",
+        path: ["padding"]
+      });
+    }
+    if (value.fullPage !== undefined && scoped) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "screenshot fullPage cannot be combined with nodeId or target",
+        path: ["fullPage"]
+      });
+    }
+  }
+
+  if (value.type === "clickAt") {
+    const relative = Boolean(value.nodeId || value.target);
+    if (!relative && (value.x < 0 || value.y < 0)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "clickAt viewport coordinates must not be negative",
+        path: [value.x < 0 ? "x" : "y"]
+      });
+    }
+    if (relative && value.viewport) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "clickAt viewport only applies to viewport coordinates, not target-relative ones",
+        path: ["viewport"]
+      });
+    }
+  }
+
+  if (value.type === "extract") {
+    for (const [listName, list] of Object.entries(value.schema)) {
+      for (const [fieldName, field] of Object.entries(list.fields)) {
+        try {
+          parseExtractField(field);
+        } catch (error) {
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: error instanceof Error ? error.message : String(error),
+            path: ["schema", listName, "fields", fieldName]
+          });
+        }
+      }
+    }
+    if (value.maxPages !== undefined && !value.next) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "maxPages only applies when a next target is given",
+        path: ["maxPages"]
+      });
+    }
+  }
+
+  if (
+    value.type === "assert" &&
+    value.condition.kind === "visual_baseline" &&
+    value.condition.padding !== undefined &&
+    !value.condition.nodeId &&
+    !value.condition.target
+  ) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "visual_baseline padding requires nodeId or target",
+      path: ["condition", "padding"]
+    });
+  }
+
+  if (value.type === "assert" && value.condition.kind === "download") {
+    const condition = value.condition;
+    const hasCheck =
+      condition.fileName !== undefined ||
+      condition.fileNameMatches !== undefined ||
+      condition.contentContains !== undefined ||
+      condition.sha256 !== undefined ||
+      condition.minSizeBytes !== undefined;
+    if (!hasCheck) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "download assert requires fileName, fileNameMatches, contentContains, sha256, or minSizeBytes",
+        path: ["condition"]
+      });
+    }
+    if (condition.fileNameMatches !== undefined && !isValidRegExp(condition.fileNameMatches)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Invalid fileNameMatches pattern '${condition.fileNameMatches}'`,
+        path: ["condition", "fileNameMatches"]
+      });
+    }
+  }
+
+  if (value.type === "capture") {
+    if (value.from !== "url" && value.from !== "title" && !value.nodeId && !value.target) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Either nodeId or target is required when capturing from '${value.from}'`,
+        path: ["target"]
+      });
+    }
+    if (value.from === "attribute" && !value.attribute) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "attribute is required when capturing from 'attribute'",
+        path: ["attribute"]
+      });
+    }
+    if (value.pattern !== undefined && !isValidRegExp(value.pattern)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Invalid capture pattern '${value.pattern}'`,
+        path: ["pattern"]
+      });
+    }
+  }
+
+  // Nested actions validate their own placeholders.
+  for (const placeholder of findUnsupportedPlaceholders(withoutNestedActions(value))) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Unsupported placeholder '${placeholder}'. Use \${env.NAME}, \${secret.NAME}, \${vars.NAME}, or \${params.NAME}.`
+    });
+  }
+
   if (value.type === "waitFor" && value.condition.kind === "network_response") {
     const condition = value.condition;
     const hasPredicate =
@@ -248,28 +758,18 @@ export const scriptSchema = z.object({
       maxActionAttempts: z.number().int().positive().optional(),
       retryBackoffMs: z.number().int().nonnegative().optional(),
       storageStatePath: z.string().optional(),
-      logNoiseFiltering: z.boolean().optional()
+      logNoiseFiltering: z.boolean().optional(),
+      recordNetwork: z.boolean().optional(),
+      dialogPolicy: z.enum(["accept", "dismiss", "manual"]).optional(),
+      dialogPromptText: z.string().optional(),
+      allowEvaluate: z.boolean().optional(),
+      evaluateMaxResultBytes: z.number().int().positive().optional()
     })
     .optional(),
+  vars: z.record(variableNameSchema, z.string()).optional(),
   actions: z.array(actionSchema).min(1)
 });
 
-const loopPredicateSchema = z.discriminatedUnion("kind", [
-  z.object({
-    kind: z.literal("snapshot"),
-    field: z.enum(["url", "title", "domHash", "nodeCount", "interactiveCount"]),
-    operator: z.enum(["contains", "equals", "not_equals", "gt", "gte", "lt", "lte"]),
-    value: z.union([z.string(), z.number()]),
-    negate: z.boolean().optional()
-  }),
-  z.object({
-    kind: z.literal("assert"),
-    condition: assertConditionSchema,
-    timeoutMs: z.number().int().positive().optional(),
-    negate: z.boolean().optional()
-  })
-]);
-
 const loopBranchSchema = z.object({
   label: z.string().min(1).optional(),
   match: z.enum(["all", "any"]).optional(),
@@ -280,6 +780,7 @@ const loopBranchSchema = z.object({
 
 export const loopScriptSchema = z.object({
   settings: scriptSchema.shape.settings,
+  vars: scriptSchema.shape.vars,
   setupActions: z.array(actionSchema).optional(),
   stepAction: actionSchema,
   branches: z.array(loopBranchSchema).min(1),
@@ -305,3 +806,27 @@ export function parseScript(raw: unknown): ParsedScript {
 export function parseLoopScript(raw: unknown): ParsedLoopScript {
   return loopScriptSchema.parse(raw);
 }
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isValidKeyChord(key: string, maxKeys = Number.POSITIVE_INFINITY): boolean {
+  // A '+' that ends the chord is the plus key itself (e.g. "Control++").
+  const keys = key.split(/\+(?=.)/);
+  return keys.length <= maxKeys && keys.every((part) => part.length > 0);
+}
+
+function withoutNestedActions(action: Record<string, unknown>): Record<string, unknown> {
+  if (action.type !== "if" && action.type !== "repeat" && action.type !== "forEach") {
+    return action;
+  }
+
+  const { then: _then, else: _else, actions: _actions, ...rest } = action;
+  return rest;
+}
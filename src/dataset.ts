@@ -0,0 +1,138 @@
+import { readFile } from "node:fs/promises";
+import { basename, dirname, extname, join, resolve } from "node:path";
+
+export type DatasetRow = Record<string, string>;
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export async function loadDataset(dataPath: string): Promise<DatasetRow[]> {
+  const absolutePath = resolve(dataPath);
+  const raw = await readFile(absolutePath, "utf8");
+  const extension = extname(absolutePath).toLowerCase();
+
+  if (extension === ".csv") {
+    return parseCsvDataset(raw, absolutePath);
+  }
+  if (extension === ".json") {
+    return parseJsonDataset(raw, absolutePath);
+  }
+
+  throw new Error(`Unsupported dataset '${dataPath}'. Use a .csv or .json file.`);
+}
+
+export function parseCsvDataset(raw: string, source = "dataset"): DatasetRow[] {
+  const records = parseCsvRecords(raw.replace(/^\uFEFF/, ""));
+  const header = records.shift()?.cells;
+  if (!header || header.every((cell) => cell.trim().length === 0)) {
+    throw new Error(`Dataset '${source}' has no header row`);
+  }
+
+  const columns = header.map((cell) => cell.trim());
+  assertColumnNames(columns, source);
+
+  return records
+    .filter(({ cells }) => cells.some((cell) => cell.length > 0))
+    .map(({ cells, line }) => {
+      if (cells.length !== columns.length) {
+        throw new Error(`Dataset '${source}' line ${line} has ${cells.length} columns; expected ${columns.length}`);
+      }
+      return Object.fromEntries(columns.map((column, columnIndex) => [column, cells[columnIndex] ?? ""]));
+    });
+}
+
+export function parseJsonDataset(raw: string, source = "dataset"): DatasetRow[] {
+  const parsed = JSON.parse(raw) as unknown;
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Dataset '${source}' must be a JSON array of objects`);
+  }
+
+  return parsed.map((entry, index) => {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      throw new Error(`Dataset '${source}' row ${index + 1} must be an object`);
+    }
+
+    const row: DatasetRow = {};
+    for (const [name, value] of Object.entries(entry)) {
+      if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+        throw new Error(`Dataset '${source}' row ${index + 1} field '${name}' must be a string, number, or boolean`);
+      }
+      row[name] = String(value);
+    }
+    assertColumnNames(Object.keys(row), source);
+    return row;
+  });
+}
+
+export function resolveRowTracePath(tracePath: string, rowIndex: number): string {
+  const absolutePath = resolve(tracePath);
+  const stem = basename(absolutePath).replace(/\.json$/i, "");
+  return join(dirname(absolutePath), `${stem}.row-${rowIndex + 1}.json`);
+}
+
+function assertColumnNames(columns: string[], source: string): void {
+  for (const column of columns) {
+    if (!VARIABLE_NAME_PATTERN.test(column)) {
+      throw new Error(`Dataset '${source}' column '${column}' is not a valid variable name`);
+    }
+  }
+}
+
+// Each record keeps the 1-based file line it starts on; quoted fields may span several lines.
+function parseCsvRecords(raw: string): Array<{ cells: string[]; line: number }> {
+  const records: Array<{ cells: string[]; line: number }> = [];
+  let record: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine = 1;
+
+  for (let index = 0; index < raw.length; index += 1) {
+    const char = raw[index];
+
+    if (quoted) {
+      if (char === '"' && raw[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n" || (char === "\r" && raw[index + 1] !== "\n")) {
+          line += 1;
+        }
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell.length === 0) {
+      quoted = true;
+      quoteLine = line;
+    } else if (char === ",") {
+      record.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && raw[index + 1] === "\n") {
+        index += 1;
+      }
+      record.push(cell);
+      records.push({ cells: record, line: recordLine });
+      record = [];
+      cell = "";
+      line += 1;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Unterminated quoted CSV field starting on line ${quoteLine}`);
+  }
+  if (cell.length > 0 || record.length > 0) {
+    record.push(cell);
+    records.push({ cells: record, line: recordLine });
+  }
+
+  return records;
+}
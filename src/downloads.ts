@@ -0,0 +1,130 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile } from "node:fs/promises";
+import { basename, dirname } from "node:path";
+import type { Download, Page } from "playwright";
+import type { AssertCondition, DownloadSummary } from "./types.js";
+
+export class DownloadCapture {
+  private readonly pending: Download[] = [];
+  private readonly waiters: Array<(download: Download) => void> = [];
+  private readonly attachedPages = new WeakSet<Page>();
+
+  attachPage(page: Page): void {
+    if (this.attachedPages.has(page)) {
+      return;
+    }
+    this.attachedPages.add(page);
+
+    page.on("download", (download) => {
+      const waiter = this.waiters.shift();
+      if (waiter) {
+        waiter(download);
+        return;
+      }
+      this.pending.push(download);
+    });
+  }
+
+  discardPending(): void {
+    this.pending.length = 0;
+  }
+
+  next(timeoutMs: number, signal?: AbortSignal): Promise<Download> {
+    const queued = this.pending.shift();
+    if (queued) {
+      return Promise.resolve(queued);
+    }
+
+    return new Promise((resolvePromise, reject) => {
+      const release = () => {
+        clearTimeout(timer);
+        const index = this.waiters.indexOf(waiter);
+        if (index >= 0) {
+          this.waiters.splice(index, 1);
+        }
+      };
+      const waiter = (download: Download) => {
+        release();
+        resolvePromise(download);
+      };
+      const timer = setTimeout(() => {
+        release();
+        reject(new Error(`Timeout ${timeoutMs}ms exceeded while waiting for a download`));
+      }, timeoutMs);
+      signal?.addEventListener(
+        "abort",
+        () => {
+          release();
+          reject(new Error("Stopped waiting for a download"));
+        },
+        { once: true }
+      );
+      this.waiters.push(waiter);
+    });
+  }
+}
+
+export async function saveDownload(download: Download, filePath: string): Promise<DownloadSummary> {
+  const failure = await download.failure();
+  if (failure) {
+    throw new Error(`Download '${download.suggestedFilename()}' failed: ${failure}`);
+  }
+
+  await mkdir(dirname(filePath), { recursive: true });
+  await download.saveAs(filePath);
+  const content = await readFile(filePath);
+
+  return {
+    fileName: basename(filePath),
+    suggestedFileName: download.suggestedFilename(),
+    url: download.url(),
+    path: filePath,
+    sizeBytes: content.length,
+    sha256: createHash("sha256").update(content).digest("hex")
+  };
+}
+
+export function sanitizeDownloadFileName(fileName: string): string {
+  const cleaned = fileName.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, "_").replace(/^\.+/, "");
+  return cleaned.length > 0 ? cleaned : "download";
+}
+
+export async function assertDownload(
+  download: DownloadSummary | undefined,
+  condition: Extract<AssertCondition, { kind: "download" }>
+): Promise<void> {
+  if (!download) {
+    throw new Error("Assert failed: no download has been captured in this session");
+  }
+
+  if (condition.fileName !== undefined && download.suggestedFileName !== condition.fileName) {
+    throw new Error(
+      `Assert failed: download file name '${download.suggestedFileName}' is not '${condition.fileName}'`
+    );
+  }
+
+  if (condition.fileNameMatches !== undefined && !new RegExp(condition.fileNameMatches).test(download.suggestedFileName)) {
+    throw new Error(
+      `Assert failed: download file name '${download.suggestedFileName}' does not match /${condition.fileNameMatches}/`
+    );
+  }
+
+  if (condition.sha256 !== undefined && download.sha256 !== condition.sha256.toLowerCase()) {
+    throw new Error(`Assert failed: download sha256 ${download.sha256} does not equal ${condition.sha256}`);
+  }
+
+  if (condition.minSizeBytes !== undefined && download.sizeBytes < condition.minSizeBytes) {
+    throw new Error(
+      `Assert failed: download is ${download.sizeBytes} bytes (required at least ${condition.minSizeBytes})`
+    );
+  }
+
+  if (condition.contentContains !== undefined) {
+    const content = await readFile(download.path, "utf8");
+    if (!content.includes(condition.contentContains)) {
+      throw new Error(
+        `Assert failed: download '${download.fileName}' content does not include '${condition.contentContains}'`
+      );
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { Page } from "playwright";
+import type {
+  DomSnapshot,
+  ExtractField,
+  ExtractFieldType,
+  ExtractList,
+  ExtractedRow,
+  ExtractedValue
+} from "./types.js";
+
+export interface ExtractFieldSpec {
+  selector: string;
+  source: string;
+  type: ExtractFieldType;
+}
+
+export interface CompiledExtractList {
+  selector: string;
+  fields: Record<string, ExtractFieldSpec>;
+}
+
+export interface RawExtractedRow {
+  nodeId?: string;
+  values: Record<string, string | null>;
+}
+
+export type RawExtractedPage = Record<string, RawExtractedRow[]>;
+
+export function parseExtractField(field: ExtractField): ExtractFieldSpec {
+  const spec = typeof field === "string" ? field : field.selector;
+  const type = typeof field === "string" ? "string" : field.type ?? "string";
+  // Only a trailing attribute name counts as the source, so "@" inside selectors like [href^="mailto:x@y"] stays put.
+  const suffix = /@\s*([A-Za-z_][\w:.-]*)\s*$/.exec(spec);
+  if (suffix) {
+    return { selector: spec.slice(0, suffix.index).trim(), source: suffix[1], type };
+  }
+  if (spec.trim().endsWith("@")) {
+    throw new Error(`Extract field '${spec}' has an invalid source after '@'. Use text, value, html, or an attribute name.`);
+  }
+  return { selector: spec.trim(), source: "text", type };
+}
+
+export function compileExtractSchema(schema: Record<string, ExtractList>): Record<string, CompiledExtractList> {
+  return Object.fromEntries(
+    Object.entries(schema).map(([name, list]) => [
+      name,
+      {
+        selector: list.selector,
+        fields: Object.fromEntries(
+          Object.entries(list.fields).map(([fieldName, field]) => [fieldName, parseExtractField(field)])
+        )
+      }
+    ])
+  );
+}
+
+export function coerceExtractValue(raw: string | null, type: ExtractFieldType): ExtractedValue {
+  if (raw === null) {
+    return null;
+  }
+
+  if (type === "number") {
+    const cleaned = raw.replace(/[^0-9.,-]/g, "").replace(/,/g, "");
+    const value = Number(cleaned);
+    return cleaned.length > 0 && Number.isFinite(value) ? value : null;
+  }
+
+  if (type === "boolean") {
+    const normalized = raw.trim().toLowerCase();
+    return normalized.length > 0 && !["false", "no", "0", "off"].includes(normalized);
+  }
+
+  return raw;
+}
+
+export async function extractPage(page: Page, lists: Record<string, CompiledExtractList>): Promise<RawExtractedPage> {
+  return page.evaluate((schema) => {
+    const runtime = (
+      window as unknown as {
+        __agentNodeRuntime?: { nodeIds: WeakMap<Element, string> };
+      }
+    ).__agentNodeRuntime;
+
+    const readSource = (el: Element, source: string): string | null => {
+      if (source === "text") {
+        return (el.textContent ?? "").replace(/\s+/g, " ").trim();
+      }
+      if (source === "value") {
+        return "value" in el ? String((el as HTMLInputElement).value) : el.getAttribute("value");
+      }
+      if (source === "html") {
+        return el.innerHTML;
+      }
+      if ((source === "href" || source === "src") && el.hasAttribute(source)) {
+        // The property resolves relative URLs against the document base.
+        const resolved = (el as unknown as Record<string, unknown>)[source];
+        return typeof resolved === "string" ? resolved : el.getAttribute(source);
+      }
+      return el.getAttribute(source);
+    };
+
+    const output: Record<string, Array<{ nodeId?: string; values: Record<string, string | null> }>> = {};
+    for (const [name, list] of Object.entries(schema)) {
+      output[name] = Array.from(document.querySelectorAll(list.selector)).map((row) => {
+        const values: Record<string, string | null> = {};
+        for (const [fieldName, field] of Object.entries(list.fields)) {
+          const el = field.selector ? row.querySelector(field.selector) : row;
+          values[fieldName] = el ? readSource(el, field.source) : null;
+        }
+        return { nodeId: runtime?.nodeIds.get(row), values };
+      });
+    }
+    return output;
+  }, lists);
+}
+
+export function toExtractedRows(
+  raw: RawExtractedPage,
+  lists: Record<string, CompiledExtractList>,
+  snapshot: DomSnapshot,
+  pageNumber: number
+): Record<string, ExtractedRow[]> {
+  const nodesById = new Map(snapshot.nodes.map((node) => [node.id, node]));
+
+  return Object.fromEntries(
+    Object.entries(raw).map(([name, rows]) => [
+      name,
+      rows.map((row) => {
+        const node = row.nodeId ? nodesById.get(row.nodeId) : undefined;
+        const fields: Record<string, ExtractedValue> = {};
+        for (const [fieldName, value] of Object.entries(row.values)) {
+          fields[fieldName] = coerceExtractValue(value, lists[name]?.fields[fieldName]?.type ?? "string");
+        }
+        return {
+          ...(node ? { stableRef: node.stableRef, nodeId: node.id } : {}),
+          page: pageNumber,
+          fields
+        };
+      })
+    ])
+  );
+}
+
+export function extractSignature(raw: RawExtractedPage): string {
+  return JSON.stringify(
+    Object.fromEntries(Object.entries(raw).map(([name, rows]) => [name, rows.map((row) => row.values)]))
+  );
+}
+
+export async function writeExtractFile(
+  filePath: string,
+  content: { url: string; pages: number; data: Record<string, ExtractedRow[]> }
+): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(
+    filePath,
+    `${JSON.stringify({ url: content.url, extractedAt: new Date().toISOString(), pages: content.pages, data: content.data }, null, 2)}\n`,
+    "utf8"
+  );
+}
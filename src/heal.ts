@@ -0,0 +1,583 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, relative, resolve } from "node:path";
+import { buildSelectorHealthReport } from "./selector-health.js";
+import { parseFrameLabel } from "./snapshot.js";
+import { loadSavedTrace } from "./trace.js";
+import type { ActionSource, NodeTarget, SavedTrace, SelectorHealthTopTarget } from "./types.js";
+
+export interface HealSuggestion {
+  target: string;
+  original: NodeTarget;
+  healed: NodeTarget;
+  candidate: string;
+  fallbackUses: number;
+  avgFallbackDepth: number;
+  hotspot?: SelectorHealthTopTarget;
+  // Where the traced steps were loaded from; steps from include files are healed in those files.
+  sources: ActionSource[];
+  rewrites: number;
+}
+
+export interface UnhealedTarget {
+  target: string;
+  reason: string;
+  failures: number;
+}
+
+export interface HealPlan {
+  suggestions: HealSuggestion[];
+  unhealed: UnhealedTarget[];
+}
+
+export interface HealOptions {
+  write?: boolean;
+  outPath?: string;
+}
+
+export interface HealReport extends HealPlan {
+  scriptPath: string;
+  tracePaths: string[];
+  diff: string;
+  writtenPath?: string;
+  writtenIncludes: string[];
+}
+
+interface TargetObservation {
+  label: string;
+  target: NodeTarget;
+  candidates: Map<string, { uses: number; depthSum: number }>;
+  sources: Map<string, ActionSource>;
+}
+
+interface JsonSpan {
+  start: number;
+  end: number;
+  members?: Array<{ key: string; value: JsonSpan }>;
+  items?: JsonSpan[];
+}
+
+type DiffLine = { kind: " " | "-" | "+"; text: string; oldLine: number; newLine: number };
+
+export async function healScript(scriptPath: string, tracePaths: string[], options: HealOptions = {}): Promise<HealReport> {
+  const absolutePath = resolve(scriptPath);
+  const source = await readFile(absolutePath, "utf8");
+  const traces: SavedTrace[] = [];
+  const absoluteTracePaths: string[] = [];
+  for (const tracePath of tracePaths) {
+    const loaded = await loadSavedTrace(tracePath);
+    traces.push(loaded.trace);
+    absoluteTracePaths.push(loaded.absolutePath);
+  }
+
+  const plan = planHeal(traces);
+  const healed = applyHealSuggestions(source, plan.suggestions);
+  const outPath = options.outPath ? resolve(options.outPath) : absolutePath;
+  let diff = formatUnifiedDiff(
+    source,
+    healed.source,
+    `a/${relative(process.cwd(), absolutePath)}`,
+    `b/${relative(process.cwd(), outPath)}`
+  );
+
+  // Included steps are traced with their own file, so their targets are rewritten there, in place.
+  const rewrites = healed.suggestions.map((suggestion) => suggestion.rewrites);
+  const includes: Array<{ path: string; source: string }> = [];
+  const includePaths = new Set(plan.suggestions.flatMap((suggestion) => suggestion.sources.map((entry) => entry.path)));
+  includePaths.delete(absolutePath);
+  for (const includePath of includePaths) {
+    const includeSource = await readFile(includePath, "utf8");
+    const includeHealed = applyHealSuggestions(includeSource, plan.suggestions);
+    includeHealed.suggestions.forEach((suggestion, index) => {
+      rewrites[index] += suggestion.rewrites;
+    });
+    const label = relative(process.cwd(), includePath);
+    const includeDiff = formatUnifiedDiff(includeSource, includeHealed.source, `a/${label}`, `b/${label}`);
+    if (includeDiff.length > 0) {
+      diff += includeDiff;
+      includes.push({ path: includePath, source: includeHealed.source });
+    }
+  }
+
+  const suggestions: HealSuggestion[] = [];
+  const unhealed = [...plan.unhealed];
+  for (const [index, suggestion] of healed.suggestions.entries()) {
+    const parameterised = rewrites[index] === 0 ? await findParameterisedSource(suggestion.sources) : undefined;
+    if (parameterised) {
+      unhealed.push({
+        target: suggestion.target,
+        reason: `built from include params at ${relative(process.cwd(), parameterised.path)}${parameterised.pointer}`,
+        failures: suggestion.hotspot?.failures ?? 0
+      });
+      continue;
+    }
+    suggestions.push({ ...suggestion, rewrites: rewrites[index] });
+  }
+
+  let writtenPath: string | undefined;
+  const writtenIncludes: string[] = [];
+  if (options.write || options.outPath) {
+    if (healed.source !== source || outPath !== absolutePath) {
+      await mkdir(dirname(outPath), { recursive: true });
+      await writeFile(outPath, healed.source, "utf8");
+      writtenPath = outPath;
+    }
+    for (const include of includes) {
+      await writeFile(include.path, include.source, "utf8");
+      writtenIncludes.push(include.path);
+    }
+  }
+
+  return {
+    scriptPath: absolutePath,
+    tracePaths: absoluteTracePaths,
+    suggestions,
+    unhealed,
+    diff,
+    writtenPath,
+    writtenIncludes
+  };
+}
+
+export function planHeal(traces: SavedTrace[]): HealPlan {
+  const observations = new Map<string, TargetObservation>();
+  const hotspots = new Map<string, SelectorHealthTopTarget>();
+  const unhealed = new Map<string, UnhealedTarget>();
+
+  for (const trace of traces) {
+    for (const hotspot of buildSelectorHealthReport(trace).topTargets) {
+      hotspots.set(hotspot.target, mergeHotspot(hotspots.get(hotspot.target), hotspot));
+    }
+
+    for (const record of trace.records) {
+      const target = "target" in record.action ? record.action.target : undefined;
+      const depth = record.result.selectorFallbackDepth ?? 0;
+      const candidate = record.result.selectorSelectedCandidate;
+      if (!target || record.result.status !== "ok" || depth <= 0 || !candidate) {
+        continue;
+      }
+
+      const label = record.result.selectorTarget ?? candidate;
+      if (target.kind === "node" || target.kind === "within" || target.kind === "nth" || target.kind === "near") {
+        unhealed.set(label, { target: label, reason: `${target.kind} targets are not rewritten`, failures: 0 });
+        continue;
+      }
+
+      const key = canonicalJson(target);
+      const observation = observations.get(key) ?? { label, target, candidates: new Map(), sources: new Map() };
+      const source = record.action.source;
+      if (source) {
+        observation.sources.set(`${source.path}#${source.pointer}`, source);
+      }
+      const stats = observation.candidates.get(candidate) ?? { uses: 0, depthSum: 0 };
+      stats.uses += 1;
+      stats.depthSum += depth;
+      observation.candidates.set(candidate, stats);
+      observations.set(key, observation);
+    }
+  }
+
+  const suggestions: HealSuggestion[] = [];
+  for (const observation of observations.values()) {
+    // Prefer the candidate that rescued the step most often; ties keep the first one seen.
+    const durable = [...observation.candidates.entries()]
+      .map(([candidate, stats]) => ({ candidate, stats, healed: candidateLabelToTarget(candidate) }))
+      .filter((entry) => entry.healed && canonicalJson(entry.healed) !== canonicalJson(observation.target))
+      .sort((left, right) => right.stats.uses - left.stats.uses);
+    const best = durable[0];
+    if (!best?.healed) {
+      const tried = [...observation.candidates.keys()].join(", ");
+      unhealed.set(observation.label, {
+        target: observation.label,
+        reason: `no durable candidate among ${tried}`,
+        failures: hotspots.get(observation.label)?.failures ?? 0
+      });
+      continue;
+    }
+
+    suggestions.push({
+      target: observation.label,
+      original: observation.target,
+      healed: best.healed,
+      candidate: best.candidate,
+      fallbackUses: best.stats.uses,
+      avgFallbackDepth: round(best.stats.depthSum / best.stats.uses, 3),
+      hotspot: hotspots.get(observation.label),
+      sources: [...observation.sources.values()],
+      rewrites: 0
+    });
+  }
+
+  const healedLabels = new Set(suggestions.map((suggestion) => suggestion.target));
+  for (const hotspot of hotspots.values()) {
+    if (hotspot.failures > 0 && !healedLabels.has(hotspot.target) && !unhealed.has(hotspot.target)) {
+      unhealed.set(hotspot.target, {
+        target: hotspot.target,
+        reason: "failed without a working fallback",
+        failures: hotspot.failures
+      });
+    }
+  }
+
+  return { suggestions, unhealed: [...unhealed.values()] };
+}
+
+export function candidateLabelToTarget(label: string): NodeTarget | undefined {
+  const { framePath, rest } = parseFrameLabel(label);
+  const css = (selector: string): NodeTarget => ({ kind: "css", selector, ...(framePath ? { framePath } : {}) });
+
+  const getByRole = /^getByRole\(([^,]+), (.*), exact=(true|false)\)$/.exec(rest);
+  const role = /^role:(\S+) name:(.*)$/.exec(rest);
+  const textLocator = /^getBy(Text|Label|Placeholder)\((.*), exact=(true|false)\)$/.exec(rest);
+  const textPattern = /^getByText\(\/(.*)\/\)$/.exec(rest);
+  // Role and text locators have no frame scope in NodeTarget, so only selector-based labels heal inside frames.
+  if (!framePath) {
+    if (getByRole || role) {
+      const [, roleName, name] = (getByRole ?? role) as RegExpExecArray;
+      return { kind: "roleName", role: roleName, name };
+    }
+    if (textLocator) {
+      const exact = textLocator[3] === "true";
+      if (textLocator[1] === "Text") {
+        return { kind: "text", text: textLocator[2], ...(exact ? { match: "exact" as const } : {}) };
+      }
+      const kind = textLocator[1] === "Label" ? "label" : "placeholder";
+      return { kind, text: textLocator[2], ...(exact ? { exact } : {}) };
+    }
+    if (textPattern) {
+      return { kind: "text", text: textPattern[1], match: "regex" };
+    }
+  }
+
+  const named = /^([a-z][a-z0-9-]*)\[name=(.*)\]$/.exec(rest);
+  if (named) {
+    return css(`${named[1]}[name="${escapeAttributeValue(named[2])}"]`);
+  }
+
+  const separator = rest.indexOf(":");
+  if (separator <= 0) {
+    return undefined;
+  }
+
+  const kind = rest.slice(0, separator);
+  const value = rest.slice(separator + 1);
+  if (kind === "testId") {
+    return framePath ? css(`[data-testid="${escapeAttributeValue(value)}"]`) : { kind: "testId", value };
+  }
+  if (kind === "id") {
+    return css(/^[A-Za-z_][\w-]*$/.test(value) ? `#${value}` : `[id="${escapeAttributeValue(value)}"]`);
+  }
+  if (kind === "href") {
+    return css(`a[href="${escapeAttributeValue(value)}"]`);
+  }
+  if (kind === "css") {
+    return css(value);
+  }
+  if (kind === "xpath") {
+    return { kind: "xpath", expression: value, ...(framePath ? { framePath } : {}) };
+  }
+
+  // Structural path candidates break on the next layout change, so they are never written back.
+  return undefined;
+}
+
+export function applyHealSuggestions(
+  source: string,
+  suggestions: HealSuggestion[]
+): { source: string; suggestions: HealSuggestion[] } {
+  const byTarget = new Map(suggestions.map((suggestion) => [canonicalJson(suggestion.original), suggestion]));
+  const rewrites = new Map<HealSuggestion, number>();
+  const replacements: Array<{ start: number; end: number; text: string }> = [];
+
+  for (const span of collectActionTargetSpans(scanJson(source))) {
+    const suggestion = byTarget.get(canonicalJson(JSON.parse(source.slice(span.start, span.end))));
+    if (!suggestion) {
+      continue;
+    }
+    replacements.push({ start: span.start, end: span.end, text: formatTargetLike(source, span, suggestion.healed) });
+    rewrites.set(suggestion, (rewrites.get(suggestion) ?? 0) + 1);
+  }
+
+  let healed = source;
+  for (const replacement of replacements.sort((left, right) => right.start - left.start)) {
+    healed = `${healed.slice(0, replacement.start)}${replacement.text}${healed.slice(replacement.end)}`;
+  }
+
+  return {
+    source: healed,
+    suggestions: suggestions.map((suggestion) => ({ ...suggestion, rewrites: rewrites.get(suggestion) ?? 0 }))
+  };
+}
+
+export function formatUnifiedDiff(before: string, after: string, fromLabel: string, toLabel: string, context = 3): string {
+  const ops = diffLines(splitLines(before), splitLines(after));
+  if (!ops.some((op) => op.kind !== " ")) {
+    return "";
+  }
+
+  const lines = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  let index = 0;
+  while (index < ops.length) {
+    const firstChange = ops.findIndex((op, opIndex) => opIndex >= index && op.kind !== " ");
+    if (firstChange < 0) {
+      break;
+    }
+
+    let end = firstChange + 1;
+    let cursor = end;
+    while (cursor < ops.length) {
+      if (ops[cursor].kind !== " ") {
+        end = cursor + 1;
+        cursor += 1;
+        continue;
+      }
+      let run = cursor;
+      while (run < ops.length && ops[run].kind === " ") {
+        run += 1;
+      }
+      // Changes separated by less than two context windows share a hunk.
+      if (run >= ops.length || run - cursor > context * 2) {
+        break;
+      }
+      cursor = run;
+    }
+
+    const hunk = ops.slice(Math.max(index, firstChange - context), Math.min(ops.length, end + context));
+    const oldCount = hunk.filter((op) => op.kind !== "+").length;
+    const newCount = hunk.filter((op) => op.kind !== "-").length;
+    lines.push(`@@ -${hunk[0].oldLine},${oldCount} +${hunk[0].newLine},${newCount} @@`);
+    lines.push(...hunk.map((op) => `${op.kind}${op.text}`));
+    index = Math.min(ops.length, end + context);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+// A target written with ${params.NAME} differs per include call, so no single healed value fits it.
+async function findParameterisedSource(sources: ActionSource[]): Promise<ActionSource | undefined> {
+  for (const source of sources) {
+    const raw = await readFile(source.path, "utf8").catch(() => undefined);
+    if (raw === undefined) {
+      continue;
+    }
+    let value: unknown = JSON.parse(raw);
+    for (const segment of source.pointer.split("/").slice(1)) {
+      value = value && typeof value === "object" ? (value as Record<string, unknown>)[segment] : undefined;
+    }
+    const target = value && typeof value === "object" ? (value as { target?: unknown }).target : undefined;
+    if (JSON.stringify(target ?? null).includes("${params.")) {
+      return source;
+    }
+  }
+  return undefined;
+}
+
+function collectActionTargetSpans(node: JsonSpan): JsonSpan[] {
+  const spans: JsonSpan[] = [];
+  if (node.items) {
+    for (const item of node.items) {
+      spans.push(...collectActionTargetSpans(item));
+    }
+  }
+  if (node.members) {
+    const isAction = node.members.some((member) => member.key === "type");
+    for (const member of node.members) {
+      // Only an action's own target is rewritten; targets nested in composed targets keep their meaning.
+      if (member.key === "target" && isAction) {
+        spans.push(member.value);
+        continue;
+      }
+      spans.push(...collectActionTargetSpans(member.value));
+    }
+  }
+  return spans;
+}
+
+function scanJson(source: string): JsonSpan {
+  const state = { index: 0 };
+
+  const skipWhitespace = (): void => {
+    while (state.index < source.length && /\s/.test(source[state.index])) {
+      state.index += 1;
+    }
+  };
+
+  const scanString = (): string => {
+    const start = state.index;
+    state.index += 1;
+    while (state.index < source.length && source[state.index] !== '"') {
+      state.index += source[state.index] === "\\" ? 2 : 1;
+    }
+    state.index += 1;
+    return JSON.parse(source.slice(start, state.index)) as string;
+  };
+
+  const scanValue = (): JsonSpan => {
+    skipWhitespace();
+    const start = state.index;
+    const char = source[state.index];
+    if (char === "{") {
+      const members: Array<{ key: string; value: JsonSpan }> = [];
+      state.index += 1;
+      skipWhitespace();
+      while (source[state.index] !== "}") {
+        skipWhitespace();
+        const key = scanString();
+        skipWhitespace();
+        state.index += 1;
+        members.push({ key, value: scanValue() });
+        skipWhitespace();
+        if (source[state.index] === ",") {
+          state.index += 1;
+        }
+        skipWhitespace();
+      }
+      state.index += 1;
+      return { start, end: state.index, members };
+    }
+    if (char === "[") {
+      const items: JsonSpan[] = [];
+      state.index += 1;
+      skipWhitespace();
+      while (source[state.index] !== "]") {
+        items.push(scanValue());
+        skipWhitespace();
+        if (source[state.index] === ",") {
+          state.index += 1;
+        }
+        skipWhitespace();
+      }
+      state.index += 1;
+      return { start, end: state.index, items };
+    }
+    if (char === '"') {
+      scanString();
+      return { start, end: state.index };
+    }
+    while (state.index < source.length && !/[\s,\]}]/.test(source[state.index])) {
+      state.index += 1;
+    }
+    return { start, end: state.index };
+  };
+
+  // Parse first so malformed scripts fail with the standard JSON error instead of a scanner position.
+  JSON.parse(source);
+  return scanValue();
+}
+
+function formatTargetLike(source: string, span: JsonSpan, target: NodeTarget): string {
+  const original = source.slice(span.start, span.end);
+  if (!original.includes("\n")) {
+    return JSON.stringify(target, null, 1).replace(/\n\s*/g, " ");
+  }
+
+  const lineStart = source.lastIndexOf("\n", span.start) + 1;
+  const indent = /^[ \t]*/.exec(source.slice(lineStart))?.[0] ?? "";
+  const unit = /\n([ \t]+)\S/.exec(original)?.[1].slice(indent.length) || "  ";
+  return JSON.stringify(target, null, unit).replace(/\n/g, `\n${indent}`);
+}
+
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const oldMiddle = before.slice(prefix, before.length - suffix);
+  const newMiddle = after.slice(prefix, after.length - suffix);
+  const lengths = Array.from({ length: oldMiddle.length + 1 }, () => new Array<number>(newMiddle.length + 1).fill(0));
+  for (let i = oldMiddle.length - 1; i >= 0; i -= 1) {
+    for (let j = newMiddle.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] =
+        oldMiddle[i] === newMiddle[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  const push = (kind: DiffLine["kind"], text: string): void => {
+    ops.push({ kind, text, oldLine, newLine });
+    oldLine += kind === "+" ? 0 : 1;
+    newLine += kind === "-" ? 0 : 1;
+  };
+
+  for (const line of before.slice(0, prefix)) {
+    push(" ", line);
+  }
+  let i = 0;
+  let j = 0;
+  while (i < oldMiddle.length || j < newMiddle.length) {
+    if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+      push(" ", oldMiddle[i]);
+      i += 1;
+      j += 1;
+    } else if (j >= newMiddle.length || (i < oldMiddle.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      push("-", oldMiddle[i]);
+      i += 1;
+    } else {
+      push("+", newMiddle[j]);
+      j += 1;
+    }
+  }
+  for (const line of before.slice(before.length - suffix)) {
+    push(" ", line);
+  }
+
+  return ops;
+}
+
+function splitLines(text: string): string[] {
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+function mergeHotspot(
+  existing: SelectorHealthTopTarget | undefined,
+  next: SelectorHealthTopTarget
+): SelectorHealthTopTarget {
+  if (!existing) {
+    return { ...next };
+  }
+  const total = existing.total + next.total;
+  return {
+    target: next.target,
+    total,
+    failures: existing.failures + next.failures,
+    timeouts: existing.timeouts + next.timeouts,
+    avgFallbackDepth:
+      total > 0 ? round((existing.avgFallbackDepth * existing.total + next.avgFallbackDepth * next.total) / total, 3) : 0
+  };
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([left], [right]) => left.localeCompare(right));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function escapeAttributeValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+function round(value: number, precision: number): number {
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,130 @@
+import { readFile } from "node:fs/promises";
+import { dirname, relative, resolve } from "node:path";
+import { parseScript, type ParsedScript } from "./contracts.js";
+import type { Action } from "./types.js";
+import { substituteParams } from "./variables.js";
+
+export interface LoadedActionScript {
+  script: ParsedScript;
+  includedPaths: string[];
+}
+
+export async function loadActionScript(scriptPath: string): Promise<LoadedActionScript> {
+  const absolutePath = resolve(scriptPath);
+  const script = await readScriptFile(absolutePath);
+  const includedPaths: string[] = [];
+  const includedVars: Record<string, string> = {};
+
+  const actions = await expandIncludes(substituteParams(script.actions as Action[], {}, absolutePath), "/actions", {
+    sourcePath: absolutePath,
+    stack: [absolutePath],
+    includedPaths,
+    includedVars
+  });
+
+  const vars = Object.keys(includedVars).length > 0 || script.vars ? { ...includedVars, ...script.vars } : undefined;
+  return {
+    script: {
+      ...script,
+      ...(vars ? { vars } : {}),
+      actions: actions as ParsedScript["actions"]
+    },
+    includedPaths
+  };
+}
+
+export async function expandScriptIncludes(
+  actions: Action[],
+  scriptPath: string,
+  pointer: string
+): Promise<{ actions: Action[]; vars: Record<string, string> }> {
+  const includedVars: Record<string, string> = {};
+  const expanded = await expandIncludes(actions, pointer, {
+    sourcePath: resolve(scriptPath),
+    stack: [],
+    includedPaths: [],
+    includedVars
+  });
+  return { actions: expanded, vars: includedVars };
+}
+
+interface IncludeExpansionState {
+  sourcePath: string;
+  stack: string[];
+  includedPaths: string[];
+  includedVars: Record<string, string>;
+}
+
+// `pointer` is the JSON pointer of `actions` inside the source file; heal uses it to find included steps.
+async function expandIncludes(actions: Action[], pointer: string, state: IncludeExpansionState): Promise<Action[]> {
+  const expanded: Action[] = [];
+
+  for (const [index, action] of actions.entries()) {
+    if (action.type === "include") {
+      const includePath = resolve(dirname(state.sourcePath), action.path);
+      if (state.stack.includes(includePath)) {
+        const cycle = [...state.stack, includePath].map((entry) => relative(process.cwd(), entry) || entry);
+        throw new Error(`Include cycle detected: ${cycle.join(" -> ")}`);
+      }
+
+      const included = await readScriptFile(includePath);
+      // Session settings belong to the script being run; an include cannot change them halfway through.
+      if (included.settings) {
+        throw new Error(`Included script '${includePath}' declares settings; move them to the top-level script`);
+      }
+      if (!state.includedPaths.includes(includePath)) {
+        state.includedPaths.push(includePath);
+      }
+      for (const [name, value] of Object.entries(included.vars ?? {})) {
+        state.includedVars[name] ??= value;
+      }
+
+      const inlined = await expandIncludes(
+        substituteParams(included.actions as Action[], action.params ?? {}, includePath),
+        "/actions",
+        {
+          ...state,
+          sourcePath: includePath,
+          stack: [...state.stack, includePath]
+        }
+      );
+      expanded.push(...inlined);
+      continue;
+    }
+
+    const source = { path: state.sourcePath, pointer: `${pointer}/${index}` };
+    if (action.type === "if") {
+      expanded.push({
+        ...action,
+        source,
+        then: await expandIncludes(action.then, `${source.pointer}/then`, state),
+        ...(action.else ? { else: await expandIncludes(action.else, `${source.pointer}/else`, state) } : {})
+      });
+      continue;
+    }
+
+    if (action.type === "repeat" || action.type === "forEach") {
+      const nested = await expandIncludes(action.actions, `${source.pointer}/actions`, state);
+      expanded.push({ ...action, source, actions: nested });
+      continue;
+    }
+
+    expanded.push({ ...action, source });
+  }
+
+  return expanded;
+}
+
+async function readScriptFile(absolutePath: string): Promise<ParsedScript> {
+  const raw = await readFile(absolutePath, "utf8").catch((error) => {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Unable to read script '${absolutePath}': ${reason}`);
+  });
+
+  try {
+    return parseScript(JSON.parse(raw));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid script '${absolutePath}': ${reason}`);
+  }
+}
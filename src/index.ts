@@ -1,18 +1,29 @@
 export * from "./types.js";
 export * from "./contracts.js";
 export * from "./snapshot.js";
+export * from "./network-archive.js";
+export * from "./downloads.js";
+export * from "./extract.js";
 export * from "./observer.js";
 export * from "./session.js";
 export * from "./loop.js";
+export * from "./name-match.js";
+export * from "./predicates.js";
 export * from "./live-timeline.js";
 export * from "./selector-health.js";
 export * from "./run-index.js";
+export * from "./includes.js";
+export * from "./dataset.js";
+export * from "./recorder.js";
+export * from "./variables.js";
 export * from "./replay.js";
 export * from "./trace.js";
 export * from "./drift-monitor.js";
 export * from "./timeline-html.js";
 export * from "./visual.js";
 export * from "./annotate.js";
+export * from "./codegen.js";
+export * from "./heal.js";
 export * from "./adapter.js";
 export * from "./claude-adapter.js";
 export * from "./codex-adapter.js";
@@ -1,3 +1,4 @@
+import { evaluatePredicates } from "./predicates.js";
 import { AgentSession } from "./session.js";
 import type {
   Action,
@@ -5,8 +6,6 @@ import type {
   LoopBranch,
   LoopBranchResult,
   LoopIterationResult,
-  LoopPredicate,
-  LoopPredicateResult,
   LoopMetricsReport,
   LoopRunReport,
   LoopScript
@@ -196,20 +195,12 @@ async function resolveBranches(
   for (const [index, branch] of branches.entries()) {
     const label = branch.label?.trim() || `branch_${index + 1}`;
     const matchMode = branch.match ?? "all";
-    const predicates = branch.when ?? [];
-
-    const predicateResults: LoopPredicateResult[] = [];
-    for (const predicate of predicates) {
-      const result = await evaluatePredicate(session, predicate, getSnapshotWithCache);
-      predicateResults.push(result);
-    }
-
-    const matched =
-      predicates.length === 0
-        ? true
-        : matchMode === "any"
-          ? predicateResults.some((result) => result.passed)
-          : predicateResults.every((result) => result.passed);
+    const { matched, results: predicateResults } = await evaluatePredicates(
+      session,
+      branch.when ?? [],
+      matchMode,
+      getSnapshotWithCache
+    );
 
     branchResults.push({
       label,
@@ -238,145 +229,6 @@ async function resolveBranches(
   };
 }
 
-async function evaluatePredicate(
-  session: AgentSession,
-  predicate: LoopPredicate,
-  getObservationSnapshot: () => Promise<DomSnapshot>
-): Promise<LoopPredicateResult> {
-  if (predicate.kind === "assert") {
-    const assertResult = await session.perform({
-      type: "assert",
-      condition: predicate.condition,
-      timeoutMs: predicate.timeoutMs
-    });
-    const rawPass = assertResult.status === "ok";
-    const negated = predicate.negate ?? false;
-    const passed = negated ? !rawPass : rawPass;
-    return {
-      kind: "assert",
-      passed,
-      negate: negated,
-      detail: rawPass
-        ? `assert:${predicate.condition.kind} passed`
-        : `assert:${predicate.condition.kind} failed (${assertResult.error?.message ?? "unknown"})`
-    };
-  }
-
-  const snapshot = await getObservationSnapshot();
-  const raw = evaluateSnapshotPredicate(snapshot, predicate);
-  const negated = predicate.negate ?? false;
-  return {
-    kind: "snapshot",
-    passed: negated ? !raw.passed : raw.passed,
-    negate: negated,
-    detail: raw.detail
-  };
-}
-
-function evaluateSnapshotPredicate(
-  snapshot: DomSnapshot,
-  predicate: Extract<LoopPredicate, { kind: "snapshot" }>
-): { passed: boolean; detail: string } {
-  const actual = getSnapshotField(snapshot, predicate.field);
-  const operator = predicate.operator;
-
-  if (operator === "contains") {
-    const passed = String(actual).includes(String(predicate.value));
-    return {
-      passed,
-      detail: `snapshot.${predicate.field} contains '${predicate.value}' => actual='${truncateDetail(String(actual))}'`
-    };
-  }
-
-  if (operator === "equals") {
-    const expected = normalizeComparableValue(actual, predicate.value);
-    const passed = actual === expected;
-    return {
-      passed,
-      detail: `snapshot.${predicate.field} equals '${expected}' => actual='${truncateDetail(String(actual))}'`
-    };
-  }
-
-  if (operator === "not_equals") {
-    const expected = normalizeComparableValue(actual, predicate.value);
-    const passed = actual !== expected;
-    return {
-      passed,
-      detail: `snapshot.${predicate.field} not_equals '${expected}' => actual='${truncateDetail(String(actual))}'`
-    };
-  }
-
-  const left = Number(actual);
-  const right = Number(predicate.value);
-  if (!Number.isFinite(left) || !Number.isFinite(right)) {
-    return {
-      passed: false,
-      detail: `snapshot.${predicate.field} ${operator} '${predicate.value}' => non-numeric comparison`
-    };
-  }
-
-  if (operator === "gt") {
-    return {
-      passed: left > right,
-      detail: `snapshot.${predicate.field} gt ${right} => actual=${left}`
-    };
-  }
-
-  if (operator === "gte") {
-    return {
-      passed: left >= right,
-      detail: `snapshot.${predicate.field} gte ${right} => actual=${left}`
-    };
-  }
-
-  if (operator === "lt") {
-    return {
-      passed: left < right,
-      detail: `snapshot.${predicate.field} lt ${right} => actual=${left}`
-    };
-  }
-
-  return {
-    passed: left <= right,
-    detail: `snapshot.${predicate.field} lte ${right} => actual=${left}`
-  };
-}
-
-function normalizeComparableValue(actual: string | number, value: string | number): string | number {
-  if (typeof actual === "number") {
-    const numeric = Number(value);
-    return Number.isFinite(numeric) ? numeric : value;
-  }
-
-  return String(value);
-}
-
-function getSnapshotField(
-  snapshot: DomSnapshot,
-  field: "url" | "title" | "domHash" | "nodeCount" | "interactiveCount"
-): string | number {
-  if (field === "url") {
-    return snapshot.url;
-  }
-  if (field === "title") {
-    return snapshot.title;
-  }
-  if (field === "domHash") {
-    return snapshot.domHash;
-  }
-  if (field === "nodeCount") {
-    return snapshot.nodeCount;
-  }
-  return snapshot.interactiveCount;
-}
-
-function truncateDetail(input: string): string {
-  if (input.length <= 120) {
-    return input;
-  }
-  return `${input.slice(0, 117)}...`;
-}
-
 function buildDurationSummary(values: number[]): {
   average: number;
   p50: number;
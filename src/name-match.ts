@@ -0,0 +1,70 @@
+import type { NameMatch, NodeTarget } from "./types.js";
+
+export const DEFAULT_FUZZY_NAME_MIN_SCORE = 0.7;
+
+type RoleNameTarget = Extract<NodeTarget, { kind: "roleName" }>;
+
+export function normalizeComparableText(input: string): string {
+  return input.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+// Folds case and diacritics and drops punctuation, arrows and icon glyphs: "Sign In →" -> "sign in".
+export function foldNameText(input: string): string {
+  return input
+    .normalize("NFKD")
+    .replace(/\p{M}+/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+export function nameTokenSimilarity(actual: string, expected: string): number {
+  const actualTokens = tokenize(actual);
+  const expectedTokens = tokenize(expected);
+  if (actualTokens.length === 0 || expectedTokens.length === 0) {
+    return 0;
+  }
+
+  const remaining = [...actualTokens];
+  let shared = 0;
+  for (const token of expectedTokens) {
+    const index = remaining.indexOf(token);
+    if (index >= 0) {
+      remaining.splice(index, 1);
+      shared += 1;
+    }
+  }
+
+  return round((2 * shared) / (actualTokens.length + expectedTokens.length), 3);
+}
+
+export function matchRoleName(actual: string, target: RoleNameTarget): NameMatch | undefined {
+  const queries = [target.name, ...(target.synonyms ?? [])];
+
+  if (target.match !== "fuzzy") {
+    const normalized = normalizeComparableText(actual);
+    const query = queries.find((candidate) => normalizeComparableText(candidate) === normalized);
+    return query === undefined ? undefined : { score: 1, matchedName: actual, query };
+  }
+
+  let best: NameMatch | undefined;
+  for (const query of queries) {
+    const score = nameTokenSimilarity(actual, query);
+    if (!best || score > best.score) {
+      best = { score, matchedName: actual, query };
+    }
+  }
+
+  return best && best.score >= (target.minScore ?? DEFAULT_FUZZY_NAME_MIN_SCORE) ? best : undefined;
+}
+
+function tokenize(input: string): string[] {
+  return foldNameText(input)
+    .split(" ")
+    .filter((token) => token.length > 0);
+}
+
+function round(value: number, precision: number): number {
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+}
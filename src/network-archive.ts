@@ -0,0 +1,222 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { basename, dirname, join, resolve } from "node:path";
+import type { BrowserContext, Request } from "playwright";
+import type { NetworkArchive, NetworkArchiveEntry, NetworkUnmatchedPolicy } from "./types.js";
+import { SECRET_PLACEHOLDER } from "./variables.js";
+
+const PLAYBACK_STRIPPED_HEADERS = new Set(["content-encoding", "content-length", "transfer-encoding"]);
+const SENSITIVE_HEADERS = new Set(["authorization", "cookie", "proxy-authorization", "set-cookie"]);
+const TEXTUAL_CONTENT_TYPE = /^\s*(text\/|application\/(json|javascript|xml|x-www-form-urlencoded)|[^;]*\+(json|xml))/i;
+
+export class NetworkArchiveRecorder {
+  private readonly entries: NetworkArchiveEntry[] = [];
+  private readonly pending = new Set<Promise<void>>();
+  private readonly attachedContexts = new WeakSet<BrowserContext>();
+
+  constructor(
+    private readonly redact: (input: string) => string = (input) => input,
+    private readonly redactionPatterns: RegExp[] = []
+  ) {}
+
+  attach(context: BrowserContext): void {
+    if (this.attachedContexts.has(context)) {
+      return;
+    }
+    this.attachedContexts.add(context);
+
+    context.on("requestfinished", (request) => {
+      const capture = this.capture(request).finally(() => {
+        this.pending.delete(capture);
+      });
+      this.pending.add(capture);
+    });
+  }
+
+  async toArchive(): Promise<NetworkArchive> {
+    await Promise.all([...this.pending]);
+    return {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      entries: [...this.entries]
+    };
+  }
+
+  private async capture(request: Request): Promise<void> {
+    const url = request.url();
+    if (!isRecordableUrl(url)) {
+      return;
+    }
+
+    const startTime = request.timing().startTime;
+    const startedAt = new Date(startTime > 0 ? startTime : Date.now()).toISOString();
+    const response = await request.response().catch(() => null);
+    if (!response) {
+      return;
+    }
+
+    const [headers, body] = await Promise.all([
+      response.allHeaders().catch(() => response.headers()),
+      response.body().catch(() => Buffer.alloc(0))
+    ]);
+
+    this.entries.push(
+      redactArchiveEntry(
+        {
+          startedAt,
+          request: {
+            method: request.method().toUpperCase(),
+            url,
+            resourceType: request.resourceType(),
+            postData: request.postData() ?? undefined
+          },
+          response: {
+            status: response.status(),
+            statusText: response.statusText(),
+            headers,
+            body: body.toString("base64"),
+            bodyEncoding: "base64"
+          }
+        },
+        this.redact,
+        this.redactionPatterns
+      )
+    );
+  }
+}
+
+export class NetworkArchivePlayer {
+  private readonly queues = new Map<string, NetworkArchiveEntry[]>();
+  private readonly cursors = new Map<string, number>();
+  private readonly unmatchedRequests: string[] = [];
+  private servedCount = 0;
+
+  constructor(
+    archive: NetworkArchive,
+    readonly unmatchedPolicy: NetworkUnmatchedPolicy = "fail"
+  ) {
+    const ordered = [...archive.entries].sort((left, right) => left.startedAt.localeCompare(right.startedAt));
+    for (const entry of ordered) {
+      const key = archiveKey(entry.request.method, entry.request.url);
+      const queue = this.queues.get(key) ?? [];
+      queue.push(entry);
+      this.queues.set(key, queue);
+    }
+  }
+
+  match(method: string, url: string): NetworkArchiveEntry | undefined {
+    const key = archiveKey(method, url);
+    const queue = this.queues.get(key);
+    if (!queue || queue.length === 0) {
+      this.unmatchedRequests.push(key);
+      return undefined;
+    }
+
+    // Repeated requests replay recorded responses in order, then keep serving the last one.
+    const cursor = this.cursors.get(key) ?? 0;
+    this.cursors.set(key, cursor + 1);
+    this.servedCount += 1;
+    return queue[Math.min(cursor, queue.length - 1)];
+  }
+
+  summary(): { served: number; unmatched: string[] } {
+    return {
+      served: this.servedCount,
+      unmatched: [...new Set(this.unmatchedRequests)]
+    };
+  }
+}
+
+export function resolveNetworkArchivePath(tracePath: string): string {
+  const absolutePath = resolve(tracePath);
+  const stem = basename(absolutePath).replace(/\.json$/i, "");
+  return join(dirname(absolutePath), `${stem}.network.json`);
+}
+
+export async function saveNetworkArchive(filePath: string, archive: NetworkArchive): Promise<string> {
+  const absolutePath = resolve(filePath);
+  await mkdir(dirname(absolutePath), { recursive: true });
+  await writeFile(absolutePath, JSON.stringify(archive, null, 2), "utf8");
+  return absolutePath;
+}
+
+export async function loadNetworkArchive(filePath: string): Promise<NetworkArchive> {
+  const raw = await readFile(resolve(filePath), "utf8");
+  const archive = JSON.parse(raw) as NetworkArchive;
+  if (archive.version !== 1 || !Array.isArray(archive.entries)) {
+    throw new Error(`Unsupported network archive format in '${filePath}'`);
+  }
+  return archive;
+}
+
+// Urls stay untouched because playback matches on them; credential headers are dropped outright.
+// Bodies only lose known secret values: pattern matches would break the JSON and scripts playback serves.
+export function redactArchiveEntry(
+  entry: NetworkArchiveEntry,
+  redact: (input: string) => string,
+  patterns: RegExp[] = []
+): NetworkArchiveEntry {
+  const redactField = (input: string): string => redactPatterns(redact(input), patterns);
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(entry.response.headers)) {
+    if (!SENSITIVE_HEADERS.has(name.toLowerCase())) {
+      headers[name] = redactField(value);
+    }
+  }
+
+  const contentType = Object.entries(headers).find(([name]) => name.toLowerCase() === "content-type")?.[1];
+  let body = entry.response.body;
+  if (contentType && TEXTUAL_CONTENT_TYPE.test(contentType)) {
+    const text = Buffer.from(body, "base64").toString("utf8");
+    const redacted = redact(text);
+    if (redacted !== text) {
+      body = Buffer.from(redacted, "utf8").toString("base64");
+    }
+  }
+
+  return {
+    ...entry,
+    request: {
+      ...entry.request,
+      postData: entry.request.postData === undefined ? undefined : redactField(entry.request.postData)
+    },
+    response: { ...entry.response, headers, body }
+  };
+}
+
+export function archiveEntryToFulfillment(entry: NetworkArchiveEntry): {
+  status: number;
+  headers: Record<string, string>;
+  body: Buffer;
+} {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(entry.response.headers)) {
+    if (!PLAYBACK_STRIPPED_HEADERS.has(name.toLowerCase())) {
+      headers[name] = value;
+    }
+  }
+
+  return {
+    status: entry.response.status,
+    headers,
+    body: Buffer.from(entry.response.body, "base64")
+  };
+}
+
+function redactPatterns(input: string, patterns: RegExp[]): string {
+  // Keeping the captured prefix leaves `token=` or `"password":"` in place around the placeholder.
+  return patterns.reduce(
+    (output, pattern) =>
+      output.replace(pattern, (_match, prefix: unknown) =>
+        typeof prefix === "string" ? `${prefix}${SECRET_PLACEHOLDER}` : SECRET_PLACEHOLDER
+      ),
+    input
+  );
+}
+
+function archiveKey(method: string, url: string): string {
+  return `${method.toUpperCase()} ${url}`;
+}
+
+function isRecordableUrl(url: string): boolean {
+  return url.startsWith("http://") || url.startsWith("https://");
+}
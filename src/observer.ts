@@ -1,11 +1,12 @@
 import type { BrowserContext, Page } from "playwright";
-import type { ObserverEvent, PerformanceMetrics } from "./types.js";
+import type { DialogEvent, ObserverEvent, PerformanceMetrics } from "./types.js";
 
 type Listener = (event: ObserverEvent) => void;
 
 export class BrowserObserver {
   private readonly events: ObserverEvent[] = [];
   private readonly listeners = new Set<Listener>();
+  private readonly attachedPages = new WeakSet<Page>();
   private seq = 1;
   private drainCursor = 0;
 
@@ -13,30 +14,12 @@ export class BrowserObserver {
     private readonly context: BrowserContext,
     private readonly page: Page,
     private readonly redactionPatterns: RegExp[] = [],
-    private readonly noiseFilteringEnabled = true
+    private readonly noiseFilteringEnabled = true,
+    private readonly redactValue?: (input: string) => string
   ) {}
 
   start(): void {
-    this.page.on("console", (message) => {
-      this.push({
-        kind: "console",
-        seq: this.seq++,
-        timestamp: Date.now(),
-        level: normalizeConsoleLevel(message.type()),
-        text: this.redact(message.text()),
-        location: message.location()
-      });
-    });
-
-    this.page.on("pageerror", (error) => {
-      this.push({
-        kind: "page_error",
-        seq: this.seq++,
-        timestamp: Date.now(),
-        message: this.redact(error.message),
-        stack: this.redact(error.stack ?? "")
-      });
-    });
+    this.attachPage(this.page);
 
     this.context.on("request", (request) => {
       this.push({
@@ -78,6 +61,45 @@ export class BrowserObserver {
     });
   }
 
+  attachPage(page: Page): void {
+    if (this.attachedPages.has(page)) {
+      return;
+    }
+    this.attachedPages.add(page);
+
+    page.on("console", (message) => {
+      this.push({
+        kind: "console",
+        seq: this.seq++,
+        timestamp: Date.now(),
+        level: normalizeConsoleLevel(message.type()),
+        text: this.redact(message.text()),
+        location: message.location()
+      });
+    });
+
+    page.on("pageerror", (error) => {
+      this.push({
+        kind: "page_error",
+        seq: this.seq++,
+        timestamp: Date.now(),
+        message: this.redact(error.message),
+        stack: this.redact(error.stack ?? "")
+      });
+    });
+  }
+
+  recordDialog(dialog: Omit<DialogEvent, "kind" | "seq" | "timestamp">): void {
+    this.push({
+      kind: "dialog",
+      seq: this.seq++,
+      timestamp: Date.now(),
+      ...dialog,
+      message: this.redact(dialog.message),
+      promptText: dialog.promptText === undefined ? undefined : this.redact(dialog.promptText)
+    });
+  }
+
   subscribe(listener: Listener): () => void {
     this.listeners.add(listener);
     return () => {
@@ -95,11 +117,12 @@ export class BrowserObserver {
     return [...this.events];
   }
 
-  private push(event: ObserverEvent): void {
-    if (this.noiseFilteringEnabled && isLikelyNoiseEvent(event)) {
+  private push(rawEvent: ObserverEvent): void {
+    if (this.noiseFilteringEnabled && isLikelyNoiseEvent(rawEvent)) {
       return;
     }
 
+    const event = this.redactValue ? redactEventStrings(rawEvent, this.redactValue) : rawEvent;
     this.events.push(event);
     for (const listener of this.listeners) {
       listener(event);
@@ -211,5 +234,18 @@ export function formatEvent(event: ObserverEvent): string {
     return `[network] xx ${event.method} ${event.url} ${event.failureText ?? "failed"}`;
   }
 
+  if (event.kind === "dialog") {
+    const handledBy = event.handledBy ? ` by ${event.handledBy}` : "";
+    return `[dialog.${event.dialogType}] ${event.outcome}${handledBy}: ${event.message}`;
+  }
+
   return "[event] unknown";
 }
+
+function redactEventStrings(event: ObserverEvent, redact: (input: string) => string): ObserverEvent {
+  const output: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(event)) {
+    output[key] = typeof value === "string" ? redact(value) : value;
+  }
+  return output as unknown as ObserverEvent;
+}
@@ -0,0 +1,162 @@
+import type { AgentSession } from "./session.js";
+import type { DomSnapshot, LoopPredicate, LoopPredicateResult } from "./types.js";
+
+export async function evaluatePredicates(
+  session: AgentSession,
+  predicates: LoopPredicate[],
+  matchMode: "all" | "any",
+  getObservationSnapshot: () => Promise<DomSnapshot>
+): Promise<{ matched: boolean; results: LoopPredicateResult[] }> {
+  const results: LoopPredicateResult[] = [];
+  for (const predicate of predicates) {
+    results.push(await evaluatePredicate(session, predicate, getObservationSnapshot));
+  }
+
+  const matched =
+    predicates.length === 0
+      ? true
+      : matchMode === "any"
+        ? results.some((result) => result.passed)
+        : results.every((result) => result.passed);
+
+  return { matched, results };
+}
+
+export async function evaluatePredicate(
+  session: AgentSession,
+  predicate: LoopPredicate,
+  getObservationSnapshot: () => Promise<DomSnapshot>
+): Promise<LoopPredicateResult> {
+  if (predicate.kind === "assert") {
+    const assertResult = await session.perform({
+      type: "assert",
+      condition: predicate.condition,
+      timeoutMs: predicate.timeoutMs
+    });
+    const rawPass = assertResult.status === "ok";
+    const negated = predicate.negate ?? false;
+    const passed = negated ? !rawPass : rawPass;
+    return {
+      kind: "assert",
+      passed,
+      negate: negated,
+      detail: rawPass
+        ? `assert:${predicate.condition.kind} passed`
+        : `assert:${predicate.condition.kind} failed (${assertResult.error?.message ?? "unknown"})`
+    };
+  }
+
+  const snapshot = await getObservationSnapshot();
+  const raw = evaluateSnapshotPredicate(snapshot, predicate);
+  const negated = predicate.negate ?? false;
+  return {
+    kind: "snapshot",
+    passed: negated ? !raw.passed : raw.passed,
+    negate: negated,
+    detail: raw.detail
+  };
+}
+
+function evaluateSnapshotPredicate(
+  snapshot: DomSnapshot,
+  predicate: Extract<LoopPredicate, { kind: "snapshot" }>
+): { passed: boolean; detail: string } {
+  const actual = getSnapshotField(snapshot, predicate.field);
+  const operator = predicate.operator;
+
+  if (operator === "contains") {
+    const passed = String(actual).includes(String(predicate.value));
+    return {
+      passed,
+      detail: `snapshot.${predicate.field} contains '${predicate.value}' => actual='${truncateDetail(String(actual))}'`
+    };
+  }
+
+  if (operator === "equals") {
+    const expected = normalizeComparableValue(actual, predicate.value);
+    const passed = actual === expected;
+    return {
+      passed,
+      detail: `snapshot.${predicate.field} equals '${expected}' => actual='${truncateDetail(String(actual))}'`
+    };
+  }
+
+  if (operator === "not_equals") {
+    const expected = normalizeComparableValue(actual, predicate.value);
+    const passed = actual !== expected;
+    return {
+      passed,
+      detail: `snapshot.${predicate.field} not_equals '${expected}' => actual='${truncateDetail(String(actual))}'`
+    };
+  }
+
+  const left = Number(actual);
+  const right = Number(predicate.value);
+  if (!Number.isFinite(left) || !Number.isFinite(right)) {
+    return {
+      passed: false,
+      detail: `snapshot.${predicate.field} ${operator} '${predicate.value}' => non-numeric comparison`
+    };
+  }
+
+  if (operator === "gt") {
+    return {
+      passed: left > right,
+      detail: `snapshot.${predicate.field} gt ${right} => actual=${left}`
+    };
+  }
+
+  if (operator === "gte") {
+    return {
+      passed: left >= right,
+      detail: `snapshot.${predicate.field} gte ${right} => actual=${left}`
+    };
+  }
+
+  if (operator === "lt") {
+    return {
+      passed: left < right,
+      detail: `snapshot.${predicate.field} lt ${right} => actual=${left}`
+    };
+  }
+
+  return {
+    passed: left <= right,
+    detail: `snapshot.${predicate.field} lte ${right} => actual=${left}`
+  };
+}
+
+function normalizeComparableValue(actual: string | number, value: string | number): string | number {
+  if (typeof actual === "number") {
+    const numeric = Number(value);
+    return Number.isFinite(numeric) ? numeric : value;
+  }
+
+  return String(value);
+}
+
+function getSnapshotField(
+  snapshot: DomSnapshot,
+  field: "url" | "title" | "domHash" | "nodeCount" | "interactiveCount"
+): string | number {
+  if (field === "url") {
+    return snapshot.url;
+  }
+  if (field === "title") {
+    return snapshot.title;
+  }
+  if (field === "domHash") {
+    return snapshot.domHash;
+  }
+  if (field === "nodeCount") {
+    return snapshot.nodeCount;
+  }
+  return snapshot.interactiveCount;
+}
+
+function truncateDetail(input: string): string {
+  if (input.length <= 120) {
+    return input;
+  }
+  return `${input.slice(0, 117)}...`;
+}
@@ -0,0 +1,343 @@
+import type { BrowserContext, Frame, Page } from "playwright";
+import { snapshotFramePath, takeDomSnapshot } from "./snapshot.js";
+import type { Action, ActionScript, AgentNode, DomSnapshot, NodeTarget } from "./types.js";
+
+const NAVIGATION_ATTRIBUTION_MS = 2_000;
+const SEMANTIC_STABLE_REF_PREFIXES = ["testid:", "id:", "aria:", "name:", "href:"];
+
+type RecordedPagePayload =
+  | { kind: "click"; nodeId: string }
+  | { kind: "fill"; nodeId: string; value: string; password: boolean }
+  | { kind: "select"; nodeId: string; value: string }
+  | { kind: "press"; key: string };
+
+export interface ActionRecorderOptions {
+  resolveTabId: (page: Page) => string | undefined;
+}
+
+export class ActionRecorder {
+  private readonly recorded: Action[] = [];
+  private readonly listeners = new Set<(action: Action) => void>();
+  private readonly secrets = new Set<string>();
+  private readonly snapshots = new WeakMap<Page, DomSnapshot>();
+  private readonly attachedPages = new WeakSet<Page>();
+  private readonly attachedContexts = new WeakSet<BrowserContext>();
+  private queue: Promise<void> = Promise.resolve();
+  private lastUserEventAt = 0;
+  private currentTabId: string | undefined;
+  private unresolved = 0;
+
+  constructor(private readonly options: ActionRecorderOptions) {}
+
+  get unresolvedEventCount(): number {
+    return this.unresolved;
+  }
+
+  // Password fills are written as ${secret.NAME} placeholders; the run has to supply these names.
+  get secretNames(): string[] {
+    return [...this.secrets];
+  }
+
+  subscribe(listener: (action: Action) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async attachContext(context: BrowserContext): Promise<void> {
+    if (this.attachedContexts.has(context)) {
+      return;
+    }
+    this.attachedContexts.add(context);
+
+    await context.exposeBinding("__sazenRecord", (source, payload: RecordedPagePayload) => {
+      this.lastUserEventAt = Date.now();
+      this.enqueue(() => this.processPagePayload(source.page, source.frame, payload));
+    });
+    await context.addInitScript(installRecorderListeners);
+  }
+
+  attachPage(page: Page): void {
+    if (this.attachedPages.has(page)) {
+      return;
+    }
+    this.attachedPages.add(page);
+
+    page.on("framenavigated", (frame) => {
+      if (frame !== page.mainFrame()) {
+        return;
+      }
+      const navigatedAt = Date.now();
+      this.enqueue(() => this.processNavigation(page, frame.url(), navigatedAt));
+    });
+    page.on("load", () => {
+      this.enqueue(() => this.refreshSnapshot(page));
+    });
+  }
+
+  actions(): Action[] {
+    return [...this.recorded];
+  }
+
+  async flush(): Promise<void> {
+    await this.queue;
+  }
+
+  async toScript(settings?: ActionScript["settings"]): Promise<ActionScript> {
+    await this.flush();
+    return settings ? { settings, actions: this.actions() } : { actions: this.actions() };
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue.then(task).catch(() => undefined);
+  }
+
+  private async processNavigation(page: Page, url: string, navigatedAt: number): Promise<void> {
+    if (!/^(https?|file):/i.test(url)) {
+      return;
+    }
+
+    // Navigations right after a recorded click/press are caused by it and replay on their own.
+    if (navigatedAt - this.lastUserEventAt >= NAVIGATION_ATTRIBUTION_MS) {
+      this.switchToPage(page);
+      this.push({ type: "navigate", url });
+    }
+  }
+
+  private async processPagePayload(page: Page, frame: Frame, payload: RecordedPagePayload): Promise<void> {
+    if (payload.kind === "press") {
+      this.switchToPage(page);
+      this.push({ type: "press", key: payload.key });
+      return;
+    }
+
+    let node = findRecordedNode(this.snapshots.get(page), frame, payload.nodeId);
+    if (!node) {
+      await this.refreshSnapshot(page);
+      node = findRecordedNode(this.snapshots.get(page), frame, payload.nodeId);
+    }
+    if (!node) {
+      this.unresolved += 1;
+      return;
+    }
+
+    this.switchToPage(page);
+    const target = nodeTargetForRecordedNode(node);
+    if (payload.kind === "click") {
+      this.push({ type: "click", target });
+    } else if (payload.kind === "fill" && payload.password) {
+      const name = recordedSecretName(node);
+      this.secrets.add(name);
+      this.push({ type: "fill", target, value: `\${secret.${name}}` });
+    } else {
+      this.push({ type: payload.kind, target, value: payload.value });
+    }
+
+    await this.refreshSnapshot(page);
+  }
+
+  private async refreshSnapshot(page: Page): Promise<void> {
+    if (page.isClosed()) {
+      return;
+    }
+
+    const snapshot = await takeDomSnapshot(page).catch(() => null);
+    if (snapshot) {
+      this.snapshots.set(page, snapshot);
+    }
+  }
+
+  private switchToPage(page: Page): void {
+    const tabId = this.options.resolveTabId(page);
+    if (!tabId) {
+      return;
+    }
+
+    if (this.currentTabId && this.currentTabId !== tabId) {
+      this.push({ type: "switchTab", tabId });
+    }
+    this.currentTabId = tabId;
+  }
+
+  private push(action: Action): void {
+    this.recorded.push(action);
+    for (const listener of this.listeners) {
+      listener(action);
+    }
+  }
+}
+
+export function nodeTargetForRecordedNode(node: AgentNode): NodeTarget {
+  if (SEMANTIC_STABLE_REF_PREFIXES.some((prefix) => node.stableRef.startsWith(prefix))) {
+    return { kind: "stableRef", value: node.stableRef };
+  }
+
+  if (node.role !== "generic" && node.name) {
+    return { kind: "roleName", role: node.role, name: node.name };
+  }
+
+  if (node.stableRef.startsWith("semantic:")) {
+    return { kind: "stableRef", value: node.stableRef };
+  }
+
+  return node.framePath && node.framePath.length > 0
+    ? { kind: "css", selector: node.path, framePath: node.framePath }
+    : { kind: "css", selector: node.path };
+}
+
+export function recordedSecretName(node: AgentNode): string {
+  const source = node.attributes.name ?? node.attributes.id ?? node.name;
+  const name = source
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toUpperCase();
+  if (!name) {
+    return "PASSWORD";
+  }
+  return /^\d/.test(name) ? `PASSWORD_${name}` : name;
+}
+
+function findRecordedNode(snapshot: DomSnapshot | undefined, frame: Frame, nodeId: string): AgentNode | undefined {
+  if (!snapshot) {
+    return undefined;
+  }
+
+  if (frame.parentFrame() === null) {
+    return snapshot.nodes.find((node) => node.id === nodeId && !node.framePath);
+  }
+
+  // Runtime ids restart in every frame, so sibling frames share them; only the frame path tells them apart.
+  const framePath = snapshotFramePath(frame);
+  if (!framePath) {
+    return undefined;
+  }
+  return snapshot.nodes.find(
+    (node) =>
+      node.id.endsWith(`:${nodeId}`) &&
+      node.framePath?.length === framePath.length &&
+      node.framePath.every((host, index) => host === framePath[index])
+  );
+}
+
+function installRecorderListeners(): void {
+  const globalState = window as unknown as {
+    __agentNodeRuntime?: {
+      nextId: number;
+      nodeIds: WeakMap<Element, string>;
+    };
+    __sazenRecord?: (payload: unknown) => Promise<void>;
+    __sazenRecorderInstalled?: boolean;
+  };
+
+  if (globalState.__sazenRecorderInstalled) {
+    return;
+  }
+  globalState.__sazenRecorderInstalled = true;
+
+  const nonTextInputTypes = new Set([
+    "button",
+    "checkbox",
+    "color",
+    "file",
+    "hidden",
+    "image",
+    "radio",
+    "range",
+    "reset",
+    "submit"
+  ]);
+  const lastRecordedValues = new WeakMap<Element, string>();
+
+  const nodeIdFor = (el: Element): string => {
+    if (!globalState.__agentNodeRuntime) {
+      globalState.__agentNodeRuntime = {
+        nextId: 1,
+        nodeIds: new WeakMap<Element, string>()
+      };
+    }
+
+    const runtime = globalState.__agentNodeRuntime;
+    let nodeId = runtime.nodeIds.get(el);
+    if (!nodeId) {
+      nodeId = `node_${runtime.nextId++}`;
+      runtime.nodeIds.set(el, nodeId);
+    }
+    return nodeId;
+  };
+
+  const emit = (payload: unknown) => {
+    void globalState.__sazenRecord?.(payload).catch(() => undefined);
+  };
+
+  const eventElement = (event: Event): Element | null => {
+    const origin = event.composedPath()[0];
+    return origin instanceof Element ? origin : null;
+  };
+
+  const isTextEntry = (el: Element): el is HTMLInputElement | HTMLTextAreaElement =>
+    el instanceof HTMLTextAreaElement || (el instanceof HTMLInputElement && !nonTextInputTypes.has(el.type));
+
+  const recordFill = (el: HTMLInputElement | HTMLTextAreaElement) => {
+    const previous = lastRecordedValues.get(el) ?? el.defaultValue;
+    if (el.value === previous) {
+      return;
+    }
+    lastRecordedValues.set(el, el.value);
+    const password = el instanceof HTMLInputElement && el.type === "password";
+    emit({ kind: "fill", nodeId: nodeIdFor(el), value: password ? "" : el.value, password });
+  };
+
+  document.addEventListener(
+    "click",
+    (event) => {
+      const origin = eventElement(event);
+      if (!origin || origin.closest("[data-sazen-overlay='root']")) {
+        return;
+      }
+
+      const target =
+        origin.closest("a, button, input, select, textarea, summary, label, [role], [onclick], [tabindex]") ?? origin;
+      if (isTextEntry(target) || target instanceof HTMLSelectElement || target instanceof HTMLOptionElement) {
+        return;
+      }
+
+      emit({ kind: "click", nodeId: nodeIdFor(target) });
+    },
+    true
+  );
+
+  document.addEventListener(
+    "change",
+    (event) => {
+      const target = eventElement(event);
+      if (target instanceof HTMLSelectElement) {
+        emit({ kind: "select", nodeId: nodeIdFor(target), value: target.value });
+        return;
+      }
+      if (target && isTextEntry(target)) {
+        recordFill(target);
+      }
+    },
+    true
+  );
+
+  document.addEventListener(
+    "keydown",
+    (event) => {
+      if (event.key !== "Enter" && event.key !== "Escape") {
+        return;
+      }
+
+      const target = eventElement(event);
+      if (target && isTextEntry(target)) {
+        recordFill(target);
+        if (target instanceof HTMLTextAreaElement && event.key === "Enter") {
+          return;
+        }
+      }
+      emit({ kind: "press", key: event.key });
+    },
+    true
+  );
+}
@@ -1,4 +1,6 @@
+import { access } from "node:fs/promises";
 import { resolve } from "node:path";
+import { resolveNetworkArchivePath } from "./network-archive.js";
 import { AgentSession } from "./session.js";
 import { loadSavedTrace } from "./trace.js";
 import type {
@@ -17,7 +19,9 @@ const DEFAULT_REPLAY_OPTIONS: Required<ReplayOptions> = {
   mode: "strict",
   preflight: true,
   preflightTimeoutMs: 4_000,
-  selectorInvariants: true
+  selectorInvariants: true,
+  network: "live",
+  networkUnmatched: "fail"
 };
 
 export async function replayTrace(
@@ -28,12 +32,30 @@ export async function replayTrace(
   const effectiveReplayOptions = { ...DEFAULT_REPLAY_OPTIONS, ...replayOptions };
   const { absolutePath, trace } = await loadSavedTrace(tracePath);
   const requiredOrigins = collectRequiredOrigins(trace);
+  const playback = effectiveReplayOptions.network === "playback";
+  const networkArchivePath = playback ? await resolveReplayNetworkArchive(absolutePath, trace) : undefined;
 
-  if (effectiveReplayOptions.preflight) {
+  // Playback serves every request from the archive, so live origins do not need to be reachable.
+  const preflight = effectiveReplayOptions.preflight && !playback;
+  if (preflight) {
     await runPreflightChecks(requiredOrigins, effectiveReplayOptions.preflightTimeoutMs);
   }
 
-  const session = new AgentSession(options);
+  // Recorded actions keep their placeholders, so replay needs the run's vars; secrets are never stored.
+  const sessionOptions: AgentSessionOptions =
+    trace.options.variables || options.variables
+      ? { ...options, variables: { ...trace.options.variables, ...options.variables } }
+      : options;
+  const session = new AgentSession(
+    networkArchivePath
+      ? {
+          ...sessionOptions,
+          recordNetwork: false,
+          networkArchivePath,
+          networkUnmatched: effectiveReplayOptions.networkUnmatched
+        }
+      : sessionOptions
+  );
   await session.start();
 
   let matched = 0;
@@ -44,7 +66,13 @@ export async function replayTrace(
 
   try {
     for (const [index, record] of trace.records.entries()) {
-      const result = await session.perform(record.action);
+      // forEach items are not part of the recorded step, so restore them before it runs.
+      for (const frame of record.block ?? []) {
+        if (frame.vars) {
+          session.setVariables(frame.vars);
+        }
+      }
+      const result = await session.perform(withRecordedViewport(record));
       const comparison = compareReplayRecord(
         record,
         result,
@@ -76,6 +104,8 @@ export async function replayTrace(
     await session.close();
   }
 
+  const networkSummary = session.getNetworkPlaybackSummary();
+
   return {
     tracePath: absolutePath,
     mode: effectiveReplayOptions.mode,
@@ -84,13 +114,23 @@ export async function replayTrace(
     mismatched,
     preflight: {
       checkedOrigins: requiredOrigins,
-      skipped: !effectiveReplayOptions.preflight
+      skipped: !preflight
     },
     invariants: {
       selectorEnabled: effectiveReplayOptions.selectorInvariants && effectiveReplayOptions.mode === "relaxed",
       selectorChecks,
       selectorMismatches
     },
+    network:
+      networkArchivePath && networkSummary
+        ? {
+            mode: "playback",
+            archivePath: networkArchivePath,
+            unmatchedPolicy: effectiveReplayOptions.networkUnmatched,
+            served: networkSummary.served,
+            unmatched: networkSummary.unmatched
+          }
+        : undefined,
     mismatches
   };
 }
@@ -143,7 +183,7 @@ export async function detectFlakes(
 }
 
 interface ReplayMismatch {
-  reason: "dom_hash" | "status" | "url" | "selector_invariant";
+  reason: "dom_hash" | "status" | "url" | "selector_invariant" | "tab";
   expected: string;
   actual: string;
 }
@@ -158,11 +198,24 @@ function compareReplayRecord(
   record: TraceRecord,
   result: {
     status: TraceRecord["result"]["status"];
+    tabId: string;
     postSnapshot: { domHash: string; url: string; nodes: AgentNode[] };
   },
   mode: ReplayMode,
   selectorInvariants: boolean
 ): ReplayComparison {
+  if (record.result.tabId && result.tabId !== record.result.tabId) {
+    return {
+      mismatch: {
+        reason: "tab",
+        expected: record.result.tabId,
+        actual: result.tabId
+      },
+      selectorCheckPerformed: false,
+      selectorMismatch: false
+    };
+  }
+
   if (mode === "strict") {
     if (result.postSnapshot.domHash !== record.result.postDomHash) {
       return {
@@ -182,11 +235,18 @@ function compareReplayRecord(
     };
   }
 
-  if (result.status !== record.result.status) {
+  // Block conditions are traced as ok either way, so replay has to reach the same outcome instead.
+  const conditionPassed = record.result.conditionPassed;
+  const statusMatches =
+    conditionPassed === undefined
+      ? result.status === record.result.status
+      : (result.status === "ok") === conditionPassed;
+  if (!statusMatches) {
     return {
       mismatch: {
         reason: "status",
-        expected: record.result.status,
+        expected:
+          conditionPassed === undefined ? record.result.status : `condition ${conditionPassed ? "passed" : "failed"}`,
         actual: result.status
       },
       selectorCheckPerformed: false,
@@ -194,12 +254,14 @@ function compareReplayRecord(
     };
   }
 
-  if (record.result.postUrl && !isComparableUrl(record.result.postUrl, result.postSnapshot.url)) {
+  // History actions restore an exact history entry, so their query string is part of the landing page.
+  const includeQuery = record.action.type === "goBack" || record.action.type === "goForward" || record.action.type === "reload";
+  if (record.result.postUrl && !isComparableUrl(record.result.postUrl, result.postSnapshot.url, includeQuery)) {
     return {
       mismatch: {
         reason: "url",
-        expected: normalizeComparableUrl(record.result.postUrl),
-        actual: normalizeComparableUrl(result.postSnapshot.url)
+        expected: normalizeComparableUrl(record.result.postUrl, includeQuery),
+        actual: normalizeComparableUrl(result.postSnapshot.url, includeQuery)
       },
       selectorCheckPerformed: false,
       selectorMismatch: false
@@ -236,6 +298,17 @@ function compareReplayRecord(
   };
 }
 
+// Viewport clicks carry the viewport they ran in, so the session can scale them onto a different one.
+function withRecordedViewport(record: TraceRecord): Action {
+  const action = record.action;
+  if (action.type !== "clickAt" || action.nodeId || action.target || action.viewport) {
+    return action;
+  }
+  const width = record.result.clickAtViewportWidth;
+  const height = record.result.clickAtViewportHeight;
+  return width && height ? { ...action, viewport: { width, height } } : action;
+}
+
 function collectRequiredOrigins(trace: SavedTrace): string[] {
   if (trace.environment?.requiredOrigins && trace.environment.requiredOrigins.length > 0) {
     return [...new Set(trace.environment.requiredOrigins)].sort((left, right) => left.localeCompare(right));
@@ -247,6 +320,9 @@ function collectRequiredOrigins(trace: SavedTrace): string[] {
     if (record.action.type === "navigate") {
       addOrigin(origins, record.action.url);
     }
+    if (record.action.type === "newTab" && record.action.url) {
+      addOrigin(origins, record.action.url);
+    }
     if (record.result.postUrl) {
       addOrigin(origins, record.result.postUrl);
     }
@@ -279,6 +355,22 @@ async function runPreflightChecks(origins: string[], timeoutMs: number): Promise
   }
 }
 
+async function resolveReplayNetworkArchive(tracePath: string, trace: SavedTrace): Promise<string> {
+  // The recorded path is absolute, so a trace that was moved or copied finds its archive next to itself.
+  const recorded = trace.environment?.networkArchivePath;
+  const sibling = resolveNetworkArchivePath(tracePath);
+  const candidates = recorded && recorded !== sibling ? [recorded, sibling] : [sibling];
+  for (const archivePath of candidates) {
+    if (await access(archivePath).then(() => true, () => false)) {
+      return archivePath;
+    }
+  }
+  throw new Error(
+    `Network playback requires an archive but ${candidates.map((path) => `'${path}'`).join(" and ")} ` +
+      `${candidates.length > 1 ? "were" : "was"} not found. Record the trace with run --record-network.`
+  );
+}
+
 async function probeOrigin(origin: string, timeoutMs: number): Promise<boolean> {
   const methods: Array<"HEAD" | "GET"> = ["HEAD", "GET"];
 
@@ -316,15 +408,15 @@ function addOrigin(origins: Set<string>, input: string): void {
   }
 }
 
-function isComparableUrl(expected: string, actual: string): boolean {
-  return normalizeComparableUrl(expected) === normalizeComparableUrl(actual);
+function isComparableUrl(expected: string, actual: string, includeQuery = false): boolean {
+  return normalizeComparableUrl(expected, includeQuery) === normalizeComparableUrl(actual, includeQuery);
 }
 
-function normalizeComparableUrl(input: string): string {
+function normalizeComparableUrl(input: string, includeQuery = false): string {
   try {
     const parsed = new URL(input);
     const path = parsed.pathname.replace(/\/$/, "") || "/";
-    return `${parsed.origin}${path}`;
+    return `${parsed.origin}${path}${includeQuery ? parsed.search : ""}`;
   } catch {
     return input;
   }
@@ -51,13 +51,21 @@ export async function buildRunArtifactIndex(
 
   const topErrors = buildTopErrors(trace.records.map((record) => record.result.errorMessage).filter(Boolean) as string[]);
   const screenshots = dedupePaths(
-    timeline.map((entry) => entry.screenshotPath).filter((value): value is string => typeof value === "string")
+    timeline
+      .flatMap((entry) => [entry.screenshotPath, entry.capturedScreenshotPath])
+      .filter((value): value is string => typeof value === "string")
   );
   const annotatedScreenshots = dedupePaths(
     timeline
       .map((entry) => entry.annotatedScreenshotPath)
       .filter((value): value is string => typeof value === "string")
   );
+  const downloads = dedupePaths(
+    timeline.map((entry) => entry.download?.path).filter((value): value is string => typeof value === "string")
+  );
+  const extracts = dedupePaths(
+    timeline.map((entry) => entry.extract?.path).filter((value): value is string => typeof value === "string")
+  );
 
   return {
     version: 1,
@@ -68,11 +76,14 @@ export async function buildRunArtifactIndex(
       failedActions: trace.records.filter((record) => record.result.status !== "ok").length
     },
     selectorHealthPath: selectorHealthPath ?? undefined,
+    networkArchivePath: trace.environment?.networkArchivePath,
     timelineHtmlPaths,
     bundleManifestPaths,
     visualDiffReportPaths,
     screenshots,
     annotatedScreenshots,
+    downloads,
+    extracts,
     topErrors
   };
 }
@@ -167,8 +167,18 @@ export function computeSelectorHealthRates(report: SelectorHealthReport): Select
 }
 
 function isSelectorAction(action: Action): boolean {
-  if (action.type === "click" || action.type === "fill" || action.type === "select") {
-    return true;
+  if (isTargetAction(action)) {
+    // These actions may also run page-wide without a target.
+    const targetOptional =
+      action.type === "download" ||
+      action.type === "press" ||
+      action.type === "keyDown" ||
+      action.type === "keyUp" ||
+      action.type === "snapshot" ||
+      action.type === "screenshot" ||
+      action.type === "evaluate" ||
+      action.type === "clickAt";
+    return !targetOptional || Boolean(action.nodeId || action.target);
   }
 
   if (action.type === "waitFor" && action.condition.kind === "selector") {
@@ -192,7 +202,7 @@ function resolveSelectorTarget(record: TraceRecord): string | undefined {
   }
 
   const action = record.action;
-  if (action.type === "click" || action.type === "fill" || action.type === "select") {
+  if (isTargetAction(action)) {
     if (action.target?.kind === "css") {
       return `css:${action.target.selector}`;
     }
@@ -202,6 +212,18 @@ function resolveSelectorTarget(record: TraceRecord): string | undefined {
     if (action.target?.kind === "roleName") {
       return `roleName:${action.target.role}:${action.target.name}`;
     }
+    if (action.target?.kind === "text") {
+      return `text:${action.target.match ?? "substring"}:${action.target.text}`;
+    }
+    if (action.target?.kind === "label" || action.target?.kind === "placeholder") {
+      return `${action.target.kind}:${action.target.text}`;
+    }
+    if (action.target?.kind === "testId") {
+      return `testId:${action.target.value}`;
+    }
+    if (action.target?.kind === "xpath") {
+      return `xpath:${action.target.expression}`;
+    }
     if (action.target?.kind === "node") {
       return `node:${action.target.nodeId}`;
     }
@@ -240,3 +262,57 @@ function round(value: number, precision: number): number {
   const factor = Math.pow(10, precision);
   return Math.round(value * factor) / factor;
 }
+
+function isTargetAction(
+  action: Action
+): action is Extract<
+  Action,
+  {
+    type:
+      | "click"
+      | "fill"
+      | "select"
+      | "check"
+      | "uncheck"
+      | "setChecked"
+      | "hover"
+      | "dblclick"
+      | "contextClick"
+      | "clickAt"
+      | "drag"
+      | "upload"
+      | "download"
+      | "scrollIntoView"
+      | "snapshot"
+      | "screenshot"
+      | "evaluate"
+      | "type"
+      | "press"
+      | "keyDown"
+      | "keyUp";
+  }
+> {
+  return (
+    action.type === "click" ||
+    action.type === "fill" ||
+    action.type === "select" ||
+    action.type === "check" ||
+    action.type === "uncheck" ||
+    action.type === "setChecked" ||
+    action.type === "hover" ||
+    action.type === "dblclick" ||
+    action.type === "contextClick" ||
+    action.type === "clickAt" ||
+    action.type === "drag" ||
+    action.type === "upload" ||
+    action.type === "download" ||
+    action.type === "scrollIntoView" ||
+    action.type === "snapshot" ||
+    action.type === "screenshot" ||
+    action.type === "evaluate" ||
+    action.type === "type" ||
+    action.type === "press" ||
+    action.type === "keyDown" ||
+    action.type === "keyUp"
+  );
+}
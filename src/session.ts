@@ -1,7 +1,17 @@
 import { appendFile, copyFile, mkdir, readFile, writeFile } from "node:fs/promises";
 import { basename, dirname, extname, join, resolve } from "node:path";
 import { randomUUID } from "node:crypto";
-import { chromium, type Browser, type BrowserContext, type Locator, type Page } from "playwright";
+import {
+  chromium,
+  type Browser,
+  type BrowserContext,
+  type Dialog,
+  type ElementHandle,
+  type FrameLocator,
+  type JSHandle,
+  type Locator,
+  type Page
+} from "playwright";
 import { annotateActionScreenshot } from "./annotate.js";
 import { parseAction } from "./contracts.js";
 import {
@@ -9,22 +19,58 @@ import {
   defaultDeterministicOptions,
   installLayoutShiftCapture
 } from "./deterministic.js";
+import {
+  archiveEntryToFulfillment,
+  loadNetworkArchive,
+  NetworkArchivePlayer,
+  NetworkArchiveRecorder,
+  resolveNetworkArchivePath,
+  saveNetworkArchive
+} from "./network-archive.js";
+import { DownloadCapture, assertDownload, sanitizeDownloadFileName, saveDownload } from "./downloads.js";
+import {
+  compileExtractSchema,
+  extractPage,
+  extractSignature,
+  toExtractedRows,
+  writeExtractFile,
+  type CompiledExtractList,
+  type RawExtractedPage
+} from "./extract.js";
+import { matchRoleName, normalizeComparableText } from "./name-match.js";
 import { BrowserObserver, collectPerformanceMetrics } from "./observer.js";
+import { evaluatePredicates } from "./predicates.js";
+import { ActionRecorder } from "./recorder.js";
 import { resolveConsentHooksWithRegistry, resolveLoginHooksWithRegistry } from "./plugin-registry.js";
-import { diffSnapshots, takeDomSnapshot } from "./snapshot.js";
+import { diffSnapshots, frameLabelPrefix, scopeDomSnapshot, takeDomSnapshot } from "./snapshot.js";
+import { SECRET_PLACEHOLDER, ScriptVariables } from "./variables.js";
 import { comparePngFiles } from "./visual.js";
 import type {
   Action,
+  ActionBlock,
+  ActionBlockFrame,
   ActionResult,
   AgentNode,
   AgentSessionOptions,
+  AssertCondition,
   BoundingBox,
+  ClickAtAction,
+  ClickAtSummary,
+  DialogEvent,
+  DialogType,
   DomSnapshot,
+  DownloadSummary,
+  ExtractSummary,
   InterventionJournalEntry,
+  LoopPredicate,
+  NameMatch,
   NodeTarget,
   ObserverEvent,
   SavedSession,
   SavedTrace,
+  TabSummary,
+  TargetSelection,
+  TraceDialogSummary,
   TraceTimelineEntry,
   TraceRecord,
   WaitCondition
@@ -51,6 +97,9 @@ const DEFAULT_OPTIONS: Required<
     | "contextAttachmentsDir"
     | "maxActionAttempts"
     | "retryBackoffMs"
+    | "dialogPolicy"
+    | "allowEvaluate"
+    | "evaluateMaxResultBytes"
   >
 > = {
   headed: true,
@@ -70,7 +119,10 @@ const DEFAULT_OPTIONS: Required<
   contextAttachments: true,
   contextAttachmentsDir: ".sazen/context",
   maxActionAttempts: 1,
-  retryBackoffMs: 150
+  retryBackoffMs: 150,
+  dialogPolicy: "dismiss",
+  allowEvaluate: true,
+  evaluateMaxResultBytes: 64 * 1024
 };
 
 interface MockRule {
@@ -85,12 +137,14 @@ interface MockRule {
 interface LocatorCandidate {
   label: string;
   locator: Locator;
+  nameMatch?: NameMatch;
 }
 
 interface ResolvedLocator {
   targetLabel: string;
   candidates: LocatorCandidate[];
   node?: AgentNode;
+  selection?: TargetSelection;
 }
 
 interface SelectorDiagnostics {
@@ -99,6 +153,8 @@ interface SelectorDiagnostics {
   selectedCandidateIndex?: number;
   selectedCandidateLabel?: string;
   attemptedCandidateCount: number;
+  selection?: TargetSelection;
+  nameMatch?: NameMatch;
 }
 
 interface ActiveInterventionWindow {
@@ -116,15 +172,20 @@ interface SessionStorageSnapshot {
 }
 
 const CONTEXT_INDEX_MAX_ENTRIES = 500;
+const DEFAULT_MAX_SCROLLS = 20;
+const DEFAULT_EXTRACT_MAX_PAGES = 10;
 
 export class AgentSession {
   readonly sessionId = randomUUID();
-  readonly tabId = "tab_1";
 
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
   private page: Page | null = null;
   private observer: BrowserObserver | null = null;
+  private readonly tabs = new Map<string, Page>();
+  private readonly pagePreparations = new WeakMap<Page, Promise<void>>();
+  private activeTabId = "tab_1";
+  private tabSequence = 0;
 
   private actionCounter = 0;
   private lastSnapshot: DomSnapshot | null = null;
@@ -134,6 +195,9 @@ export class AgentSession {
   private readonly requiredOrigins = new Set<string>();
   private readonly mockRules: MockRule[] = [];
   private mockRoutingReady = false;
+  private networkRecorder: NetworkArchiveRecorder | null = null;
+  private networkPlayer: NetworkArchivePlayer | null = null;
+  private recorder: ActionRecorder | null = null;
   private readonly executionPauseSources = new Set<string>();
   private executionPauseStartedAt: number | undefined;
   private executionPausedMsTotal = 0;
@@ -144,8 +208,30 @@ export class AgentSession {
   private interventionsTrimmedLow = 0;
   private interventionsTrimmedHigh = 0;
   private closingPromise: Promise<void> | null = null;
+  private readonly variables: ScriptVariables;
+  private readonly blockFrames: ActionBlockFrame[] = [];
+  private readonly downloads = new DownloadCapture();
+  private downloadCounter = 0;
+  private lastDownload: DownloadSummary | undefined;
+  private readonly pendingDialogs: Dialog[] = [];
+  private armedDialogResponse: Extract<Action, { type: "handleDialog" }> | null = null;
+  private readonly dialogListeners = new Set<() => void>();
+
+  constructor(private readonly options: AgentSessionOptions = {}) {
+    this.variables = new ScriptVariables({ vars: options.variables, secrets: options.secrets });
+  }
 
-  constructor(private readonly options: AgentSessionOptions = {}) {}
+  get tabId(): string {
+    return this.activeTabId;
+  }
+
+  listTabs(): TabSummary[] {
+    return [...this.tabs.entries()].map(([tabId, page]) => ({
+      tabId,
+      url: safePageUrl(page, ""),
+      active: tabId === this.activeTabId
+    }));
+  }
 
   async start(): Promise<void> {
     const headed = this.options.headed ?? DEFAULT_OPTIONS.headed;
@@ -153,9 +239,34 @@ export class AgentSession {
       headless: !headed,
       slowMo: this.options.slowMoMs ?? DEFAULT_OPTIONS.slowMoMs
     });
+    if (this.options.recordNetwork) {
+      this.networkRecorder = new NetworkArchiveRecorder(
+        (input) => this.variables.redactString(input),
+        this.redactionPatterns()
+      );
+    }
+    if (this.options.networkArchivePath) {
+      const archive = await loadNetworkArchive(this.options.networkArchivePath);
+      this.networkPlayer = new NetworkArchivePlayer(archive, this.options.networkUnmatched ?? "fail");
+    }
     await this.initializeContext(this.options.storageStatePath);
   }
 
+  async startRecording(): Promise<ActionRecorder> {
+    const context = this.requireContext();
+    if (!this.recorder) {
+      this.recorder = new ActionRecorder({
+        resolveTabId: (page) => [...this.tabs.entries()].find(([, known]) => known === page)?.[0]
+      });
+    }
+
+    await this.recorder.attachContext(context);
+    for (const tab of this.tabs.values()) {
+      this.recorder.attachPage(tab);
+    }
+    return this.recorder;
+  }
+
   subscribe(listener: (event: ObserverEvent) => void): () => void {
     if (!this.observer) {
       throw new Error("Session is not started");
@@ -296,23 +407,35 @@ export class AgentSession {
   }
 
   async perform(rawAction: Action): Promise<ActionResult> {
-    const action = parseAction(rawAction) as Action;
+    const template = parseAction(rawAction) as Action;
+    if (template.type === "if" || template.type === "repeat" || template.type === "forEach") {
+      return this.performBlock(template);
+    }
+    const action = this.variables.interpolate(template);
 
     const retryPolicy = this.resolveRetryPolicy();
     const attemptResults: ActionResult[] = [];
+    const armedDialogResponse = this.armedDialogResponse;
 
-    for (let attempt = 1; attempt <= retryPolicy.maxAttempts; attempt += 1) {
-      const attemptResult = await this.performSingleAttempt(action);
-      attemptResults.push(attemptResult);
+    try {
+      for (let attempt = 1; attempt <= retryPolicy.maxAttempts; attempt += 1) {
+        const attemptResult = await this.performSingleAttempt(action, template);
+        attemptResults.push(attemptResult);
 
-      if (!shouldRetryActionResult(attemptResult.status, attempt, retryPolicy.maxAttempts)) {
-        break;
-      }
+        if (!shouldRetryActionResult(attemptResult.status, attempt, retryPolicy.maxAttempts)) {
+          break;
+        }
 
-      if (retryPolicy.backoffMs > 0) {
-        await new Promise<void>((resolvePromise) => {
-          setTimeout(resolvePromise, retryPolicy.backoffMs);
-        });
+        if (retryPolicy.backoffMs > 0) {
+          await new Promise<void>((resolvePromise) => {
+            setTimeout(resolvePromise, retryPolicy.backoffMs);
+          });
+        }
+      }
+    } finally {
+      // An armed response covers only the action after handleDialog; later dialogs go back to the policy.
+      if (armedDialogResponse && this.armedDialogResponse === armedDialogResponse) {
+        this.armedDialogResponse = null;
       }
     }
 
@@ -325,52 +448,92 @@ export class AgentSession {
     if (retrySummary) {
       result.retry = retrySummary;
     }
+    result.block = this.currentBlockFrames();
 
     const resolvedNode = result.resolvedNodeId
       ? result.preSnapshot.nodes.find((candidate) => candidate.id === result.resolvedNodeId)
       : undefined;
+    const destinationNode = result.dragSummary?.destinationNodeId
+      ? result.preSnapshot.nodes.find((candidate) => candidate.id === result.dragSummary?.destinationNodeId)
+      : undefined;
+
+    // A false if/until condition picks a branch; it is not a failed step.
+    const conditionPassed =
+      result.action.type === "assert" && result.block?.at(-1)?.branch === "condition" ? result.status === "ok" : undefined;
+    const tracedStatus = conditionPassed === undefined ? result.status : "ok";
 
     this.traceRecords.push({
-      action,
+      action: result.action,
+      block: result.block,
       result: {
-        status: result.status,
+        status: tracedStatus,
+        conditionPassed,
         postDomHash: result.postSnapshot.domHash,
         durationMs: result.durationMs,
+        tabId: result.tabId,
         postUrl: result.postSnapshot.url,
         postTitle: result.postSnapshot.title,
         postInteractiveCount: result.postSnapshot.interactiveCount,
-        waitForSelector: extractSelectorInvariant(action),
+        waitForSelector: extractSelectorInvariant(result.action),
         selectorTarget: result.selectorDiagnostics?.targetLabel,
         selectorCandidateCount: result.selectorDiagnostics?.candidateCount,
         selectorFallbackDepth: result.selectorDiagnostics?.selectedCandidateIndex,
         selectorAttemptedCount: result.selectorDiagnostics?.attemptedCandidateCount,
         selectorSelectedCandidate: result.selectorDiagnostics?.selectedCandidateLabel,
+        selectorSelectionKind: result.selectorDiagnostics?.selection?.kind,
+        selectorMatchCount: result.selectorDiagnostics?.selection?.matchCount,
+        selectorMatchIndex: result.selectorDiagnostics?.selection?.selectedIndex,
+        selectorNearDistance: result.selectorDiagnostics?.selection?.distance,
+        selectorNameScore: result.selectorDiagnostics?.nameMatch?.score,
+        selectorMatchedName: result.selectorDiagnostics?.nameMatch?.matchedName,
+        dragDestinationTarget: result.dragSummary?.destinationSelectorDiagnostics.targetLabel,
+        dragDestinationSelectedCandidate: result.dragSummary?.destinationSelectorDiagnostics.selectedCandidateLabel,
         networkErrorCount: result.events.filter(
           (event) => event.kind === "network" && event.phase === "request_failed"
         ).length,
         eventCount: result.events.length,
-        errorMessage: result.error?.message,
+        errorMessage: conditionPassed === undefined ? result.error?.message : undefined,
         retryAttemptCount: result.retry?.attemptCount,
         retryMaxAttempts: result.retry?.maxAttempts,
         retryFinalReason: result.retry?.finalReason,
         retryAttemptStatuses: result.retry?.attempts.map((attempt) => attempt.status),
         retryAttemptDurationsMs: result.retry?.attempts.map((attempt) => attempt.durationMs),
         checkpointName: result.checkpointSummary?.name,
-        checkpointManifestPath: result.checkpointSummary?.manifestPath
+        checkpointManifestPath: result.checkpointSummary?.manifestPath,
+        capturedName: result.captureSummary?.name,
+        capturedValue: result.captureSummary?.value,
+        downloadFileName: result.downloadSummary?.fileName,
+        downloadPath: result.downloadSummary?.path,
+        downloadSizeBytes: result.downloadSummary?.sizeBytes,
+        downloadSha256: result.downloadSummary?.sha256,
+        capturedScreenshotPath: result.screenshotSummary?.path,
+        scopedNodeCount: result.scopedSnapshot?.nodeCount,
+        evaluateValue: result.evaluateSummary ? JSON.stringify(result.evaluateSummary.value) : undefined,
+        evaluateSizeBytes: result.evaluateSummary?.sizeBytes,
+        extractPath: result.extractSummary?.path,
+        extractPages: result.extractSummary?.pages,
+        extractRowCount: result.extractSummary?.rowCount,
+        clickAtX: result.clickAtSummary?.x,
+        clickAtY: result.clickAtSummary?.y,
+        clickAtViewportWidth: result.clickAtSummary?.viewport.width,
+        clickAtViewportHeight: result.clickAtSummary?.viewport.height,
+        dialogs: summarizeDialogs(result.events)
       }
     });
 
     this.timelineEntries.push({
       index: this.timelineEntries.length,
       actionType: action.type,
-      status: result.status,
+      status: tracedStatus,
       durationMs: result.durationMs,
+      tabId: result.tabId,
       postUrl: result.postSnapshot.url,
       postDomHash: result.postSnapshot.domHash,
       domDiffSummary: result.domDiff.summary,
       eventCount: result.events.length,
       screenshotPath: result.screenshotPath,
       annotatedScreenshotPath: result.annotatedScreenshotPath,
+      capturedScreenshotPath: result.screenshotSummary?.path,
       target:
         resolvedNode || result.resolvedBoundingBox
           ? {
@@ -381,6 +544,15 @@ export class AgentSession {
               boundingBox: result.resolvedBoundingBox
             }
           : undefined,
+      dragDestination: result.dragSummary
+        ? {
+            nodeId: result.dragSummary.destinationNodeId,
+            stableRef: destinationNode?.stableRef,
+            role: destinationNode?.role,
+            name: destinationNode?.name,
+            boundingBox: result.dragSummary.destinationBoundingBox
+          }
+        : undefined,
       retry: result.retry
         ? {
             attemptCount: result.retry.attemptCount,
@@ -396,9 +568,33 @@ export class AgentSession {
             name: result.checkpointSummary.name,
             manifestPath: result.checkpointSummary.manifestPath
           }
-        : undefined
+        : undefined,
+      capture: result.captureSummary
+        ? {
+            name: result.captureSummary.name,
+            value: result.captureSummary.value
+          }
+        : undefined,
+      download: result.downloadSummary
+        ? {
+            fileName: result.downloadSummary.fileName,
+            path: result.downloadSummary.path,
+            sizeBytes: result.downloadSummary.sizeBytes,
+            sha256: result.downloadSummary.sha256
+          }
+        : undefined,
+      extract: result.extractSummary
+        ? {
+            path: result.extractSummary.path,
+            pages: result.extractSummary.pages,
+            rowCount: result.extractSummary.rowCount
+          }
+        : undefined,
+      dialogs: summarizeDialogs(result.events),
+      block: result.block
     });
 
+    // History actions carry no URL of their own; the page they land on is their origin.
     noteOriginFromUrl(this.requiredOrigins, result.postSnapshot.url);
     if (action.type === "navigate") {
       noteOriginFromUrl(this.requiredOrigins, action.url);
@@ -406,11 +602,138 @@ export class AgentSession {
     if (action.type === "switchProfile" && action.url) {
       noteOriginFromUrl(this.requiredOrigins, action.url);
     }
+    if (action.type === "newTab" && action.url) {
+      noteOriginFromUrl(this.requiredOrigins, action.url);
+    }
 
     return result;
   }
 
-  private async performSingleAttempt(action: Action): Promise<ActionResult> {
+  private async performBlock(block: ActionBlock): Promise<ActionResult> {
+    await this.waitForExecutionResume();
+
+    const startedAt = Date.now();
+    const actionId = `action_${++this.actionCounter}`;
+    const preSnapshot = this.lastSnapshot ?? (await this.snapshot());
+    const results: ActionResult[] = [];
+    const label = block.label;
+    let branch: "then" | "else" | undefined;
+    let iterations: number | undefined;
+
+    const runSteps = async (actions: Action[], frame: ActionBlockFrame): Promise<void> => {
+      this.blockFrames.push(frame);
+      try {
+        for (const action of actions) {
+          results.push(await this.perform(action));
+        }
+      } finally {
+        this.blockFrames.pop();
+      }
+    };
+
+    const conditionMatches = async (
+      predicates: LoopPredicate[],
+      match: "all" | "any" | undefined,
+      frame: ActionBlockFrame
+    ): Promise<boolean> => {
+      this.blockFrames.push(frame);
+      try {
+        // Assert predicates run through perform(), which interpolates them itself.
+        const resolved = predicates.map((predicate) =>
+          predicate.kind === "snapshot" ? this.variables.interpolate(predicate) : predicate
+        );
+        let observation: DomSnapshot | undefined;
+        const evaluation = await evaluatePredicates(this, resolved, match ?? "all", async () => {
+          observation ??= await this.snapshot();
+          return observation;
+        });
+        return evaluation.matched;
+      } finally {
+        this.blockFrames.pop();
+      }
+    };
+
+    switch (block.type) {
+      case "if": {
+        const matched = await conditionMatches(block.when, block.match, { kind: "if", label, branch: "condition" });
+        branch = matched ? "then" : "else";
+        await runSteps(matched ? block.then : (block.else ?? []), { kind: "if", label, branch });
+        break;
+      }
+
+      case "repeat": {
+        for (let iteration = 1; iteration <= block.times; iteration += 1) {
+          iterations = iteration;
+          await runSteps(block.actions, { kind: "repeat", label, iteration });
+          if (
+            block.until &&
+            (await conditionMatches(block.until, block.match, { kind: "repeat", label, iteration, branch: "condition" }))
+          ) {
+            break;
+          }
+        }
+        break;
+      }
+
+      case "forEach": {
+        const itemName = block.as ?? "item";
+        const items = this.variables.interpolate(block.items);
+        iterations = 0;
+        for (const [index, item] of items.entries()) {
+          const vars =
+            typeof item === "string"
+              ? { [itemName]: item }
+              : Object.fromEntries(Object.entries(item).map(([key, value]) => [`${itemName}_${key}`, value]));
+          for (const [name, value] of Object.entries(vars)) {
+            this.variables.set(name, value);
+          }
+          iterations = index + 1;
+          await runSteps(block.actions, { kind: "forEach", label, iteration: index + 1, vars });
+        }
+        break;
+      }
+
+      default: {
+        const neverBlock: never = block;
+        throw new Error(`Unsupported block: ${JSON.stringify(neverBlock)}`);
+      }
+    }
+
+    const finishedAt = Date.now();
+    const postSnapshot = this.lastSnapshot ?? preSnapshot;
+    return {
+      actionId,
+      sessionId: this.sessionId,
+      tabId: this.tabId,
+      status: results.find((result) => result.status !== "ok")?.status ?? "ok",
+      action: block,
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt - startedAt,
+      preSnapshot,
+      postSnapshot,
+      domDiff: diffSnapshots(preSnapshot, postSnapshot),
+      events: [],
+      performance: defaultPerformanceMetrics(),
+      block: this.currentBlockFrames(),
+      blockSummary: {
+        kind: block.type,
+        label,
+        branch,
+        iterations,
+        results
+      }
+    };
+  }
+
+  private currentBlockFrames(): ActionBlockFrame[] | undefined {
+    if (this.blockFrames.length === 0) {
+      return undefined;
+    }
+    return this.variables.redact(this.blockFrames.map((frame) => ({ ...frame })));
+  }
+
+  private async performSingleAttempt(action: Action, template: Action): Promise<ActionResult> {
     let page = this.requirePage();
     let observer = this.requireObserver();
     await this.waitForExecutionResume();
@@ -426,17 +749,43 @@ export class AgentSession {
     let pauseElapsedMs: number | undefined;
     let checkpointName: string | undefined;
     let checkpointManifestPath: string | undefined;
+    let capturedValue: string | undefined;
+    let dragSummary: ActionResult["dragSummary"] | undefined;
+    let downloadSummary: DownloadSummary | undefined;
+    let scrollSummary: ActionResult["scrollSummary"] | undefined;
+    let screenshotSummary: ActionResult["screenshotSummary"] | undefined;
+    let scopedSnapshot: DomSnapshot | undefined;
+    let evaluateSummary: ActionResult["evaluateSummary"] | undefined;
+    let extractSummary: ExtractSummary | undefined;
+    let clickAtSummary: ClickAtSummary | undefined;
     let error: ActionResult["error"] | undefined;
 
     try {
-      const execution = await this.executeAction(action, preSnapshot);
+      const waiting = this.pendingDialogs[0];
+      if (waiting && action.type !== "handleDialog") {
+        throw new Error(`A ${waiting.type()} dialog is waiting; run handleDialog before ${action.type}`);
+      }
+      // A manual-policy dialog blocks the page, so the action counts as done once the dialog opens.
+      const outcome = await this.raceDialog(this.executeAction(action, preSnapshot));
+      const execution = outcome === "dialog" ? {} : outcome.value;
       resolvedNodeId = execution.resolvedNodeId;
       resolvedBoundingBox = execution.resolvedBoundingBox;
       selectorDiagnostics = execution.selectorDiagnostics;
       pauseElapsedMs = execution.pauseElapsedMs;
       checkpointName = execution.checkpointName;
       checkpointManifestPath = execution.checkpointManifestPath;
-      await this.waitForStability(action, getActionTimeout(action));
+      capturedValue = execution.capturedValue;
+      dragSummary = execution.dragDestination;
+      downloadSummary = execution.downloadSummary;
+      scrollSummary = execution.scrollSummary;
+      screenshotSummary = execution.screenshotSummary;
+      scopedSnapshot = execution.scopedSnapshot;
+      evaluateSummary = execution.evaluateSummary;
+      extractSummary = execution.extractSummary;
+      clickAtSummary = execution.clickAtSummary;
+      if (outcome !== "dialog") {
+        await this.raceDialog(this.waitForStability(action, getActionTimeout(action)));
+      }
       page = this.requirePage();
       observer = this.requireObserver();
     } catch (caught) {
@@ -456,7 +805,12 @@ export class AgentSession {
     }
 
     try {
-      postSnapshot = await takeDomSnapshot(page);
+      const captured = this.pendingDialogs.length > 0 ? "dialog" : await this.raceDialog(takeDomSnapshot(page));
+      // Page scripts cannot run while a dialog is open, so keep the pre-action view until it is handled.
+      postSnapshot =
+        captured === "dialog"
+          ? { ...preSnapshot, snapshotId: randomUUID(), timestamp: Date.now(), url: safePageUrl(page, preSnapshot.url) }
+          : captured.value;
     } catch (captureError) {
       const message = captureError instanceof Error ? captureError.message : String(captureError);
       if (status === "ok") {
@@ -472,7 +826,10 @@ export class AgentSession {
     }
 
     this.lastSnapshot = postSnapshot;
-    this.lastKnownStorageSnapshot = await this.captureStorageSnapshot().catch(() => this.lastKnownStorageSnapshot);
+    const dialogOpen = this.pendingDialogs.length > 0;
+    if (!dialogOpen) {
+      this.lastKnownStorageSnapshot = await this.captureStorageSnapshot().catch(() => this.lastKnownStorageSnapshot);
+    }
     const domDiff = diffSnapshots(preSnapshot, postSnapshot);
     try {
       observer = this.requireObserver();
@@ -483,7 +840,9 @@ export class AgentSession {
     let performance = defaultPerformanceMetrics();
     try {
       page = this.requirePage();
-      performance = await collectPerformanceMetrics(page);
+      if (!dialogOpen) {
+        performance = await collectPerformanceMetrics(page);
+      }
     } catch (perfError) {
       const message = perfError instanceof Error ? perfError.message : String(perfError);
       error = appendError(error, `Performance capture failed: ${message}`);
@@ -492,7 +851,7 @@ export class AgentSession {
     let screenshotPath: string | undefined;
     let annotatedScreenshotPath: string | undefined;
     try {
-      screenshotPath = await this.captureScreenshot(actionId);
+      screenshotPath = dialogOpen ? undefined : await this.captureScreenshot(actionId);
       if (screenshotPath && (this.options.annotateScreenshots ?? DEFAULT_OPTIONS.annotateScreenshots)) {
         try {
           annotatedScreenshotPath = await annotateActionScreenshot({
@@ -500,6 +859,8 @@ export class AgentSession {
             action,
             resolvedNodeId,
             resolvedBoundingBox,
+            destinationBoundingBox: dragSummary?.destinationBoundingBox,
+            clickPoint: clickAtSummary,
             snapshot: preSnapshot
           });
         } catch (annotationError) {
@@ -513,12 +874,13 @@ export class AgentSession {
     }
 
     const finishedAt = Date.now();
-    const result: ActionResult = {
+    // Results keep the script's placeholders and never carry resolved secret values.
+    const result: ActionResult = this.variables.redact({
       actionId,
       sessionId: this.sessionId,
       tabId: this.tabId,
       status,
-      action,
+      action: template,
       startedAt,
       finishedAt,
       durationMs: finishedAt - startedAt,
@@ -532,6 +894,14 @@ export class AgentSession {
       resolvedNodeId,
       resolvedBoundingBox,
       selectorDiagnostics,
+      dragSummary,
+      downloadSummary,
+      scrollSummary,
+      screenshotSummary,
+      scopedSnapshot,
+      evaluateSummary,
+      extractSummary,
+      clickAtSummary,
       pauseSummary:
         action.type === "pause"
           ? {
@@ -549,8 +919,15 @@ export class AgentSession {
               manifestPath: checkpointManifestPath
             }
           : undefined,
+      captureSummary:
+        action.type === "capture" && capturedValue !== undefined
+          ? {
+              name: action.name,
+              value: capturedValue
+            }
+          : undefined,
       error
-    };
+    });
 
     try {
       await this.recordContextAttachment(result);
@@ -569,17 +946,41 @@ export class AgentSession {
     return this.lastSnapshot;
   }
 
+  setVariables(values: Record<string, string>): void {
+    for (const [name, value] of Object.entries(values)) {
+      this.variables.set(name, value);
+    }
+  }
+
+  getNetworkPlaybackSummary(): { served: number; unmatched: string[] } | undefined {
+    return this.networkPlayer?.summary();
+  }
+
   async saveTrace(filePath: string): Promise<string> {
     const absolutePath = resolve(filePath);
     await mkdir(dirname(absolutePath), { recursive: true });
 
+    let networkArchivePath: string | undefined;
+    if (this.networkRecorder) {
+      networkArchivePath = await saveNetworkArchive(
+        resolveNetworkArchivePath(absolutePath),
+        await this.networkRecorder.toArchive()
+      );
+    }
+
     const trace: SavedTrace = {
       version: 2,
       createdAt: new Date().toISOString(),
       sessionId: this.sessionId,
-      options: this.options,
+      options: this.options.secrets
+        ? {
+            ...this.options,
+            secrets: Object.fromEntries(Object.keys(this.options.secrets).map((name) => [name, SECRET_PLACEHOLDER]))
+          }
+        : this.options,
       environment: {
-        requiredOrigins: [...this.requiredOrigins].sort((left, right) => left.localeCompare(right))
+        requiredOrigins: [...this.requiredOrigins].sort((left, right) => left.localeCompare(right)),
+        networkArchivePath
       },
       timeline: [...this.timelineEntries],
       interventions: [...this.interventionJournal],
@@ -646,6 +1047,7 @@ export class AgentSession {
     this.context = null;
     this.page = null;
     this.observer = null;
+    this.tabs.clear();
     this.mockRoutingReady = false;
 
     const profilesRoot = action.profilesRoot ?? ".sazen/profiles";
@@ -682,6 +1084,7 @@ export class AgentSession {
     this.browser = null;
     this.page = null;
     this.observer = null;
+    this.tabs.clear();
 
     const closeTask = (async () => {
       if (context) {
@@ -718,6 +1121,15 @@ export class AgentSession {
     selectorDiagnostics?: SelectorDiagnostics;
     checkpointName?: string;
     checkpointManifestPath?: string;
+    capturedValue?: string;
+    dragDestination?: ActionResult["dragSummary"];
+    downloadSummary?: DownloadSummary;
+    scrollSummary?: ActionResult["scrollSummary"];
+    screenshotSummary?: ActionResult["screenshotSummary"];
+    scopedSnapshot?: DomSnapshot;
+    evaluateSummary?: ActionResult["evaluateSummary"];
+    extractSummary?: ExtractSummary;
+    clickAtSummary?: ClickAtSummary;
   }> {
     const page = this.requirePage();
 
@@ -730,80 +1142,223 @@ export class AgentSession {
         return {};
       }
 
-      case "click": {
-        const resolved = await this.resolveLocator(action.nodeId, action.target, preSnapshot);
-        const timeout = action.timeoutMs ?? this.options.actionTimeoutMs ?? DEFAULT_OPTIONS.actionTimeoutMs;
-        const execution = await this.runLocatorAction(
-          resolved,
-          timeout,
-          async (locator, attemptTimeout) => {
-            await locator.click({ timeout: attemptTimeout });
-          }
-        );
-        return {
-          resolvedNodeId: resolved.node?.id,
-          resolvedBoundingBox: execution.resolvedBoundingBox,
-          selectorDiagnostics: {
-            targetLabel: resolved.targetLabel,
-            candidateCount: execution.candidateCount,
-            selectedCandidateIndex: execution.selectedCandidateIndex,
-            selectedCandidateLabel: execution.selectedCandidateLabel,
-            attemptedCandidateCount: execution.attemptedCandidateCount
-          }
+      case "goBack":
+      case "goForward":
+      case "reload": {
+        const options = {
+          waitUntil: action.waitUntil ?? "domcontentloaded",
+          timeout: action.timeoutMs ?? this.options.actionTimeoutMs ?? DEFAULT_OPTIONS.actionTimeoutMs
         };
+        if (action.type === "reload") {
+          await page.reload(options);
+          return {};
+        }
+        const fromUrl = page.url();
+        const response = action.type === "goBack" ? await page.goBack(options) : await page.goForward(options);
+        // Playwright resolves null both for an empty history and for same-document (hash/pushState) entries.
+        if (!response && page.url() === fromUrl) {
+          throw new Error(`No ${action.type === "goBack" ? "previous" : "next"} page in this tab's history`);
+        }
+        return {};
+      }
+
+      case "click": {
+        return this.runTargetAction(action, preSnapshot, async (locator, attemptTimeout) => {
+          await locator.click({ timeout: attemptTimeout });
+        });
       }
 
       case "fill": {
-        const resolved = await this.resolveLocator(action.nodeId, action.target, preSnapshot);
-        const timeout = action.timeoutMs ?? this.options.actionTimeoutMs ?? DEFAULT_OPTIONS.actionTimeoutMs;
-        const execution = await this.runLocatorAction(
-          resolved,
-          timeout,
-          async (locator, attemptTimeout) => {
-            await locator.fill(action.value, { timeout: attemptTimeout });
-          }
-        );
-        return {
-          resolvedNodeId: resolved.node?.id,
-          resolvedBoundingBox: execution.resolvedBoundingBox,
-          selectorDiagnostics: {
-            targetLabel: resolved.targetLabel,
-            candidateCount: execution.candidateCount,
-            selectedCandidateIndex: execution.selectedCandidateIndex,
-            selectedCandidateLabel: execution.selectedCandidateLabel,
-            attemptedCandidateCount: execution.attemptedCandidateCount
-          }
-        };
+        return this.runTargetAction(action, preSnapshot, async (locator, attemptTimeout) => {
+          await locator.fill(action.value, { timeout: attemptTimeout });
+        });
       }
 
       case "select": {
-        const resolved = await this.resolveLocator(action.nodeId, action.target, preSnapshot);
+        return this.runTargetAction(action, preSnapshot, async (locator, attemptTimeout) => {
+          await locator.selectOption(action.value, { timeout: attemptTimeout });
+        });
+      }
+
+      case "check":
+      case "uncheck":
+      case "setChecked": {
+        const checked = action.type === "setChecked" ? action.checked : action.type === "check";
+        return this.runTargetAction(action, preSnapshot, async (locator, attemptTimeout) => {
+          await convergeCheckedState(locator, checked, attemptTimeout);
+        });
+      }
+
+      case "hover": {
+        return this.runTargetAction(action, preSnapshot, async (locator, attemptTimeout) => {
+          await locator.hover({ timeout: attemptTimeout });
+        });
+      }
+
+      case "dblclick": {
+        return this.runTargetAction(action, preSnapshot, async (locator, attemptTimeout) => {
+          await locator.dblclick({ timeout: attemptTimeout });
+        });
+      }
+
+      case "contextClick": {
+        return this.runTargetAction(action, preSnapshot, async (locator, attemptTimeout) => {
+          await locator.click({ button: "right", timeout: attemptTimeout });
+        });
+      }
+
+      case "clickAt": {
+        const viewport = await readViewportSize(page);
+        const clickOptions = { button: action.button ?? "left", clickCount: action.clickCount ?? 1 };
+        if (!action.nodeId && !action.target) {
+          const clickAtSummary = scaleClickAtPoint(action, viewport);
+          assertPointInViewport(clickAtSummary);
+          await page.mouse.click(clickAtSummary.x, clickAtSummary.y, clickOptions);
+          return { clickAtSummary };
+        }
+
+        let clickAtSummary: ClickAtSummary | undefined;
+        const located = await this.runTargetAction(action, preSnapshot, async (locator, attemptTimeout) => {
+          await locator.scrollIntoViewIfNeeded({ timeout: attemptTimeout });
+          const box = await locator.boundingBox({ timeout: attemptTimeout });
+          if (!box) {
+            throw new Error("clickAt target has no bounding box");
+          }
+          const point = { x: box.x + action.x, y: box.y + action.y, viewport };
+          assertPointInViewport(point);
+          await page.mouse.click(point.x, point.y, clickOptions);
+          clickAtSummary = point;
+        });
+        return { ...located, clickAtSummary };
+      }
+
+      case "drag": {
+        const destination = await this.resolveLocator(action.toNodeId, action.toTarget, preSnapshot);
         const timeout = action.timeoutMs ?? this.options.actionTimeoutMs ?? DEFAULT_OPTIONS.actionTimeoutMs;
-        const execution = await this.runLocatorAction(
-          resolved,
+        const destinationExecution = await this.runLocatorAction(
+          destination,
           timeout,
           async (locator, attemptTimeout) => {
-            await locator.selectOption(action.value, { timeout: attemptTimeout });
+            await locator.waitFor({ state: "visible", timeout: attemptTimeout });
           }
         );
+        const destinationLocator = destination.candidates[destinationExecution.selectedCandidateIndex ?? 0].locator;
+        const source = await this.runTargetAction(action, preSnapshot, async (locator, attemptTimeout) => {
+          await locator.dragTo(destinationLocator, { timeout: attemptTimeout });
+        });
         return {
-          resolvedNodeId: resolved.node?.id,
-          resolvedBoundingBox: execution.resolvedBoundingBox,
-          selectorDiagnostics: {
-            targetLabel: resolved.targetLabel,
-            candidateCount: execution.candidateCount,
-            selectedCandidateIndex: execution.selectedCandidateIndex,
-            selectedCandidateLabel: execution.selectedCandidateLabel,
-            attemptedCandidateCount: execution.attemptedCandidateCount
+          ...source,
+          dragDestination: {
+            destinationNodeId: destination.node?.id,
+            destinationBoundingBox: destinationExecution.resolvedBoundingBox,
+            destinationSelectorDiagnostics: toSelectorDiagnostics(destination, destinationExecution)
           }
         };
       }
 
+      case "upload": {
+        const files = action.files.map((file) => resolveScriptPath(action, file));
+        return this.runTargetAction(action, preSnapshot, async (locator, attemptTimeout) => {
+          await locator.setInputFiles(files, { timeout: attemptTimeout });
+        });
+      }
+
+      case "download": {
+        const timeout = action.timeoutMs ?? this.options.actionTimeoutMs ?? DEFAULT_OPTIONS.actionTimeoutMs;
+        const triggered = Boolean(action.nodeId || action.target);
+        if (triggered) {
+          // Only the download started by this click counts; earlier ones were never claimed.
+          this.downloads.discardPending();
+        }
+        const waiting = new AbortController();
+        const nextDownload = this.downloads.next(timeout, waiting.signal);
+        nextDownload.catch(() => undefined);
+
+        try {
+          const source = triggered
+            ? await this.runTargetAction(action, preSnapshot, async (locator, attemptTimeout) => {
+                await locator.click({ timeout: attemptTimeout });
+              })
+            : {};
+          const download = await nextDownload;
+          const filePath = resolve(
+            this.options.artifactsDir ?? DEFAULT_OPTIONS.artifactsDir,
+            this.sessionId,
+            "downloads",
+            String(++this.downloadCounter).padStart(4, "0"),
+            sanitizeDownloadFileName(action.saveAs ?? download.suggestedFilename())
+          );
+          const downloadSummary = await saveDownload(download, filePath);
+          this.lastDownload = downloadSummary;
+          return { ...source, downloadSummary };
+        } finally {
+          // A failed trigger must not leave its waiter behind to claim the next download.
+          waiting.abort();
+        }
+      }
+
+      case "scroll": {
+        return this.runScrollAction(action);
+      }
+
+      case "scrollIntoView": {
+        let scrolledBox: BoundingBox | undefined;
+        const scrolled = await this.runTargetAction(action, preSnapshot, async (locator, attemptTimeout) => {
+          await locator.scrollIntoViewIfNeeded({ timeout: attemptTimeout });
+          scrolledBox = (await locator.boundingBox()) ?? undefined;
+        });
+        return { ...scrolled, resolvedBoundingBox: scrolledBox ?? scrolled.resolvedBoundingBox };
+      }
+
+      case "handleDialog": {
+        const pending = this.pendingDialogs.shift();
+        if (pending) {
+          await this.respondToDialog(pending, action.response, action.promptText, "handleDialog");
+        } else {
+          // Arm for the next dialog so the action that opens it does not stall.
+          this.armedDialogResponse = action;
+        }
+        return {};
+      }
+
       case "press": {
+        if (action.nodeId || action.target) {
+          return this.runTargetAction(action, preSnapshot, async (locator, attemptTimeout) => {
+            await locator.press(action.key, { timeout: attemptTimeout });
+          });
+        }
         await page.keyboard.press(action.key);
         return {};
       }
 
+      case "type": {
+        // Typing outside the candidate fallback keeps a half-typed attempt from being typed again.
+        const located = await this.runTargetAction(action, preSnapshot, async (locator, attemptTimeout) => {
+          if (action.clearFirst) {
+            await locator.clear({ timeout: attemptTimeout });
+          }
+          await locator.focus({ timeout: attemptTimeout });
+        });
+        await page.keyboard.type(action.text, { delay: action.delayMs ?? 0 });
+        return located;
+      }
+
+      case "keyDown":
+      case "keyUp": {
+        const focused =
+          action.nodeId || action.target
+            ? await this.runTargetAction(action, preSnapshot, async (locator, attemptTimeout) => {
+                await locator.focus({ timeout: attemptTimeout });
+              })
+            : {};
+        if (action.type === "keyDown") {
+          await page.keyboard.down(action.key);
+        } else {
+          await page.keyboard.up(action.key);
+        }
+        return focused;
+      }
+
       case "pause": {
         const elapsedMs = await this.runPauseAction(action);
         return {
@@ -812,6 +1367,20 @@ export class AgentSession {
       }
 
       case "assert": {
+        const condition = action.condition;
+        if (condition.kind === "visual_baseline" && (condition.nodeId || condition.target)) {
+          let located: Awaited<ReturnType<AgentSession["runTargetAction"]>> | undefined;
+          await this.assertVisualBaseline(action, condition, async (candidatePath) => {
+            located = await this.runTargetAction(
+              { nodeId: condition.nodeId, target: condition.target, timeoutMs: action.timeoutMs },
+              preSnapshot,
+              async (locator, attemptTimeout) => {
+                await captureElementScreenshot(page, locator, candidatePath, condition.padding ?? 0, attemptTimeout);
+              }
+            );
+          });
+          return located ?? {};
+        }
         await this.runAssertAction(action);
         return {};
       }
@@ -832,8 +1401,41 @@ export class AgentSession {
       }
 
       case "snapshot": {
-        await this.snapshot();
-        return {};
+        const snapshot = await this.snapshot();
+        if (!action.nodeId && !action.target) {
+          return {};
+        }
+        let scopedSnapshot: DomSnapshot | undefined;
+        const located = await this.runTargetAction(action, snapshot, async (locator) => {
+          scopedSnapshot = await scopeDomSnapshot(snapshot, locator);
+        });
+        return { ...located, scopedSnapshot };
+      }
+
+      case "screenshot": {
+        const filePath = action.path
+          ? resolveScriptPath(action, action.path)
+          : resolve(
+              this.options.artifactsDir ?? DEFAULT_OPTIONS.artifactsDir,
+              this.sessionId,
+              "screenshots",
+              `${String(this.actionCounter).padStart(4, "0")}-screenshot.png`
+            );
+        await mkdir(dirname(filePath), { recursive: true });
+
+        if (!action.nodeId && !action.target) {
+          await page.screenshot({
+            path: filePath,
+            fullPage: action.fullPage ?? (this.options.screenshotMode ?? DEFAULT_OPTIONS.screenshotMode) === "fullpage"
+          });
+          return { screenshotSummary: { path: filePath } };
+        }
+
+        let clip: BoundingBox | undefined;
+        const located = await this.runTargetAction(action, preSnapshot, async (locator, attemptTimeout) => {
+          clip = await captureElementScreenshot(page, locator, filePath, action.padding ?? 0, attemptTimeout);
+        });
+        return { ...located, screenshotSummary: { path: filePath, clip } };
       }
 
       case "setViewport": {
@@ -862,36 +1464,142 @@ export class AgentSession {
         return {};
       }
 
-      default: {
-        const neverAction: never = action;
-        throw new Error(`Unsupported action: ${JSON.stringify(neverAction)}`);
+      case "newTab": {
+        const tab = await this.requireContext().newPage();
+        await this.adoptTab(tab);
+        if (action.url) {
+          await tab.goto(action.url, {
+            waitUntil: action.waitUntil ?? "domcontentloaded",
+            timeout: action.timeoutMs ?? this.options.actionTimeoutMs ?? DEFAULT_OPTIONS.actionTimeoutMs
+          });
+        }
+        return {};
       }
-    }
-  }
 
-  private async resolveLocator(
-    nodeId: string | undefined,
-    target: NodeTarget | undefined,
-    snapshot: DomSnapshot
-  ): Promise<ResolvedLocator> {
-    const page = this.requirePage();
+      case "switchTab": {
+        const tab = this.activateTab(action.tabId);
+        await tab.bringToFront();
+        return {};
+      }
 
-    if (nodeId) {
-      const node = snapshot.nodes.find((candidate) => candidate.id === nodeId);
-      if (!node) {
-        throw new Error(`Node '${nodeId}' was not found in snapshot`);
+      case "closeTab": {
+        const tabId = action.tabId ?? this.activeTabId;
+        const tab = this.tabs.get(tabId);
+        if (!tab) {
+          throw new Error(`Tab '${tabId}' is not open`);
+        }
+        if (this.tabs.size <= 1) {
+          throw new Error("Cannot close the only open tab; use close() to end the session");
+        }
+        await tab.close();
+        this.forgetTab(tabId, tab);
+        return {};
       }
 
-      return {
-        targetLabel: `nodeId:${nodeId}`,
-        candidates: this.locatorCandidatesForNode(page, node),
-        node
-      };
-    }
+      case "capture": {
+        if (action.from === "url" || action.from === "title") {
+          const raw = action.from === "url" ? page.url() : await page.title();
+          const value = applyCapturePattern(action, raw);
+          this.variables.set(action.name, value);
+          return { capturedValue: value };
+        }
 
-    if (!target) {
-      throw new Error("Target is required when nodeId is not provided");
-    }
+        const resolved = await this.resolveLocator(action.nodeId, action.target, preSnapshot);
+        const timeout = action.timeoutMs ?? this.options.actionTimeoutMs ?? DEFAULT_OPTIONS.actionTimeoutMs;
+        let raw = "";
+        const execution = await this.runLocatorAction(
+          resolved,
+          timeout,
+          async (locator, attemptTimeout) => {
+            raw = await readCaptureSource(locator, action, attemptTimeout);
+          }
+        );
+        const value = applyCapturePattern(action, raw);
+        this.variables.set(action.name, value);
+        return {
+          resolvedNodeId: resolved.node?.id,
+          resolvedBoundingBox: execution.resolvedBoundingBox,
+          capturedValue: value,
+          selectorDiagnostics: toSelectorDiagnostics(resolved, execution)
+        };
+      }
+
+      case "evaluate": {
+        if (!(this.options.allowEvaluate ?? DEFAULT_OPTIONS.allowEvaluate)) {
+          throw new Error("evaluate actions are disabled for this session (allowEvaluate: false)");
+        }
+        const timeout = action.timeoutMs ?? this.options.actionTimeoutMs ?? DEFAULT_OPTIONS.actionTimeoutMs;
+        const maxBytes =
+          action.maxResultBytes ?? this.options.evaluateMaxResultBytes ?? DEFAULT_OPTIONS.evaluateMaxResultBytes;
+
+        // Only locating falls back across candidates; the expression may have side effects, so it runs once.
+        let element = null as ElementHandle | null;
+        const located =
+          action.nodeId || action.target
+            ? await this.runTargetAction(action, preSnapshot, async (locator, attemptTimeout) => {
+                element = await locator.elementHandle({ timeout: attemptTimeout });
+              })
+            : {};
+        let evaluateSummary: NonNullable<ActionResult["evaluateSummary"]>;
+        try {
+          // A function expression receives the element; Playwright calls it for us.
+          const pending = element ? element.evaluateHandle(action.expression) : page.evaluateHandle(action.expression);
+          evaluateSummary = await settleEvaluateHandle(pending, timeout, maxBytes);
+        } finally {
+          await element?.dispose().catch(() => undefined);
+        }
+
+        if (action.saveAs) {
+          const value = evaluateSummary.value;
+          this.variables.set(action.saveAs, typeof value === "string" ? value : JSON.stringify(value));
+        }
+        return { ...located, evaluateSummary };
+      }
+
+      case "extract": {
+        return { extractSummary: await this.runExtractAction(action) };
+      }
+
+      case "if":
+      case "repeat":
+      case "forEach": {
+        throw new Error(`Block action '${action.type}' must run through perform()`);
+      }
+
+      case "include": {
+        throw new Error(`Include '${action.path}' must be expanded when the script is loaded (see loadActionScript)`);
+      }
+
+      default: {
+        const neverAction: never = action;
+        throw new Error(`Unsupported action: ${JSON.stringify(neverAction)}`);
+      }
+    }
+  }
+
+  private async resolveLocator(
+    nodeId: string | undefined,
+    target: NodeTarget | undefined,
+    snapshot: DomSnapshot
+  ): Promise<ResolvedLocator> {
+    const page = this.requirePage();
+
+    if (nodeId) {
+      const node = snapshot.nodes.find((candidate) => candidate.id === nodeId);
+      if (!node) {
+        throw new Error(`Node '${nodeId}' was not found in snapshot`);
+      }
+
+      return {
+        targetLabel: `nodeId:${nodeId}`,
+        candidates: this.locatorCandidatesForNode(page, node),
+        node
+      };
+    }
+
+    if (!target) {
+      throw new Error("Target is required when nodeId is not provided");
+    }
 
     if (target.kind === "node") {
       return this.resolveLocator(target.nodeId, undefined, snapshot);
@@ -918,36 +1626,36 @@ export class AgentSession {
     }
 
     if (target.kind === "roleName") {
-      const roleMatches = snapshot.nodes.filter(
-        (node) =>
-          node.role === target.role &&
-          normalizeComparableText(node.name) === normalizeComparableText(target.name)
-      );
-
-      const rankedMatches = rankStableRefMatches(roleMatches);
+      const roleMatches = rankRoleNameMatches(snapshot.nodes, target);
+      // Score is only reported when the target opts into fuzzy or synonym matching.
+      const reportsScore = target.match === "fuzzy" || (target.synonyms?.length ?? 0) > 0;
       const roleCandidates: LocatorCandidate[] = [];
-      for (const match of rankedMatches) {
-        roleCandidates.push(...this.locatorCandidatesForNode(page, match));
+      for (const match of roleMatches) {
+        for (const candidate of this.locatorCandidatesForNode(page, match.node)) {
+          roleCandidates.push(reportsScore ? { ...candidate, nameMatch: match.nameMatch } : candidate);
+        }
       }
 
-      roleCandidates.push({
-        label: `getByRole(${target.role}, ${target.name}, exact=true)`,
-        locator: page
-          .getByRole(target.role as Parameters<Page["getByRole"]>[0], {
-            name: target.name,
-            exact: true
-          })
-          .first()
-      });
+      for (const name of [target.name, ...(target.synonyms ?? [])]) {
+        roleCandidates.push({
+          label: `getByRole(${target.role}, ${name}, exact=true)`,
+          locator: page
+            .getByRole(target.role as Parameters<Page["getByRole"]>[0], {
+              name,
+              exact: true
+            })
+            .first()
+        });
 
-      roleCandidates.push({
-        label: `getByRole(${target.role}, ${target.name}, exact=false)`,
-        locator: page
-          .getByRole(target.role as Parameters<Page["getByRole"]>[0], {
-            name: target.name
-          })
-          .first()
-      });
+        roleCandidates.push({
+          label: `getByRole(${target.role}, ${name}, exact=false)`,
+          locator: page
+            .getByRole(target.role as Parameters<Page["getByRole"]>[0], {
+              name
+            })
+            .first()
+        });
+      }
 
       return {
         targetLabel: `roleName:${target.role}:${target.name}`,
@@ -955,56 +1663,306 @@ export class AgentSession {
       };
     }
 
+    if (
+      target.kind === "text" ||
+      target.kind === "label" ||
+      target.kind === "placeholder" ||
+      target.kind === "testId"
+    ) {
+      const matches = rankTextMatches(
+        target.kind === "label"
+          ? await this.labelledNodes(target, snapshot)
+          : snapshot.nodes.filter((node) => nodeMatchesTextTarget(node, target))
+      );
+      const candidates: LocatorCandidate[] = [];
+      for (const match of matches) {
+        candidates.push(...this.locatorCandidatesForNode(page, match));
+      }
+      candidates.push(textTargetCandidate(page, target));
+
+      return {
+        targetLabel: textTargetLabel(target),
+        candidates: dedupeLocatorCandidates(candidates)
+      };
+    }
+
+    if (target.kind === "xpath") {
+      const xpathLabel = `${frameLabelPrefix(target.framePath)}xpath:${target.expression}`;
+      const locator = frameScope(page, target.framePath).locator(`xpath=${target.expression}`);
+      const candidates: LocatorCandidate[] = [];
+      // Frame nodes are keyed by their host's path, so only main-frame matches map back to the snapshot.
+      if (!target.framePath || target.framePath.length === 0) {
+        const runtimeIds = new Set(await locator.evaluateAll(readRuntimeNodeIds).catch(() => [] as string[]));
+        const matches = snapshot.nodes.filter((node) => !node.framePath && runtimeIds.has(node.id));
+        for (const match of rankStableRefMatches(matches)) {
+          candidates.push(...this.locatorCandidatesForNode(page, match));
+        }
+      }
+      candidates.push({ label: xpathLabel, locator: locator.first() });
+
+      return {
+        targetLabel: xpathLabel,
+        candidates: dedupeLocatorCandidates(candidates)
+      };
+    }
+
+    if (target.kind === "within" || target.kind === "nth" || target.kind === "near") {
+      const { node, selection } = await this.selectComposedTarget(target, snapshot);
+      return {
+        targetLabel: nodeTargetLabel(target),
+        candidates: await this.candidatesPinnedToNode(page, node),
+        node,
+        selection
+      };
+    }
+
+    const cssLabel = `${frameLabelPrefix(target.framePath)}css:${target.selector}`;
     return {
-      targetLabel: `css:${target.selector}`,
+      targetLabel: cssLabel,
       candidates: [
         {
-          label: `css:${target.selector}`,
-          locator: page.locator(target.selector).first()
+          label: cssLabel,
+          locator: frameScope(page, target.framePath).locator(target.selector).first()
         }
       ]
     };
   }
 
+  private async selectComposedTarget(
+    target: ComposedTarget,
+    snapshot: DomSnapshot
+  ): Promise<{ node: AgentNode; selection: TargetSelection }> {
+    const label = nodeTargetLabel(target);
+
+    if (target.kind === "nth") {
+      // Indexes count visible matches in document order; negative indexes count from the end.
+      const matches = (await this.matchTargetNodes(target.target, snapshot)).filter((node) => node.visible);
+      const index = target.index < 0 ? matches.length + target.index : target.index;
+      const node = matches[index];
+      if (!node) {
+        throw new Error(`No match at index ${target.index} for ${label}; ${matches.length} visible match(es)`);
+      }
+      return { node, selection: { kind: "nth", matchCount: matches.length, selectedIndex: index } };
+    }
+
+    if (target.kind === "near") {
+      const ranked = await this.rankNearMatches(target, snapshot);
+      const nearest = ranked[0];
+      if (!nearest) {
+        throw new Error(`No match for ${label}`);
+      }
+      return {
+        node: nearest.node,
+        selection: { kind: "near", matchCount: ranked.length, selectedIndex: 0, distance: Math.round(nearest.distance) }
+      };
+    }
+
+    const matches = await this.matchTargetNodes(target, snapshot);
+    const node = rankStableRefMatches(matches)[0];
+    if (!node) {
+      throw new Error(`No match for ${label}`);
+    }
+    return { node, selection: { kind: "within", matchCount: matches.length, selectedIndex: matches.indexOf(node) } };
+  }
+
+  // Matches come back in document order, except `near`, which orders them by distance to the anchor.
+  private async matchTargetNodes(target: NodeTarget, snapshot: DomSnapshot): Promise<AgentNode[]> {
+    const page = this.requirePage();
+
+    switch (target.kind) {
+      case "node":
+        return snapshot.nodes.filter((node) => node.id === target.nodeId);
+      case "stableRef":
+        return snapshot.nodes.filter((node) => node.stableRef === target.value);
+      case "roleName":
+        return snapshot.nodes.filter(
+          (node) => node.role === target.role && matchRoleName(node.name, target) !== undefined
+        );
+      case "text":
+        return this.innermostMatches(snapshot.nodes.filter((node) => nodeMatchesTextTarget(node, target)));
+      case "label":
+        return this.labelledNodes(target, snapshot);
+      case "placeholder":
+      case "testId":
+        return snapshot.nodes.filter((node) => nodeMatchesTextTarget(node, target));
+      case "css":
+      case "xpath": {
+        const selector = target.kind === "css" ? target.selector : `xpath=${target.expression}`;
+        const runtimeIds = new Set(
+          await frameScope(page, target.framePath)
+            .locator(selector)
+            .evaluateAll(readRuntimeNodeIds)
+            .catch(() => [] as string[])
+        );
+        return snapshot.nodes.filter((node) => nodeHasRuntimeId(node, runtimeIds, target.framePath));
+      }
+      case "within": {
+        const scopes = await this.matchTargetNodes(target.scope, snapshot);
+        const inner = await this.matchTargetNodes(target.target, snapshot);
+        const contained = await this.containedNodeIds(scopes, inner);
+        return inner.filter((node) => contained.has(node.id));
+      }
+      case "nth":
+        return [(await this.selectComposedTarget(target, snapshot)).node];
+      case "near":
+        return (await this.rankNearMatches(target, snapshot)).map((entry) => entry.node);
+    }
+  }
+
+  private async rankNearMatches(
+    target: Extract<NodeTarget, { kind: "near" }>,
+    snapshot: DomSnapshot
+  ): Promise<Array<{ node: AgentNode; distance: number }>> {
+    const anchor = rankStableRefMatches(await this.matchTargetNodes(target.anchor, snapshot))[0];
+    if (!anchor) {
+      throw new Error(`No anchor found for ${nodeTargetLabel(target.anchor)}`);
+    }
+
+    return (await this.matchTargetNodes(target.target, snapshot))
+      .filter((node) => node.visible && node.id !== anchor.id)
+      .map((node) => ({
+        node,
+        distance: boxDistance(anchor.boundingBox, node.boundingBox),
+        centerDistance: centerDistance(anchor.boundingBox, node.boundingBox)
+      }))
+      .filter((entry) => target.maxDistance === undefined || entry.distance <= target.maxDistance)
+      .sort((left, right) => left.distance - right.distance || left.centerDistance - right.centerDistance)
+      .map(({ node, distance }) => ({ node, distance }));
+  }
+
+  // Like getByLabel: form controls named by an associated <label> or aria-labelledby, not any accessible name.
+  private async labelledNodes(
+    target: Extract<NodeTarget, { kind: "label" }>,
+    snapshot: DomSnapshot
+  ): Promise<AgentNode[]> {
+    const controls = await this.requirePage()
+      .evaluate(readLabelledControls)
+      .catch(() => [] as Array<{ id: string; labels: string[] }>);
+    const match = target.exact ? "exact" : "substring";
+    const runtimeIds = new Set(
+      controls
+        .filter((control) => control.labels.some((label) => matchesTargetText(label, target.text, match)))
+        .map((control) => control.id)
+    );
+    return snapshot.nodes.filter((node) => nodeHasRuntimeId(node, runtimeIds, undefined));
+  }
+
+  // Wrappers repeat the text of what they contain, so only matches without a nested match are kept.
+  private async innermostMatches(matches: AgentNode[]): Promise<AgentNode[]> {
+    const ancestors = new Set<string>();
+    const mainMatches = matches.filter((node) => !node.framePath);
+    if (mainMatches.length > 1) {
+      const ids = await this.requirePage().evaluate(filterAncestorRuntimeIds, mainMatches.map((node) => node.id));
+      for (const id of ids) {
+        ancestors.add(id);
+      }
+    }
+
+    for (const node of matches.filter((candidate) => candidate.framePath)) {
+      const framePath = JSON.stringify(node.framePath);
+      if (
+        matches.some(
+          (other) =>
+            other.id !== node.id &&
+            JSON.stringify(other.framePath) === framePath &&
+            boxContains(node.boundingBox, other.boundingBox) &&
+            (other.text.length < node.text.length || !boxContains(other.boundingBox, node.boundingBox))
+        )
+      ) {
+        ancestors.add(node.id);
+      }
+    }
+    return matches.filter((node) => !ancestors.has(node.id));
+  }
+
+  private async containedNodeIds(scopes: AgentNode[], inner: AgentNode[]): Promise<Set<string>> {
+    const contained = new Set<string>();
+    const mainScopes = scopes.filter((node) => !node.framePath);
+    const mainInner = inner.filter((node) => !node.framePath);
+    if (mainScopes.length > 0 && mainInner.length > 0) {
+      const ids = await this.requirePage().evaluate(filterContainedRuntimeIds, {
+        scopeIds: mainScopes.map((node) => node.id),
+        innerIds: mainInner.map((node) => node.id)
+      });
+      for (const id of ids) {
+        contained.add(id);
+      }
+    }
+
+    // Frame documents are not reachable from the main page, so frame nodes fall back to box containment.
+    for (const node of inner.filter((candidate) => candidate.framePath)) {
+      const framePath = JSON.stringify(node.framePath);
+      if (
+        scopes.some(
+          (scope) =>
+            scope.id !== node.id &&
+            JSON.stringify(scope.framePath) === framePath &&
+            boxContains(scope.boundingBox, node.boundingBox)
+        )
+      ) {
+        contained.add(node.id);
+      }
+    }
+    return contained;
+  }
+
+  private async candidatesPinnedToNode(page: Page, node: AgentNode): Promise<LocatorCandidate[]> {
+    const candidates = this.locatorCandidatesForNode(page, node);
+    const pinned: LocatorCandidate[] = [];
+    // Duplicates share role/name candidates, so keep only those that land on the selected element.
+    for (const candidate of candidates) {
+      const runtimeId = await candidate.locator
+        .evaluate(readRuntimeNodeId, undefined, { timeout: 1_000 })
+        .catch(() => "");
+      if (runtimeId && (node.id === runtimeId || node.id.endsWith(`:${runtimeId}`))) {
+        pinned.push(candidate);
+      }
+    }
+    // The structural path candidate is always last and is the most specific fallback.
+    return pinned.length > 0 ? pinned : candidates.slice(-1);
+  }
+
   private locatorCandidatesForNode(page: Page, node: AgentNode): LocatorCandidate[] {
     const candidates: LocatorCandidate[] = [];
+    const scope = frameScope(page, node.framePath);
+    const labelPrefix = frameLabelPrefix(node.framePath);
 
     const testId = node.attributes["data-testid"];
     if (testId) {
       candidates.push({
-        label: `testId:${testId}`,
-        locator: page.getByTestId(testId).first()
+        label: `${labelPrefix}testId:${testId}`,
+        locator: scope.getByTestId(testId).first()
       });
     }
 
     const id = node.attributes.id;
     if (id) {
       candidates.push({
-        label: `id:${id}`,
-        locator: page.locator(`#${escapeForCss(id)}`).first()
+        label: `${labelPrefix}id:${id}`,
+        locator: scope.locator(`#${escapeForCss(id)}`).first()
       });
     }
 
     const href = node.attributes.href;
     if (href) {
       candidates.push({
-        label: `href:${href}`,
-        locator: page.locator(`a[href="${escapeAttributeValue(href)}"]`).first()
+        label: `${labelPrefix}href:${href}`,
+        locator: scope.locator(`a[href="${escapeAttributeValue(href)}"]`).first()
       });
     }
 
     const nameAttribute = node.attributes.name;
     if (nameAttribute) {
       candidates.push({
-        label: `${node.tag}[name=${nameAttribute}]`,
-        locator: page.locator(`${node.tag}[name="${escapeAttributeValue(nameAttribute)}"]`).first()
+        label: `${labelPrefix}${node.tag}[name=${nameAttribute}]`,
+        locator: scope.locator(`${node.tag}[name="${escapeAttributeValue(nameAttribute)}"]`).first()
       });
     }
 
     if (node.role !== "generic" && node.name) {
       candidates.push({
-        label: `role:${node.role} name:${node.name}`,
-        locator: page
+        label: `${labelPrefix}role:${node.role} name:${node.name}`,
+        locator: scope
           .getByRole(node.role as Parameters<Page["getByRole"]>[0], {
             name: node.name
           })
@@ -1013,13 +1971,28 @@ export class AgentSession {
     }
 
     candidates.push({
-      label: `path:${node.path}`,
-      locator: page.locator(node.path).first()
+      label: `${labelPrefix}path:${node.path}`,
+      locator: scope.locator(node.path).first()
     });
 
     return dedupeLocatorCandidates(candidates);
   }
 
+  private async runTargetAction(
+    action: { nodeId?: string; target?: NodeTarget; timeoutMs?: number },
+    preSnapshot: DomSnapshot,
+    run: (locator: Locator, timeoutMs: number) => Promise<void>
+  ): Promise<{ resolvedNodeId?: string; resolvedBoundingBox?: BoundingBox; selectorDiagnostics: SelectorDiagnostics }> {
+    const resolved = await this.resolveLocator(action.nodeId, action.target, preSnapshot);
+    const timeout = action.timeoutMs ?? this.options.actionTimeoutMs ?? DEFAULT_OPTIONS.actionTimeoutMs;
+    const execution = await this.runLocatorAction(resolved, timeout, run);
+    return {
+      resolvedNodeId: resolved.node?.id,
+      resolvedBoundingBox: execution.resolvedBoundingBox,
+      selectorDiagnostics: toSelectorDiagnostics(resolved, execution)
+    };
+  }
+
   private async runLocatorAction(
     resolved: ResolvedLocator,
     timeoutMs: number,
@@ -1068,6 +2041,222 @@ export class AgentSession {
     );
   }
 
+  private async runScrollAction(action: Extract<Action, { type: "scroll" }>): Promise<{
+    resolvedNodeId?: string;
+    resolvedBoundingBox?: BoundingBox;
+    selectorDiagnostics?: SelectorDiagnostics;
+    scrollSummary: NonNullable<ActionResult["scrollSummary"]>;
+  }> {
+    const page = this.requirePage();
+
+    if (!action.until) {
+      const step = { deltaX: action.deltaX ?? 0, deltaY: action.deltaY ?? 0, to: action.to ?? null };
+      await page.evaluate(scrollWindow, step);
+      const position = await page.evaluate(readScrollPosition);
+      return { scrollSummary: toScrollSummary(1, position, step) };
+    }
+
+    const target = action.until;
+    const timeout = action.timeoutMs ?? this.options.actionTimeoutMs ?? DEFAULT_OPTIONS.actionTimeoutMs;
+    const deadline = Date.now() + timeout;
+    const maxScrolls = action.maxScrolls ?? DEFAULT_MAX_SCROLLS;
+    const viewportHeight = page.viewportSize()?.height ?? DEFAULT_OPTIONS.viewportHeight;
+    const step = {
+      deltaX: action.deltaX ?? 0,
+      deltaY: action.deltaY ?? Math.floor(viewportHeight * 0.8),
+      to: null
+    };
+
+    let scrollCount = 0;
+    let targetLabel = "target";
+    for (;;) {
+      const snapshot = await takeDomSnapshot(page);
+      const resolved = await this.resolveLocator(undefined, target, snapshot).catch(() => null);
+      if (resolved) {
+        targetLabel = resolved.targetLabel;
+        for (const [index, candidate] of resolved.candidates.entries()) {
+          // boundingBox() waits for the element, so skip candidates that are not rendered yet.
+          if ((await candidate.locator.count().catch(() => 0)) === 0) {
+            continue;
+          }
+          const box = await candidate.locator.boundingBox({ timeout: 1_000 }).catch(() => null);
+          if (box && box.width > 0 && box.height > 0 && box.y < viewportHeight && box.y + box.height > 0) {
+            const position = await page.evaluate(readScrollPosition);
+            return {
+              resolvedNodeId: resolved.node?.id,
+              resolvedBoundingBox: { x: box.x, y: box.y, width: box.width, height: box.height },
+              selectorDiagnostics: {
+                targetLabel: resolved.targetLabel,
+                candidateCount: resolved.candidates.length,
+                selectedCandidateIndex: index,
+                selectedCandidateLabel: candidate.label,
+                attemptedCandidateCount: index + 1
+              },
+              scrollSummary: toScrollSummary(scrollCount, position, step)
+            };
+          }
+        }
+      }
+
+      const position = await page.evaluate(readScrollPosition);
+      if (toScrollSummary(scrollCount, position, step).atEnd) {
+        throw new Error(`Reached the end of the page after ${scrollCount} scroll(s) without ${targetLabel} becoming visible`);
+      }
+      if (scrollCount >= maxScrolls || Date.now() >= deadline) {
+        throw new Error(`Timeout: ${targetLabel} was not visible after ${scrollCount} scroll(s)`);
+      }
+
+      await page.evaluate(scrollWindow, step);
+      scrollCount += 1;
+      // Let lazy-loaded content settle before the next snapshot.
+      await this.waitForStability(action, Math.max(0, deadline - Date.now()));
+    }
+  }
+
+  private async runExtractAction(action: Extract<Action, { type: "extract" }>): Promise<ExtractSummary> {
+    const page = this.requirePage();
+    const timeout = action.timeoutMs ?? this.options.actionTimeoutMs ?? DEFAULT_OPTIONS.actionTimeoutMs;
+    const maxPages = action.next ? action.maxPages ?? DEFAULT_EXTRACT_MAX_PAGES : 1;
+    const lists = compileExtractSchema(action.schema);
+    const data: ExtractSummary["data"] = Object.fromEntries(Object.keys(lists).map((name) => [name, []]));
+
+    let pages = 0;
+    for (;;) {
+      // The snapshot registers runtime ids, so extracted rows can be mapped back to stableRefs.
+      const snapshot = await takeDomSnapshot(page);
+      const raw = await extractPage(page, lists);
+      pages += 1;
+      for (const [name, rows] of Object.entries(toExtractedRows(raw, lists, snapshot, pages))) {
+        data[name]?.push(...rows);
+      }
+
+      if (!action.next || pages >= maxPages) {
+        break;
+      }
+      if (!(await this.advanceExtractPage(action, action.next, snapshot, lists, raw, timeout))) {
+        break;
+      }
+    }
+
+    const filePath = resolve(
+      action.path ??
+        join(
+          this.options.artifactsDir ?? DEFAULT_OPTIONS.artifactsDir,
+          this.sessionId,
+          "extracts",
+          `${String(this.actionCounter).padStart(4, "0")}-extract.json`
+        )
+    );
+    const redacted = this.variables.redact(data);
+    await writeExtractFile(filePath, { url: page.url(), pages, data: redacted });
+
+    return {
+      path: filePath,
+      pages,
+      rowCount: Object.values(data).reduce((total, rows) => total + rows.length, 0),
+      data: redacted
+    };
+  }
+
+  private async advanceExtractPage(
+    action: Extract<Action, { type: "extract" }>,
+    next: NodeTarget,
+    snapshot: DomSnapshot,
+    lists: Record<string, CompiledExtractList>,
+    current: RawExtractedPage,
+    timeout: number
+  ): Promise<boolean> {
+    const page = this.requirePage();
+    const resolved = await this.resolveLocator(undefined, next, snapshot).catch(() => null);
+    if (!resolved) {
+      return false;
+    }
+
+    let button: Locator | undefined;
+    for (const candidate of resolved.candidates) {
+      if ((await candidate.locator.count().catch(() => 0)) > 0) {
+        button = candidate.locator;
+        break;
+      }
+    }
+    // A missing, hidden or disabled next control is how the last page announces itself.
+    if (!button || !(await button.isVisible()) || !(await button.isEnabled())) {
+      return false;
+    }
+
+    await button.click({ timeout });
+    const before = extractSignature(current);
+    const deadline = Date.now() + timeout;
+    while (Date.now() < deadline) {
+      await page.waitForTimeout(100);
+      // Link pagination loads a new document, which destroys the context a read in flight runs in.
+      await page
+        .waitForLoadState("domcontentloaded", { timeout: Math.max(1, deadline - Date.now()) })
+        .catch(() => undefined);
+      const raw = await extractPage(page, lists).catch((error: unknown) => {
+        if (isNavigationRaceError(error)) {
+          return undefined;
+        }
+        throw error;
+      });
+      if (raw && extractSignature(raw) !== before) {
+        await this.waitForStability(action, Math.max(0, deadline - Date.now()));
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private async assertVisualBaseline(
+    action: Action,
+    condition: Extract<AssertCondition, { kind: "visual_baseline" }>,
+    capture: (candidatePath: string) => Promise<void>
+  ): Promise<void> {
+    const baselinePath = resolveScriptPath(action, condition.baselinePath);
+    const assertDir = resolve(
+      this.options.artifactsDir ?? DEFAULT_OPTIONS.artifactsDir,
+      this.sessionId,
+      "assertions"
+    );
+    await mkdir(assertDir, { recursive: true });
+
+    const stamp = `${Date.now()}-${randomUUID().slice(0, 8)}`;
+    const candidatePath = join(assertDir, `visual-candidate-${stamp}.png`);
+    const diffPath =
+      typeof condition.diffPath === "string" && condition.diffPath.length > 0
+        ? resolveScriptPath(action, condition.diffPath)
+        : join(
+            assertDir,
+            `${basename(baselinePath, extname(baselinePath) || ".png")}-vs-${basename(candidatePath, ".png")}.diff.png`
+          );
+
+    await capture(candidatePath);
+
+    const compared = await comparePngFiles(baselinePath, candidatePath, {
+      threshold: condition.threshold ?? 0.1,
+      diffPath
+    });
+
+    if (compared.status === "size_mismatch") {
+      throw new Error(
+        `Visual baseline assert failed: image size mismatch baseline='${baselinePath}' candidate='${candidatePath}'`
+      );
+    }
+
+    const maxMismatchRatio = condition.maxMismatchRatio ?? 0.01;
+    if (compared.mismatchRatio > maxMismatchRatio) {
+      throw new Error(
+        [
+          "Visual baseline assert failed:",
+          `mismatchRatio=${compared.mismatchRatio.toFixed(6)} max=${maxMismatchRatio.toFixed(6)}`,
+          `baseline='${baselinePath}'`,
+          `candidate='${candidatePath}'`,
+          `diff='${diffPath}'`
+        ].join(" ")
+      );
+    }
+  }
+
   private async runAssertAction(action: Extract<Action, { type: "assert" }>): Promise<void> {
     const page = this.requirePage();
     const timeout = action.timeoutMs ?? this.options.actionTimeoutMs ?? DEFAULT_OPTIONS.actionTimeoutMs;
@@ -1147,57 +2336,18 @@ export class AgentSession {
       return;
     }
 
-    if (action.condition.kind === "visual_baseline") {
-      const condition = action.condition;
-      const baselinePath = resolve(condition.baselinePath);
-      const page = this.requirePage();
-
-      const assertDir = resolve(
-        this.options.artifactsDir ?? DEFAULT_OPTIONS.artifactsDir,
-        this.sessionId,
-        "assertions"
-      );
-      await mkdir(assertDir, { recursive: true });
-
-      const stamp = `${Date.now()}-${randomUUID().slice(0, 8)}`;
-      const candidatePath = join(assertDir, `visual-candidate-${stamp}.png`);
-      const diffPath =
-        typeof condition.diffPath === "string" && condition.diffPath.length > 0
-          ? resolve(condition.diffPath)
-          : join(
-              assertDir,
-              `${basename(baselinePath, extname(baselinePath) || ".png")}-vs-${basename(candidatePath, ".png")}.diff.png`
-            );
-
-      await page.screenshot({
-        path: candidatePath,
-        fullPage: (this.options.screenshotMode ?? DEFAULT_OPTIONS.screenshotMode) === "fullpage"
-      });
+    if (action.condition.kind === "download") {
+      await assertDownload(this.lastDownload, action.condition);
+      return;
+    }
 
-      const compared = await comparePngFiles(baselinePath, candidatePath, {
-        threshold: condition.threshold ?? 0.1,
-        diffPath
+    if (action.condition.kind === "visual_baseline") {
+      await this.assertVisualBaseline(action, action.condition, async (candidatePath) => {
+        await page.screenshot({
+          path: candidatePath,
+          fullPage: (this.options.screenshotMode ?? DEFAULT_OPTIONS.screenshotMode) === "fullpage"
+        });
       });
-
-      if (compared.status === "size_mismatch") {
-        throw new Error(
-          `Visual baseline assert failed: image size mismatch baseline='${baselinePath}' candidate='${candidatePath}'`
-        );
-      }
-
-      const maxMismatchRatio = condition.maxMismatchRatio ?? 0.01;
-      if (compared.mismatchRatio > maxMismatchRatio) {
-        throw new Error(
-          [
-            "Visual baseline assert failed:",
-            `mismatchRatio=${compared.mismatchRatio.toFixed(6)} max=${maxMismatchRatio.toFixed(6)}`,
-            `baseline='${baselinePath}'`,
-            `candidate='${candidatePath}'`,
-            `diff='${diffPath}'`
-          ].join(" ")
-        );
-      }
-
       return;
     }
 
@@ -1487,81 +2637,222 @@ export class AgentSession {
       return;
     }
 
-    await page.waitForLoadState("networkidle", { timeout });
+    await page.waitForLoadState("networkidle", { timeout });
+  }
+
+  private async waitForStability(action: Action, timeoutMs?: number): Promise<void> {
+    const page = this.requirePage();
+    const actionTimeout = timeoutMs ?? this.options.actionTimeoutMs ?? DEFAULT_OPTIONS.actionTimeoutMs;
+    const profile = this.options.stabilityProfile ?? DEFAULT_OPTIONS.stabilityProfile;
+    const baseQuietWindowMs = this.options.stableWaitMs ?? DEFAULT_OPTIONS.stableWaitMs;
+    const quietWindowMs = computeQuietWindowMs(profile, baseQuietWindowMs);
+    const networkIdleBudgetMs = computeNetworkIdleBudgetMs(profile, actionTimeout, quietWindowMs, action.type);
+
+    await page.waitForTimeout(quietWindowMs);
+    await page.waitForLoadState("networkidle", { timeout: networkIdleBudgetMs }).catch(() => undefined);
+  }
+
+  private async captureScreenshot(actionId: string): Promise<string | undefined> {
+    if (!(this.options.captureScreenshots ?? DEFAULT_OPTIONS.captureScreenshots)) {
+      return undefined;
+    }
+
+    const page = this.requirePage();
+    const filePath = resolve(
+      this.options.artifactsDir ?? DEFAULT_OPTIONS.artifactsDir,
+      this.sessionId,
+      `${String(this.actionCounter).padStart(4, "0")}-${actionId}.png`
+    );
+
+    await mkdir(dirname(filePath), { recursive: true });
+    await page.screenshot({
+      path: filePath,
+      fullPage: (this.options.screenshotMode ?? DEFAULT_OPTIONS.screenshotMode) === "fullpage"
+    });
+    return filePath;
+  }
+
+  private async initializeContext(storageStatePath?: string): Promise<void> {
+    const browser = this.requireBrowser();
+
+    this.context = await browser.newContext({
+      viewport: {
+        width: this.options.viewportWidth ?? DEFAULT_OPTIONS.viewportWidth,
+        height: this.options.viewportHeight ?? DEFAULT_OPTIONS.viewportHeight
+      },
+      storageState: storageStatePath
+    });
+
+    this.tabs.clear();
+    this.tabSequence = 0;
+    this.context.on("page", (page) => {
+      void this.adoptTab(page).catch(() => undefined);
+    });
+
+    const page = await this.context.newPage();
+    await this.adoptTab(page);
+
+    this.observer = new BrowserObserver(
+      this.context,
+      page,
+      this.redactionPatterns(),
+      this.options.logNoiseFiltering ?? true,
+      (input) => this.variables.redactString(input)
+    );
+    this.observer.start();
+    for (const tab of this.tabs.values()) {
+      this.observer.attachPage(tab);
+    }
+
+    this.networkRecorder?.attach(this.context);
+    if (this.recorder) {
+      await this.recorder.attachContext(this.context);
+    }
+    this.mockRoutingReady = false;
+    if (this.mockRules.length > 0 || this.networkPlayer) {
+      await this.ensureMockRouting();
+    }
+
+    this.lastSnapshot = await takeDomSnapshot(this.requirePage());
+    this.lastKnownStorageSnapshot = await this.captureStorageSnapshot();
+  }
+
+  private async adoptTab(page: Page): Promise<string> {
+    let tabId = [...this.tabs.entries()].find(([, known]) => known === page)?.[0];
+    if (!tabId) {
+      tabId = `tab_${++this.tabSequence}`;
+      this.tabs.set(tabId, page);
+      const closedTabId = tabId;
+      page.on("close", () => {
+        this.forgetTab(closedTabId, page);
+      });
+      this.observer?.attachPage(page);
+      this.recorder?.attachPage(page);
+      this.downloads.attachPage(page);
+      page.on("dialog", (dialog) => {
+        void this.onDialog(dialog).catch(() => undefined);
+      });
+      this.activateTab(tabId);
+    }
+
+    await this.preparePage(page);
+    return tabId;
+  }
+
+  private async onDialog(dialog: Dialog): Promise<void> {
+    const armed = this.armedDialogResponse;
+    if (armed) {
+      this.armedDialogResponse = null;
+      await this.respondToDialog(dialog, armed.response, armed.promptText, "handleDialog");
+      return;
+    }
+
+    const policy = this.options.dialogPolicy ?? DEFAULT_OPTIONS.dialogPolicy;
+    if (policy === "manual") {
+      this.pendingDialogs.push(dialog);
+      this.observer?.recordDialog({ ...describeDialog(dialog), outcome: "pending" });
+      for (const listener of this.dialogListeners) {
+        listener();
+      }
+      return;
+    }
+
+    await this.respondToDialog(dialog, policy, this.options.dialogPromptText, "policy");
   }
 
-  private async waitForStability(action: Action, timeoutMs?: number): Promise<void> {
-    const page = this.requirePage();
-    const actionTimeout = timeoutMs ?? this.options.actionTimeoutMs ?? DEFAULT_OPTIONS.actionTimeoutMs;
-    const profile = this.options.stabilityProfile ?? DEFAULT_OPTIONS.stabilityProfile;
-    const baseQuietWindowMs = this.options.stableWaitMs ?? DEFAULT_OPTIONS.stableWaitMs;
-    const quietWindowMs = computeQuietWindowMs(profile, baseQuietWindowMs);
-    const networkIdleBudgetMs = computeNetworkIdleBudgetMs(profile, actionTimeout, quietWindowMs, action.type);
+  private async raceDialog<T>(work: Promise<T>): Promise<{ value: T } | "dialog"> {
+    if (this.pendingDialogs.length > 0) {
+      // The blocked work settles once handleDialog answers; nobody awaits it any more.
+      work.catch(() => undefined);
+      return "dialog";
+    }
 
-    await page.waitForTimeout(quietWindowMs);
-    await page.waitForLoadState("networkidle", { timeout: networkIdleBudgetMs }).catch(() => undefined);
+    let listener = (): void => undefined;
+    const opened = new Promise<"dialog">((resolveOpened) => {
+      listener = () => resolveOpened("dialog");
+    });
+    this.dialogListeners.add(listener);
+    try {
+      return await Promise.race([work.then((value) => ({ value })), opened]);
+    } finally {
+      this.dialogListeners.delete(listener);
+    }
   }
 
-  private async captureScreenshot(actionId: string): Promise<string | undefined> {
-    if (!(this.options.captureScreenshots ?? DEFAULT_OPTIONS.captureScreenshots)) {
-      return undefined;
+  private async respondToDialog(
+    dialog: Dialog,
+    response: "accept" | "dismiss",
+    promptText: string | undefined,
+    handledBy: "policy" | "handleDialog"
+  ): Promise<void> {
+    const isPrompt = dialog.type() === "prompt";
+    const text = isPrompt ? (promptText ?? dialog.defaultValue()) : undefined;
+    if (response === "accept") {
+      await dialog.accept(text);
+    } else {
+      await dialog.dismiss();
     }
 
-    const page = this.requirePage();
-    const filePath = resolve(
-      this.options.artifactsDir ?? DEFAULT_OPTIONS.artifactsDir,
-      this.sessionId,
-      `${String(this.actionCounter).padStart(4, "0")}-${actionId}.png`
-    );
-
-    await mkdir(dirname(filePath), { recursive: true });
-    await page.screenshot({
-      path: filePath,
-      fullPage: (this.options.screenshotMode ?? DEFAULT_OPTIONS.screenshotMode) === "fullpage"
+    this.observer?.recordDialog({
+      ...describeDialog(dialog),
+      outcome: response === "accept" ? "accepted" : "dismissed",
+      handledBy,
+      ...(response === "accept" && text !== undefined ? { promptText: text } : {})
     });
-    return filePath;
   }
 
-  private async initializeContext(storageStatePath?: string): Promise<void> {
-    const browser = this.requireBrowser();
+  private preparePage(page: Page): Promise<void> {
+    const existing = this.pagePreparations.get(page);
+    if (existing) {
+      return existing;
+    }
 
-    this.context = await browser.newContext({
-      viewport: {
-        width: this.options.viewportWidth ?? DEFAULT_OPTIONS.viewportWidth,
-        height: this.options.viewportHeight ?? DEFAULT_OPTIONS.viewportHeight
-      },
-      storageState: storageStatePath
-    });
+    const preparation = (async () => {
+      if (this.options.browserOverlay ?? DEFAULT_OPTIONS.browserOverlay) {
+        await this.installBrowserOverlay(page);
+      }
 
-    this.page = await this.context.newPage();
+      await installLayoutShiftCapture(page);
+      if (this.options.deterministic ?? DEFAULT_OPTIONS.deterministic) {
+        await applyDeterministicSettings(page, defaultDeterministicOptions);
+      }
+    })();
+    this.pagePreparations.set(page, preparation);
+    return preparation;
+  }
 
-    if (this.options.browserOverlay ?? DEFAULT_OPTIONS.browserOverlay) {
-      await this.installBrowserOverlay();
+  private activateTab(tabId: string): Page {
+    const page = this.tabs.get(tabId);
+    if (!page) {
+      throw new Error(`Tab '${tabId}' is not open`);
     }
 
-    await installLayoutShiftCapture(this.page);
-    if (this.options.deterministic ?? DEFAULT_OPTIONS.deterministic) {
-      await applyDeterministicSettings(this.page, defaultDeterministicOptions);
+    if (tabId !== this.activeTabId || this.page !== page) {
+      this.lastSnapshot = null;
     }
+    this.activeTabId = tabId;
+    this.page = page;
+    return page;
+  }
 
-    const redaction =
-      this.options.logRedactionPatterns ??
-      defaultRedactionPatterns(this.options.redactionPack ?? DEFAULT_OPTIONS.redactionPack);
-    this.observer = new BrowserObserver(
-      this.context,
-      this.page,
-      redaction,
-      this.options.logNoiseFiltering ?? true
-    );
-    this.observer.start();
+  private forgetTab(tabId: string, page: Page): void {
+    if (this.tabs.get(tabId) !== page) {
+      return;
+    }
 
-    this.mockRoutingReady = false;
-    if (this.mockRules.length > 0) {
-      await this.ensureMockRouting();
+    this.tabs.delete(tabId);
+    if (tabId !== this.activeTabId) {
+      return;
     }
 
-    this.lastSnapshot = await takeDomSnapshot(this.page);
-    this.lastKnownStorageSnapshot = await this.captureStorageSnapshot();
+    const fallbackTabId = [...this.tabs.keys()].pop();
+    if (fallbackTabId) {
+      this.activateTab(fallbackTabId);
+      return;
+    }
+
+    this.page = null;
+    this.lastSnapshot = null;
   }
 
   private async addMockRoute(route: Extract<Action, { type: "mock" }>["route"]): Promise<void> {
@@ -1607,15 +2898,25 @@ export class AgentSession {
         return;
       }
 
+      if (this.networkPlayer) {
+        const entry = this.networkPlayer.match(method, url);
+        if (entry) {
+          await route.fulfill(archiveEntryToFulfillment(entry));
+          return;
+        }
+        if (this.networkPlayer.unmatchedPolicy === "fail") {
+          await route.abort("blockedbyclient");
+          return;
+        }
+      }
+
       await route.continue();
     });
 
     this.mockRoutingReady = true;
   }
 
-  private async installBrowserOverlay(): Promise<void> {
-    const page = this.requirePage();
-
+  private async installBrowserOverlay(page: Page): Promise<void> {
     await page.exposeBinding("__sazenControl", async (_source, request: unknown) => {
       const command =
         typeof request === "object" && request !== null && "type" in request
@@ -1764,6 +3065,7 @@ export class AgentSession {
       actionType: input.actionType,
       status: "ok",
       durationMs: input.elapsedMs,
+      tabId: this.activeTabId,
       postUrl: input.postUrl,
       postDomHash: input.postDomHash,
       domDiffSummary: {
@@ -2185,6 +3487,13 @@ export class AgentSession {
     return this.context;
   }
 
+  private redactionPatterns(): RegExp[] {
+    return (
+      this.options.logRedactionPatterns ??
+      defaultRedactionPatterns(this.options.redactionPack ?? DEFAULT_OPTIONS.redactionPack)
+    );
+  }
+
   private requireObserver(): BrowserObserver {
     if (!this.observer) {
       throw new Error("Observer not initialized; call start() first");
@@ -2200,7 +3509,7 @@ function defaultRedactionPatterns(pack: AgentSessionOptions["redactionPack"]): R
 
   const base = [
     /bearer\s+[a-z0-9._-]+/gi,
-    /("password"\s*:\s*")[^"]+"/gi,
+    /("password"\s*:\s*")[^"]+(?=")/gi,
     /(token=)[^&\s]+/gi,
     /(authorization:\s*)[^\s]+/gi
   ];
@@ -2217,6 +3526,11 @@ function defaultRedactionPatterns(pack: AgentSessionOptions["redactionPack"]): R
   ];
 }
 
+function isNavigationRaceError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /Execution context was destroyed|Cannot find context with specified id|navigation/i.test(message);
+}
+
 function escapeForCss(value: string): string {
   return value.replace(/([ !"#$%&'()*+,./:;<=>?@[\\\]^`{|}~])/g, "\\$1");
 }
@@ -2314,6 +3628,267 @@ function resolveRetryFinalReason(
   return "retry_disabled";
 }
 
+function describeDialog(dialog: Dialog): Omit<DialogEvent, "kind" | "seq" | "timestamp" | "outcome"> {
+  const page = dialog.page();
+  return {
+    dialogType: dialog.type() as DialogType,
+    message: dialog.message(),
+    defaultValue: dialog.type() === "prompt" ? dialog.defaultValue() : undefined,
+    pageUrl: page ? safePageUrl(page, "") : undefined
+  };
+}
+
+function summarizeDialogs(events: ObserverEvent[]): TraceDialogSummary[] | undefined {
+  const dialogs = events
+    .filter((event): event is DialogEvent => event.kind === "dialog")
+    .map((event) => ({
+      dialogType: event.dialogType,
+      message: event.message,
+      outcome: event.outcome,
+      handledBy: event.handledBy
+    }));
+  return dialogs.length > 0 ? dialogs : undefined;
+}
+
+async function readEvaluateResult(
+  handle: JSHandle,
+  maxBytes: number
+): Promise<NonNullable<ActionResult["evaluateSummary"]>> {
+  try {
+    // Serialize in the page so oversized results never cross the wire.
+    const serialized = await handle.evaluate((value, limit) => {
+      try {
+        const json = JSON.stringify(value) ?? "null";
+        const sizeBytes = new TextEncoder().encode(json).length;
+        return sizeBytes > limit ? { sizeBytes } : { json, sizeBytes };
+      } catch (error) {
+        return { error: error instanceof Error ? error.message : String(error) };
+      }
+    }, maxBytes);
+
+    if ("error" in serialized) {
+      throw new Error(`evaluate result is not JSON-serializable: ${serialized.error}`);
+    }
+    if (serialized.json === undefined) {
+      throw new Error(`evaluate result is ${serialized.sizeBytes} bytes, over the ${maxBytes} byte limit`);
+    }
+    return { value: JSON.parse(serialized.json) as unknown, sizeBytes: serialized.sizeBytes };
+  } finally {
+    await handle.dispose().catch(() => undefined);
+  }
+}
+
+async function settleEvaluateHandle(
+  pending: Promise<JSHandle>,
+  timeoutMs: number,
+  maxBytes: number
+): Promise<NonNullable<ActionResult["evaluateSummary"]>> {
+  let handle: JSHandle;
+  try {
+    handle = await withTimeout(pending, timeoutMs, `evaluate did not settle within ${timeoutMs}ms`);
+  } catch (error) {
+    // A result that lands after the timeout still pins a page-side object until disposed.
+    void pending.then((late) => late.dispose()).catch(() => undefined);
+    throw error;
+  }
+  return readEvaluateResult(handle, maxBytes);
+}
+
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<T>((_resolve, reject) => {
+        timer = setTimeout(() => {
+          reject(new Error(message));
+        }, timeoutMs);
+      })
+    ]);
+  } finally {
+    if (timer) {
+      clearTimeout(timer);
+    }
+  }
+}
+
+async function captureElementScreenshot(
+  page: Page,
+  locator: Locator,
+  filePath: string,
+  padding: number,
+  timeoutMs: number
+): Promise<BoundingBox> {
+  await locator.scrollIntoViewIfNeeded({ timeout: timeoutMs });
+  const box = await locator.boundingBox({ timeout: timeoutMs });
+  if (!box) {
+    throw new Error("Element has no bounding box to capture");
+  }
+
+  // Clip in document coordinates so elements taller than the viewport are captured whole.
+  const scroll = await page.evaluate(() => ({ x: window.scrollX, y: window.scrollY }));
+  const left = Math.max(0, box.x + scroll.x - padding);
+  const top = Math.max(0, box.y + scroll.y - padding);
+  const clip = {
+    x: left,
+    y: top,
+    width: box.x + scroll.x + box.width + padding - left,
+    height: box.y + scroll.y + box.height + padding - top
+  };
+  await page.screenshot({ path: filePath, clip, fullPage: true, timeout: timeoutMs });
+  return clip;
+}
+
+async function convergeCheckedState(locator: Locator, checked: boolean, timeoutMs: number): Promise<void> {
+  const current = await locator.evaluate(readCheckedState, undefined, { timeout: timeoutMs });
+  if (current.state === null) {
+    // Nothing checkable was found in or behind the element; Playwright may still know how to toggle it.
+    await locator.setChecked(checked, { timeout: timeoutMs });
+    return;
+  }
+  if (current.state === checked) {
+    return;
+  }
+  if (current.radio && !checked) {
+    throw new Error("A radio button cannot be unchecked; check another option in its group instead");
+  }
+
+  await locator.click({ timeout: timeoutMs });
+  const next = await locator.evaluate(readCheckedState, undefined, { timeout: timeoutMs });
+  if (next.state !== checked) {
+    throw new Error(`Clicking did not ${checked ? "check" : "uncheck"} the element (state is ${String(next.state)})`);
+  }
+}
+
+function readCheckedState(element: Element): { state: boolean | "mixed" | null; radio: boolean } {
+  // Labels and custom-switch wrappers report the control they point at or contain; clicking them toggles it.
+  const checkable = "input[type=checkbox], input[type=radio], [aria-checked], [aria-pressed]";
+  const control =
+    element instanceof HTMLLabelElement
+      ? (element.control ?? element.querySelector(checkable) ?? element)
+      : element.matches(checkable)
+        ? element
+        : (element.querySelector(checkable) ?? element);
+
+  if (control instanceof HTMLInputElement && (control.type === "checkbox" || control.type === "radio")) {
+    return { state: control.indeterminate ? "mixed" : control.checked, radio: control.type === "radio" };
+  }
+
+  const attribute = control.getAttribute("aria-checked") ?? control.getAttribute("aria-pressed");
+  const state = attribute === "true" ? true : attribute === "false" ? false : attribute === "mixed" ? "mixed" : null;
+  return { state, radio: control.getAttribute("role") === "radio" };
+}
+
+interface ScrollStep {
+  deltaX: number;
+  deltaY: number;
+  to: "top" | "bottom" | "left" | "right" | null;
+}
+
+interface ScrollPosition {
+  scrollX: number;
+  scrollY: number;
+  maxScrollX: number;
+  maxScrollY: number;
+}
+
+function scrollWindow(step: ScrollStep): void {
+  const root = document.scrollingElement ?? document.documentElement;
+  if (step.to === "top") {
+    window.scrollTo(window.scrollX, 0);
+  } else if (step.to === "bottom") {
+    window.scrollTo(window.scrollX, root.scrollHeight);
+  } else if (step.to === "left") {
+    window.scrollTo(0, window.scrollY);
+  } else if (step.to === "right") {
+    window.scrollTo(root.scrollWidth, window.scrollY);
+  } else {
+    window.scrollBy(step.deltaX, step.deltaY);
+  }
+}
+
+function readScrollPosition(): ScrollPosition {
+  const root = document.scrollingElement ?? document.documentElement;
+  return {
+    scrollX: Math.round(window.scrollX),
+    scrollY: Math.round(window.scrollY),
+    maxScrollX: Math.max(0, root.scrollWidth - window.innerWidth),
+    maxScrollY: Math.max(0, root.scrollHeight - window.innerHeight)
+  };
+}
+
+function toScrollSummary(
+  scrollCount: number,
+  position: ScrollPosition,
+  step: ScrollStep
+): NonNullable<ActionResult["scrollSummary"]> {
+  const horizontal = step.to === "left" || step.to === "right" || (step.to === null && step.deltaY === 0 && step.deltaX !== 0);
+  const backwards = step.to === "top" || step.to === "left" || (horizontal ? step.deltaX < 0 : step.deltaY < 0);
+  const atEnd = horizontal
+    ? backwards
+      ? position.scrollX <= 0
+      : position.scrollX >= position.maxScrollX - 1
+    : backwards
+      ? position.scrollY <= 0
+      : position.scrollY >= position.maxScrollY - 1;
+
+  return { scrollCount, scrollX: position.scrollX, scrollY: position.scrollY, atEnd };
+}
+
+async function readViewportSize(page: Page): Promise<{ width: number; height: number }> {
+  return (
+    page.viewportSize() ??
+    (await page.evaluate(() => ({ width: window.innerWidth, height: window.innerHeight })))
+  );
+}
+
+// Coordinates authored for another viewport are scaled proportionally onto the current one.
+function scaleClickAtPoint(action: ClickAtAction, viewport: { width: number; height: number }): ClickAtSummary {
+  const authored = action.viewport;
+  if (!authored || (authored.width === viewport.width && authored.height === viewport.height)) {
+    return { x: action.x, y: action.y, viewport };
+  }
+
+  return {
+    x: Math.round(((action.x * viewport.width) / authored.width) * 100) / 100,
+    y: Math.round(((action.y * viewport.height) / authored.height) * 100) / 100,
+    viewport,
+    scaledFrom: { x: action.x, y: action.y, width: authored.width, height: authored.height }
+  };
+}
+
+function assertPointInViewport(point: ClickAtSummary): void {
+  if (point.x < 0 || point.y < 0 || point.x >= point.viewport.width || point.y >= point.viewport.height) {
+    throw new Error(
+      `clickAt point (${point.x}, ${point.y}) is outside the ${point.viewport.width}x${point.viewport.height} viewport`
+    );
+  }
+}
+
+function toSelectorDiagnostics(
+  resolved: ResolvedLocator,
+  execution: {
+    candidateCount: number;
+    selectedCandidateIndex?: number;
+    selectedCandidateLabel?: string;
+    attemptedCandidateCount: number;
+  }
+): SelectorDiagnostics {
+  return {
+    targetLabel: resolved.targetLabel,
+    candidateCount: execution.candidateCount,
+    selectedCandidateIndex: execution.selectedCandidateIndex,
+    selectedCandidateLabel: execution.selectedCandidateLabel,
+    attemptedCandidateCount: execution.attemptedCandidateCount,
+    selection: resolved.selection,
+    nameMatch:
+      execution.selectedCandidateIndex === undefined
+        ? undefined
+        : resolved.candidates[execution.selectedCandidateIndex]?.nameMatch
+  };
+}
+
 function getActionTimeout(action: Action): number | undefined {
   if ("timeoutMs" in action) {
     return action.timeoutMs;
@@ -2364,6 +3939,14 @@ function isBenignCloseError(error: unknown): boolean {
   );
 }
 
+function frameScope(page: Page, framePath: string[] | undefined): Page | FrameLocator {
+  let scope: Page | FrameLocator = page;
+  for (const selector of framePath ?? []) {
+    scope = scope.frameLocator(selector);
+  }
+  return scope;
+}
+
 function dedupeLocatorCandidates(candidates: LocatorCandidate[]): LocatorCandidate[] {
   const seen = new Set<string>();
   const deduped: LocatorCandidate[] = [];
@@ -2379,6 +3962,25 @@ function dedupeLocatorCandidates(candidates: LocatorCandidate[]): LocatorCandida
   return deduped;
 }
 
+function rankRoleNameMatches(
+  nodes: AgentNode[],
+  target: Extract<NodeTarget, { kind: "roleName" }>
+): Array<{ node: AgentNode; nameMatch: NameMatch }> {
+  const matches: Array<{ node: AgentNode; nameMatch: NameMatch }> = [];
+  for (const node of nodes) {
+    const nameMatch = node.role === target.role ? matchRoleName(node.name, target) : undefined;
+    if (nameMatch) {
+      matches.push({ node, nameMatch });
+    }
+  }
+  // Best-scoring names win; equal scores fall back to the usual interactability ranking.
+  return matches.sort(
+    (left, right) =>
+      right.nameMatch.score - left.nameMatch.score ||
+      scoreNodeForInteraction(right.node) - scoreNodeForInteraction(left.node)
+  );
+}
+
 function rankStableRefMatches(nodes: AgentNode[]): AgentNode[] {
   return [...nodes].sort((left, right) => {
     const leftScore = scoreNodeForInteraction(left);
@@ -2404,8 +4006,255 @@ function scoreNodeForInteraction(node: AgentNode): number {
   return score;
 }
 
-function normalizeComparableText(input: string): string {
-  return input.replace(/\s+/g, " ").trim().toLowerCase();
+type TextTarget = Extract<NodeTarget, { kind: "text" | "label" | "placeholder" | "testId" }>;
+
+function nodeMatchesTextTarget(node: AgentNode, target: Exclude<TextTarget, { kind: "label" }>): boolean {
+  switch (target.kind) {
+    case "text":
+      // Inputs report their value as text; that is not what a visible-text target means.
+      return !node.editable && matchesTargetText(node.text, target.text, target.match ?? "substring");
+    case "placeholder":
+      return matchesTargetText(node.attributes.placeholder ?? "", target.text, target.exact ? "exact" : "substring");
+    case "testId":
+      return node.attributes["data-testid"] === target.value;
+  }
+}
+
+function matchesTargetText(actual: string, expected: string, match: "exact" | "substring" | "regex"): boolean {
+  if (match === "regex") {
+    return new RegExp(expected).test(actual);
+  }
+  if (match === "exact") {
+    return actual.replace(/\s+/g, " ").trim() === expected.replace(/\s+/g, " ").trim();
+  }
+  const needle = normalizeComparableText(expected);
+  return needle.length > 0 && normalizeComparableText(actual).includes(needle);
+}
+
+function rankTextMatches(nodes: AgentNode[]): AgentNode[] {
+  // Ancestors contain the same text, so the innermost (shortest) match goes first, like getByText.
+  return [...nodes].sort(
+    (left, right) =>
+      Number(right.visible) - Number(left.visible) ||
+      left.text.length - right.text.length ||
+      scoreNodeForInteraction(right) - scoreNodeForInteraction(left)
+  );
+}
+
+function textTargetCandidate(page: Page, target: TextTarget): LocatorCandidate {
+  switch (target.kind) {
+    case "text": {
+      const match = target.match ?? "substring";
+      if (match === "regex") {
+        return { label: `getByText(/${target.text}/)`, locator: page.getByText(new RegExp(target.text)).first() };
+      }
+      return {
+        label: `getByText(${target.text}, exact=${match === "exact"})`,
+        locator: page.getByText(target.text, { exact: match === "exact" }).first()
+      };
+    }
+    case "label":
+      return {
+        label: `getByLabel(${target.text}, exact=${Boolean(target.exact)})`,
+        locator: page.getByLabel(target.text, { exact: Boolean(target.exact) }).first()
+      };
+    case "placeholder":
+      return {
+        label: `getByPlaceholder(${target.text}, exact=${Boolean(target.exact)})`,
+        locator: page.getByPlaceholder(target.text, { exact: Boolean(target.exact) }).first()
+      };
+    case "testId":
+      return { label: `testId:${target.value}`, locator: page.getByTestId(target.value).first() };
+  }
+}
+
+function textTargetLabel(target: TextTarget): string {
+  switch (target.kind) {
+    case "text":
+      return `text:${target.match ?? "substring"}:${target.text}`;
+    case "label":
+      return `label:${target.text}`;
+    case "placeholder":
+      return `placeholder:${target.text}`;
+    case "testId":
+      return `testId:${target.value}`;
+  }
+}
+
+type ComposedTarget = Extract<NodeTarget, { kind: "within" | "nth" | "near" }>;
+
+function nodeTargetLabel(target: NodeTarget): string {
+  switch (target.kind) {
+    case "node":
+      return `nodeId:${target.nodeId}`;
+    case "stableRef":
+      return `stableRef:${target.value}`;
+    case "roleName":
+      return `roleName:${target.role}:${target.name}`;
+    case "css":
+      return `${frameLabelPrefix(target.framePath)}css:${target.selector}`;
+    case "xpath":
+      return `${frameLabelPrefix(target.framePath)}xpath:${target.expression}`;
+    case "text":
+    case "label":
+    case "placeholder":
+    case "testId":
+      return textTargetLabel(target);
+    case "within":
+      return `within(${nodeTargetLabel(target.scope)}) ${nodeTargetLabel(target.target)}`;
+    case "nth":
+      return `nth(${target.index}) ${nodeTargetLabel(target.target)}`;
+    case "near":
+      return `near(${nodeTargetLabel(target.anchor)}) ${nodeTargetLabel(target.target)}`;
+  }
+}
+
+function nodeHasRuntimeId(node: AgentNode, runtimeIds: Set<string>, framePath: string[] | undefined): boolean {
+  if (!framePath || framePath.length === 0) {
+    return !node.framePath && runtimeIds.has(node.id);
+  }
+  // Frame node ids are `<frame prefix>:<runtime id>`; the frame itself is identified by its host path.
+  const separator = node.id.lastIndexOf(":");
+  return (
+    JSON.stringify(node.framePath) === JSON.stringify(framePath) &&
+    separator >= 0 &&
+    runtimeIds.has(node.id.slice(separator + 1))
+  );
+}
+
+function boxDistance(left: BoundingBox, right: BoundingBox): number {
+  const dx = Math.max(0, left.x - (right.x + right.width), right.x - (left.x + left.width));
+  const dy = Math.max(0, left.y - (right.y + right.height), right.y - (left.y + left.height));
+  return Math.hypot(dx, dy);
+}
+
+function centerDistance(left: BoundingBox, right: BoundingBox): number {
+  return Math.hypot(
+    left.x + left.width / 2 - (right.x + right.width / 2),
+    left.y + left.height / 2 - (right.y + right.height / 2)
+  );
+}
+
+function boxContains(outer: BoundingBox, inner: BoundingBox): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+function filterContainedRuntimeIds(input: { scopeIds: string[]; innerIds: string[] }): string[] {
+  const runtime = (window as unknown as { __agentNodeRuntime?: { nodeIds: WeakMap<Element, string> } })
+    .__agentNodeRuntime;
+  const wanted = new Set([...input.scopeIds, ...input.innerIds]);
+  const elements = new Map<string, Element>();
+  const collect = (root: Document | ShadowRoot) => {
+    for (const element of Array.from(root.querySelectorAll("*"))) {
+      const id = runtime?.nodeIds.get(element);
+      if (id && wanted.has(id)) {
+        elements.set(id, element);
+      }
+      if (element.shadowRoot) {
+        collect(element.shadowRoot);
+      }
+    }
+  };
+  collect(document);
+
+  const scopes = input.scopeIds
+    .map((id) => elements.get(id))
+    .filter((element): element is Element => element !== undefined);
+  const isInside = (element: Element): boolean => {
+    // Walk up through shadow hosts as well as parents, since contains() stops at shadow boundaries.
+    let current: Node | null = element.parentNode;
+    while (current) {
+      if (scopes.includes(current as Element)) {
+        return true;
+      }
+      current = current instanceof ShadowRoot ? current.host : current.parentNode;
+    }
+    return false;
+  };
+
+  return input.innerIds.filter((id) => {
+    const element = elements.get(id);
+    return element !== undefined && isInside(element);
+  });
+}
+
+function filterAncestorRuntimeIds(ids: string[]): string[] {
+  const runtime = (window as unknown as { __agentNodeRuntime?: { nodeIds: WeakMap<Element, string> } })
+    .__agentNodeRuntime;
+  const wanted = new Set(ids);
+  const ancestors = new Set<string>();
+  const visit = (root: Document | ShadowRoot) => {
+    for (const element of Array.from(root.querySelectorAll("*"))) {
+      if (wanted.has(runtime?.nodeIds.get(element) ?? "")) {
+        let current: Node | null = element.parentNode;
+        while (current) {
+          const id = current instanceof Element ? runtime?.nodeIds.get(current) : undefined;
+          if (id && wanted.has(id)) {
+            ancestors.add(id);
+          }
+          current = current instanceof ShadowRoot ? current.host : current.parentNode;
+        }
+      }
+      if (element.shadowRoot) {
+        visit(element.shadowRoot);
+      }
+    }
+  };
+  visit(document);
+  return [...ancestors];
+}
+
+function readRuntimeNodeId(element: Element): string {
+  const runtime = (window as unknown as { __agentNodeRuntime?: { nodeIds: WeakMap<Element, string> } })
+    .__agentNodeRuntime;
+  return runtime?.nodeIds.get(element) ?? "";
+}
+
+function readLabelledControls(): Array<{ id: string; labels: string[] }> {
+  const runtime = (window as unknown as { __agentNodeRuntime?: { nodeIds: WeakMap<Element, string> } })
+    .__agentNodeRuntime;
+  const controls: Array<{ id: string; labels: string[] }> = [];
+  const visit = (root: Document | ShadowRoot) => {
+    for (const element of Array.from(root.querySelectorAll("*"))) {
+      const id = runtime?.nodeIds.get(element);
+      if (id) {
+        const labels = Array.from((element as HTMLInputElement).labels ?? []).map((label) => label.textContent ?? "");
+        const labelledBy = element.getAttribute("aria-labelledby");
+        if (labelledBy) {
+          labels.push(
+            labelledBy
+              .split(/\s+/)
+              .map((ref) => root.getElementById(ref)?.textContent ?? "")
+              .join(" ")
+          );
+        }
+        if (labels.length > 0) {
+          controls.push({ id, labels });
+        }
+      }
+      if (element.shadowRoot) {
+        visit(element.shadowRoot);
+      }
+    }
+  };
+  visit(document);
+  return controls;
+}
+
+function readRuntimeNodeIds(elements: Element[]): string[] {
+  const runtime = (window as unknown as { __agentNodeRuntime?: { nodeIds: WeakMap<Element, string> } })
+    .__agentNodeRuntime;
+  return elements.map((element) => runtime?.nodeIds.get(element) ?? "");
+}
+
+// Script actions name files relative to the script that wrote them; ad-hoc actions use the working directory.
+export function resolveScriptPath(action: Action, filePath: string): string {
+  return resolve(action.source ? dirname(action.source.path) : process.cwd(), filePath);
 }
 
 export function computeQuietWindowMs(
@@ -2431,7 +4280,7 @@ export function computeNetworkIdleBudgetMs(
   const effectiveProfile = profile ?? "balanced";
 
   const base =
-    actionType === "navigate" || actionType === "waitFor"
+    isNavigationActionType(actionType) || actionType === "waitFor"
       ? Math.floor(actionTimeoutMs / 2)
       : Math.floor(actionTimeoutMs / 4);
 
@@ -2448,6 +4297,10 @@ export function computeNetworkIdleBudgetMs(
   return Math.min(2_500, Math.max(floor, base));
 }
 
+function isNavigationActionType(actionType: Action["type"]): boolean {
+  return actionType === "navigate" || actionType === "goBack" || actionType === "goForward" || actionType === "reload";
+}
+
 function noteOriginFromUrl(origins: Set<string>, input: string): void {
   try {
     const url = new URL(input);
@@ -2492,6 +4345,40 @@ function extractSelectorInvariant(action: Action): string | undefined {
   return undefined;
 }
 
+async function readCaptureSource(
+  locator: Locator,
+  action: Extract<Action, { type: "capture" }>,
+  timeoutMs: number
+): Promise<string> {
+  if (action.from === "value") {
+    return locator.inputValue({ timeout: timeoutMs });
+  }
+
+  if (action.from === "attribute") {
+    const attribute = action.attribute ?? "";
+    const value = await locator.getAttribute(attribute, { timeout: timeoutMs });
+    if (value === null) {
+      throw new Error(`Capture '${action.name}': attribute '${attribute}' is not present`);
+    }
+    return value;
+  }
+
+  return (await locator.innerText({ timeout: timeoutMs })).trim();
+}
+
+function applyCapturePattern(action: Extract<Action, { type: "capture" }>, raw: string): string {
+  const pattern = compileOptionalRegExp(action.pattern);
+  if (!pattern) {
+    return raw;
+  }
+
+  const match = pattern.exec(raw);
+  if (!match) {
+    throw new Error(`Capture '${action.name}': pattern '${action.pattern}' did not match '${raw}'`);
+  }
+  return match[1] ?? match[0];
+}
+
 async function resolveConsentRegion(
   page: Page,
   requested: "auto" | "global" | "eu" | "us" | "uk"
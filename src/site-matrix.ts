@@ -3,8 +3,8 @@
 import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
 import { basename, dirname, extname, join, resolve } from "node:path";
 import process from "node:process";
-import { parseScript } from "./contracts.js";
 import { appendMatrixSummaryToDriftHistory } from "./drift-monitor.js";
+import { loadActionScript } from "./includes.js";
 import { buildSelectorHealthReport } from "./selector-health.js";
 import { AgentSession } from "./session.js";
 import { loadSavedTrace } from "./trace.js";
@@ -81,8 +81,7 @@ async function main(): Promise<void> {
 
     console.log(`\n[site] ${siteName}`);
 
-    const raw = await readFile(scriptPath, "utf8");
-    const script = parseScript(JSON.parse(raw));
+    const { script } = await loadActionScript(scriptPath);
 
     const sessionOptions: AgentSessionOptions = {
       ...script.settings,
@@ -1,5 +1,5 @@
 import { createHash, randomUUID } from "node:crypto";
-import type { Page } from "playwright";
+import type { Frame, Locator, Page } from "playwright";
 import type {
   AgentElementDescription,
   AgentNode,
@@ -30,6 +30,10 @@ interface RawNode {
   };
   path: string;
   attributes: Record<string, string>;
+  framePath?: string[];
+  checked?: boolean | "mixed";
+  selected?: boolean;
+  expanded?: boolean;
 }
 
 interface RawSnapshot {
@@ -42,25 +46,137 @@ interface RawSnapshot {
   nodes: RawNode[];
 }
 
+interface RawFrameSnapshot extends RawSnapshot {
+  frameHosts: Record<string, string>;
+}
+
 export interface SnapshotOptions {
   interactiveOnly?: boolean;
   visibleOnly?: boolean;
   maxNodes?: number;
+  includeFrames?: boolean;
 }
 
 const DEFAULT_OPTIONS: Required<SnapshotOptions> = {
   interactiveOnly: false,
   visibleOnly: false,
-  maxNodes: 10_000
+  maxNodes: 10_000,
+  includeFrames: true
 };
 
+const snapshotFramePaths = new WeakMap<Frame, string[]>();
+
 export async function takeDomSnapshot(
   page: Page,
   options: SnapshotOptions = {}
 ): Promise<DomSnapshot> {
   const effective = { ...DEFAULT_OPTIONS, ...options };
 
-  const raw = await page.evaluate<RawSnapshot, Required<SnapshotOptions>>((snapshotOptions) => {
+  const main = await evaluateFrameSnapshot(page.mainFrame(), effective);
+  const nodes: RawNode[] = [...main.nodes];
+  if (effective.includeFrames) {
+    await appendChildFrameNodes(page.mainFrame(), main.frameHosts, [], effective, nodes);
+  }
+  const raw: RawSnapshot = {
+    url: main.url,
+    title: main.title,
+    viewport: main.viewport,
+    nodes
+  };
+
+  const snapshot: DomSnapshot = {
+    snapshotId: randomUUID(),
+    timestamp: Date.now(),
+    url: raw.url,
+    title: raw.title,
+    domHash: hashNodes(raw.nodes),
+    viewport: raw.viewport,
+    nodeCount: raw.nodes.length,
+    interactiveCount: raw.nodes.filter((node) => node.interactive).length,
+    nodes: raw.nodes as AgentNode[]
+  };
+
+  return snapshot;
+}
+
+export async function scopeDomSnapshot(snapshot: DomSnapshot, root: Locator): Promise<DomSnapshot> {
+  const subtree = await root.evaluate((element) => {
+    const runtime = (
+      window as unknown as {
+        __agentNodeRuntime?: { nodeIds: WeakMap<Element, string> };
+      }
+    ).__agentNodeRuntime;
+    const ids: string[] = [];
+    const visit = (el: Element) => {
+      const id = runtime?.nodeIds.get(el);
+      if (id) {
+        ids.push(id);
+      }
+      for (const child of Array.from(el.children)) {
+        visit(child);
+      }
+      if (el.shadowRoot) {
+        for (const child of Array.from(el.shadowRoot.children)) {
+          visit(child);
+        }
+      }
+    };
+    visit(element);
+    return { rootId: runtime?.nodeIds.get(element) ?? "", ids };
+  });
+
+  const rootNode = await pickScopeRoot(snapshot, subtree.rootId, root);
+  if (!rootNode) {
+    throw new Error("Snapshot scope root is not part of the current snapshot");
+  }
+
+  // Node ids inside a frame share the frame's prefix; iframes nested under the root are not followed.
+  const prefix = rootNode.id.slice(0, rootNode.id.length - subtree.rootId.length);
+  const scopedIds = new Set(subtree.ids.map((id) => `${prefix}${id}`));
+  const nodes = snapshot.nodes.filter((node) => scopedIds.has(node.id));
+
+  return {
+    ...snapshot,
+    snapshotId: randomUUID(),
+    domHash: hashNodes(nodes),
+    nodeCount: nodes.length,
+    interactiveCount: nodes.filter((node) => node.interactive).length,
+    nodes
+  };
+}
+
+async function pickScopeRoot(snapshot: DomSnapshot, rootId: string, root: Locator): Promise<AgentNode | undefined> {
+  const candidates = snapshot.nodes.filter((node) => node.id === rootId || node.id.endsWith(`:${rootId}`));
+  if (candidates.length <= 1) {
+    return candidates[0];
+  }
+
+  // The same runtime id can exist in several frames; the bounding box tells them apart.
+  const box = await root.boundingBox();
+  if (!box) {
+    return candidates[0];
+  }
+  const distance = (node: AgentNode) =>
+    Math.abs(node.boundingBox.x - box.x) +
+    Math.abs(node.boundingBox.y - box.y) +
+    Math.abs(node.boundingBox.width - box.width) +
+    Math.abs(node.boundingBox.height - box.height);
+  return [...candidates].sort((left, right) => distance(left) - distance(right))[0];
+}
+
+function hashNodes(nodes: RawNode[]): string {
+  // Toggle states stay out of the hash so older traces still replay strictly; domDiff reports their changes.
+  const hashInput = nodes
+    .map((node) => `${node.id}|${node.stableRef}|${node.visible}|${node.enabled}|${node.text}|${node.value}`)
+    .join("\n");
+  return createHash("sha1").update(hashInput).digest("hex").slice(0, 16);
+}
+
+async function evaluateFrameSnapshot(
+  frame: Frame,
+  options: Required<SnapshotOptions>
+): Promise<RawFrameSnapshot> {
+  return frame.evaluate<RawFrameSnapshot, Required<SnapshotOptions>>((snapshotOptions) => {
     const globalState = window as unknown as {
       __agentNodeRuntime?: {
         nextId: number;
@@ -148,7 +264,7 @@ export async function takeDomSnapshot(
 
       const labelledBy = sanitize(el.getAttribute("aria-labelledby"));
       if (labelledBy) {
-        const label = document.getElementById(labelledBy);
+        const label = (el.getRootNode() as Document | ShadowRoot).getElementById(labelledBy);
         if (label) {
           const text = sanitize(label.textContent);
           if (text) {
@@ -197,6 +313,40 @@ export async function takeDomSnapshot(
       return "";
     };
 
+    const ariaState = (el: Element, name: string): boolean | "mixed" | undefined => {
+      const state = sanitize(el.getAttribute(name)).toLowerCase();
+      if (state === "true" || state === "false") {
+        return state === "true";
+      }
+      return state === "mixed" ? "mixed" : undefined;
+    };
+
+    const checkedState = (el: Element): boolean | "mixed" | undefined => {
+      if (el instanceof HTMLInputElement && (el.type === "checkbox" || el.type === "radio")) {
+        return el.indeterminate ? "mixed" : el.checked;
+      }
+      return ariaState(el, "aria-checked") ?? ariaState(el, "aria-pressed");
+    };
+
+    const selectedState = (el: Element): boolean | undefined => {
+      if (el instanceof HTMLOptionElement) {
+        return el.selected;
+      }
+      const state = ariaState(el, "aria-selected");
+      return state === undefined ? undefined : state === true;
+    };
+
+    const expandedState = (el: Element): boolean | undefined => {
+      if (el instanceof HTMLDetailsElement) {
+        return el.open;
+      }
+      if (el.tagName === "SUMMARY" && el.parentElement instanceof HTMLDetailsElement) {
+        return el.parentElement.open;
+      }
+      const state = ariaState(el, "aria-expanded");
+      return state === undefined ? undefined : state === true;
+    };
+
     const cssPath = (el: Element): string => {
       const build = (node: Element): string => {
         const tag = node.tagName.toLowerCase();
@@ -205,7 +355,8 @@ export async function takeDomSnapshot(
           return `${tag}#${CSS.escape(id)}`;
         }
 
-        const parent = node.parentElement;
+        const parent =
+          node.parentElement ?? (node.parentNode instanceof ShadowRoot ? node.parentNode : null);
         if (!parent) {
           return tag;
         }
@@ -221,6 +372,20 @@ export async function takeDomSnapshot(
         return `${tag}:nth-of-type(${index})`;
       };
 
+      const root = el.getRootNode();
+      if (root instanceof ShadowRoot) {
+        const shadowParts: string[] = [];
+        let current: Element | null = el;
+        while (current) {
+          shadowParts.unshift(build(current));
+          if (sanitize(current.getAttribute("id"))) {
+            break;
+          }
+          current = current.parentElement;
+        }
+        return `${cssPath(root.host)} >> ${shadowParts.join(" > ")}`;
+      }
+
       const parts: string[] = [];
       let current: Element | null = el;
 
@@ -331,7 +496,27 @@ export async function takeDomSnapshot(
       return attrs;
     };
 
-    const allElements = Array.from(document.querySelectorAll("*"));
+    const allElements: Element[] = [];
+    const collectElements = (root: Document | ShadowRoot) => {
+      for (const el of Array.from(root.querySelectorAll("*"))) {
+        allElements.push(el);
+        if (el.shadowRoot) {
+          collectElements(el.shadowRoot);
+        }
+      }
+    };
+    collectElements(document);
+
+    const frameHosts: Record<string, string> = {};
+    for (const host of allElements.filter((el) => el.tagName === "IFRAME" || el.tagName === "FRAME")) {
+      let hostId = runtime.nodeIds.get(host);
+      if (!hostId) {
+        hostId = `node_${runtime.nextId++}`;
+        runtime.nodeIds.set(host, hostId);
+      }
+      frameHosts[hostId] = cssPath(host).replace(/^body > (?=[^>]*#)/, "");
+    }
+
     const nodes: RawNode[] = [];
 
     for (const el of allElements) {
@@ -369,6 +554,10 @@ export async function takeDomSnapshot(
         continue;
       }
 
+      const checked = checkedState(el);
+      const selected = selectedState(el);
+      const expanded = expandedState(el);
+
       nodes.push({
         id: nodeId,
         stableRef: resolveStableRef(el, role, name, path),
@@ -388,7 +577,10 @@ export async function takeDomSnapshot(
           height: rect.height
         },
         path,
-        attributes: attributesForElement(el)
+        attributes: attributesForElement(el),
+        ...(checked !== undefined ? { checked } : {}),
+        ...(selected !== undefined ? { selected } : {}),
+        ...(expanded !== undefined ? { expanded } : {})
       });
 
       if (nodes.length >= snapshotOptions.maxNodes) {
@@ -403,28 +595,97 @@ export async function takeDomSnapshot(
         width: window.innerWidth,
         height: window.innerHeight
       },
-      nodes
+      nodes,
+      frameHosts
     };
-  }, effective);
+  }, options);
+}
 
-  const hashInput = raw.nodes
-    .map((node) => `${node.id}|${node.stableRef}|${node.visible}|${node.enabled}|${node.text}|${node.value}`)
-    .join("\n");
-  const domHash = createHash("sha1").update(hashInput).digest("hex").slice(0, 16);
+async function appendChildFrameNodes(
+  parent: Frame,
+  frameHosts: Record<string, string>,
+  parentFramePath: string[],
+  options: Required<SnapshotOptions>,
+  nodes: RawNode[]
+): Promise<void> {
+  for (const child of parent.childFrames()) {
+    if (nodes.length >= options.maxNodes) {
+      return;
+    }
+    if (child.isDetached()) {
+      continue;
+    }
 
-  const snapshot: DomSnapshot = {
-    snapshotId: randomUUID(),
-    timestamp: Date.now(),
-    url: raw.url,
-    title: raw.title,
-    domHash,
-    viewport: raw.viewport,
-    nodeCount: raw.nodes.length,
-    interactiveCount: raw.nodes.filter((node) => node.interactive).length,
-    nodes: raw.nodes as AgentNode[]
-  };
+    try {
+      const host = await child.frameElement();
+      const hostId = await host.evaluate(
+        (element) =>
+          (
+            window as unknown as {
+              __agentNodeRuntime?: { nodeIds: WeakMap<Element, string> };
+            }
+          ).__agentNodeRuntime?.nodeIds.get(element as Element) ?? ""
+      );
+      const hostPath = frameHosts[hostId];
+      if (!hostPath) {
+        continue;
+      }
 
-  return snapshot;
+      const hostBox = await host.boundingBox();
+      const hostBorder = await host.evaluate((element) => ({
+        left: (element as Element).clientLeft,
+        top: (element as Element).clientTop
+      }));
+      const framePath = [...parentFramePath, hostPath];
+      const idPrefix = framePrefix(framePath);
+      snapshotFramePaths.set(child, framePath);
+      const frameSnapshot = await evaluateFrameSnapshot(child, {
+        ...options,
+        maxNodes: options.maxNodes - nodes.length
+      });
+
+      for (const node of frameSnapshot.nodes) {
+        nodes.push({
+          ...node,
+          id: `${idPrefix}:${node.id}`,
+          visible: node.visible && hostBox !== null,
+          boundingBox: {
+            x: node.boundingBox.x + (hostBox?.x ?? 0) + hostBorder.left,
+            y: node.boundingBox.y + (hostBox?.y ?? 0) + hostBorder.top,
+            width: node.boundingBox.width,
+            height: node.boundingBox.height
+          },
+          framePath
+        });
+      }
+
+      await appendChildFrameNodes(child, frameSnapshot.frameHosts, framePath, options, nodes);
+    } catch {
+      // Ignore frames that navigate or detach while the snapshot is taken.
+    }
+  }
+}
+
+// The frame path each frame had in the latest snapshot that reached it, for callers holding a Frame.
+export function snapshotFramePath(frame: Frame): string[] | undefined {
+  return frame.parentFrame() === null ? [] : snapshotFramePaths.get(frame);
+}
+
+function framePrefix(framePath: string[]): string {
+  return `frame_${createHash("sha1").update(framePath.join("\n")).digest("hex").slice(0, 8)}`;
+}
+
+// Frame host paths can contain the " >> " shadow-root separator, so candidate labels carry them JSON-encoded.
+export function frameLabelPrefix(framePath: string[] | undefined): string {
+  if (!framePath || framePath.length === 0) {
+    return "";
+  }
+  return `frame:${JSON.stringify(framePath)} | `;
+}
+
+export function parseFrameLabel(label: string): { framePath?: string[]; rest: string } {
+  const encoded = /^frame:(\[(?:"(?:[^"\\]|\\.)*"(?:,"(?:[^"\\]|\\.)*")*)?\]) \| (.*)$/s.exec(label);
+  return encoded ? { framePath: JSON.parse(encoded[1]) as string[], rest: encoded[2] } : { rest: label };
 }
 
 export function diffSnapshots(before: DomSnapshot, after: DomSnapshot): DomDiff {
@@ -464,6 +725,14 @@ export function diffSnapshots(before: DomSnapshot, after: DomSnapshot): DomDiff
     if (node.name !== next.name) {
       changes.push({ field: "name", before: node.name, after: next.name } as const);
     }
+    // An element that drops its aria-* state attribute reads as unset, i.e. false.
+    for (const field of ["checked", "selected", "expanded"] as const) {
+      const previous = node[field] ?? false;
+      const current = next[field] ?? false;
+      if (previous !== current) {
+        changes.push({ field, before: previous, after: current });
+      }
+    }
 
     if (changes.length > 0) {
       changed.push({
@@ -499,7 +768,11 @@ export function tokenOptimizedSnapshot(snapshot: DomSnapshot): Record<string, un
       text: node.text.slice(0, 80),
       visible: node.visible,
       enabled: node.enabled,
-      interactive: node.interactive
+      interactive: node.interactive,
+      checked: node.checked,
+      selected: node.selected,
+      expanded: node.expanded,
+      frame: node.framePath
     }));
 
   return {
@@ -556,6 +829,10 @@ export function createAgentPageDescription(
         enabled: node.enabled,
         interactive: node.interactive,
         location: describeLocation(node.boundingBox, snapshot.viewport.width, snapshot.viewport.height),
+        framePath: node.framePath,
+        checked: node.checked,
+        selected: node.selected,
+        expanded: node.expanded,
         suggestedActions: suggestedActionsForNode(node),
         confidenceScore: confidence.score,
         confidenceReasons: confidence.reasons
@@ -591,6 +868,10 @@ function suggestedActionsForNode(node: AgentNode): SuggestedAction[] {
     actions.add("select");
   }
 
+  if (node.role === "checkbox" || node.role === "radio" || node.role === "switch") {
+    actions.add("check");
+  }
+
   if (node.interactive) {
     actions.add("click");
   }
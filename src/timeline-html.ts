@@ -1,6 +1,6 @@
 import { mkdir, writeFile } from "node:fs/promises";
 import { basename, join, resolve } from "node:path";
-import { getTraceTimeline, loadSavedTrace } from "./trace.js";
+import { formatBlockPath, getTraceTimeline, loadSavedTrace } from "./trace.js";
 import type { TraceTimelineEntry } from "./types.js";
 
 export interface TimelineHtmlOptions {
@@ -64,6 +64,15 @@ export function buildTimelineHtmlDocument(input: {
             `target=${entry.target.name || entry.target.stableRef || entry.target.role || entry.target.nodeId || "(unknown)"}`
           )}</div>`
         : "";
+      const blockSummary = entry.block
+        ? `<div class="control-note">${escapeHtml(`block=${formatBlockPath(entry.block)}`)}</div>`
+        : "";
+      const dialogSummary = (entry.dialogs ?? [])
+        .map(
+          (dialog) =>
+            `<div class="control-note">${escapeHtml(`dialog=${dialog.dialogType} ${dialog.outcome}: ${dialog.message}`)}</div>`
+        )
+        .join("");
 
       return `
       <tr data-status="${escapeHtml(entry.status)}" data-action="${escapeHtml(entry.actionType)}" data-index="${entry.index}">
@@ -73,7 +82,7 @@ export function buildTimelineHtmlDocument(input: {
         <td>${entry.durationMs}ms</td>
         <td>${entry.eventCount}</td>
         <td>${entry.domDiffSummary.added}/${entry.domDiffSummary.removed}/${entry.domDiffSummary.changed}</td>
-        <td title="${escapeHtml(entry.postUrl)}">${escapeHtml(truncate(entry.postUrl, 70))}${controlSummary}${targetSummary}</td>
+        <td title="${escapeHtml(entry.postUrl)}">${escapeHtml(truncate(entry.postUrl, 70))}${controlSummary}${targetSummary}${blockSummary}${dialogSummary}</td>
         <td>${screenshot}</td>
       </tr>
       <tr class="preview-row" data-preview-status="${escapeHtml(entry.status)}" data-preview-action="${escapeHtml(entry.actionType)}" data-preview-for="${entry.index}">
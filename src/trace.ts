@@ -1,6 +1,6 @@
 import { readFile } from "node:fs/promises";
 import { resolve } from "node:path";
-import type { DomDiffSummary, SavedTrace, TraceTimelineEntry } from "./types.js";
+import type { ActionBlockFrame, DomDiffSummary, SavedTrace, TraceTimelineEntry } from "./types.js";
 
 const EMPTY_DIFF: DomDiffSummary = {
   added: 0,
@@ -30,6 +30,20 @@ export function getTraceTimeline(trace: SavedTrace): TraceTimelineEntry[] {
     postUrl: record.result.postUrl ?? "",
     postDomHash: record.result.postDomHash,
     domDiffSummary: EMPTY_DIFF,
-    eventCount: record.result.eventCount ?? 0
+    eventCount: record.result.eventCount ?? 0,
+    capturedScreenshotPath: record.result.capturedScreenshotPath,
+    dialogs: record.result.dialogs,
+    block: record.block
   }));
 }
+
+export function formatBlockPath(frames: ActionBlockFrame[]): string {
+  return frames
+    .map((frame) => {
+      const label = frame.label ? `(${frame.label})` : "";
+      const iteration = frame.iteration !== undefined ? `#${frame.iteration}` : "";
+      const branch = frame.branch ? `:${frame.branch}` : "";
+      return `${frame.kind}${label}${iteration}${branch}`;
+    })
+    .join(" > ");
+}
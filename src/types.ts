@@ -20,6 +20,10 @@ export interface AgentNode {
   boundingBox: BoundingBox;
   path: string;
   attributes: Record<string, string>;
+  framePath?: string[];
+  checked?: boolean | "mixed";
+  selected?: boolean;
+  expanded?: boolean;
 }
 
 export interface DomSnapshot {
@@ -38,7 +42,7 @@ export interface DomSnapshot {
 }
 
 export interface NodeChange {
-  field: "text" | "value" | "visible" | "enabled" | "name";
+  field: "text" | "value" | "visible" | "enabled" | "name" | "checked" | "selected" | "expanded";
   before: string | boolean;
   after: string | boolean;
 }
@@ -99,7 +103,22 @@ export interface NetworkEvent extends BaseEvent {
   failureText?: string;
 }
 
-export type ObserverEvent = ConsoleEvent | PageErrorEvent | NetworkEvent;
+export type DialogType = "alert" | "confirm" | "prompt" | "beforeunload";
+
+export type DialogPolicy = "accept" | "dismiss" | "manual";
+
+export interface DialogEvent extends BaseEvent {
+  kind: "dialog";
+  dialogType: DialogType;
+  message: string;
+  defaultValue?: string;
+  pageUrl?: string;
+  outcome: "accepted" | "dismissed" | "pending";
+  handledBy?: "policy" | "handleDialog";
+  promptText?: string;
+}
+
+export type ObserverEvent = ConsoleEvent | PageErrorEvent | NetworkEvent | DialogEvent;
 
 export interface PerformanceMetrics {
   domContentLoadedMs: number | null;
@@ -152,12 +171,69 @@ export type NodeTarget =
       kind: "roleName";
       role: string;
       name: string;
+      match?: "exact" | "fuzzy";
+      synonyms?: string[];
+      minScore?: number;
     }
   | {
       kind: "css";
       selector: string;
+      framePath?: string[];
+    }
+  | {
+      kind: "text";
+      text: string;
+      match?: "exact" | "substring" | "regex";
+    }
+  | {
+      kind: "label";
+      text: string;
+      exact?: boolean;
+    }
+  | {
+      kind: "placeholder";
+      text: string;
+      exact?: boolean;
+    }
+  | {
+      kind: "testId";
+      value: string;
+    }
+  | {
+      kind: "xpath";
+      expression: string;
+      framePath?: string[];
+    }
+  | {
+      kind: "within";
+      scope: NodeTarget;
+      target: NodeTarget;
+    }
+  | {
+      kind: "nth";
+      index: number;
+      target: NodeTarget;
+    }
+  | {
+      kind: "near";
+      anchor: NodeTarget;
+      target: NodeTarget;
+      maxDistance?: number;
     };
 
+export interface TargetSelection {
+  kind: "within" | "nth" | "near";
+  matchCount: number;
+  selectedIndex: number;
+  distance?: number;
+}
+
+export interface NameMatch {
+  score: number;
+  matchedName: string;
+  query: string;
+}
+
 export interface NavigateAction {
   type: "navigate";
   url: string;
@@ -165,6 +241,24 @@ export interface NavigateAction {
   timeoutMs?: number;
 }
 
+export interface GoBackAction {
+  type: "goBack";
+  waitUntil?: "load" | "domcontentloaded" | "networkidle";
+  timeoutMs?: number;
+}
+
+export interface GoForwardAction {
+  type: "goForward";
+  waitUntil?: "load" | "domcontentloaded" | "networkidle";
+  timeoutMs?: number;
+}
+
+export interface ReloadAction {
+  type: "reload";
+  waitUntil?: "load" | "domcontentloaded" | "networkidle";
+  timeoutMs?: number;
+}
+
 export interface ClickAction {
   type: "click";
   nodeId?: string;
@@ -188,9 +282,167 @@ export interface SelectAction {
   timeoutMs?: number;
 }
 
+export interface CheckAction {
+  type: "check";
+  nodeId?: string;
+  target?: NodeTarget;
+  timeoutMs?: number;
+}
+
+export interface UncheckAction {
+  type: "uncheck";
+  nodeId?: string;
+  target?: NodeTarget;
+  timeoutMs?: number;
+}
+
+export interface SetCheckedAction {
+  type: "setChecked";
+  checked: boolean;
+  nodeId?: string;
+  target?: NodeTarget;
+  timeoutMs?: number;
+}
+
+export interface HoverAction {
+  type: "hover";
+  nodeId?: string;
+  target?: NodeTarget;
+  timeoutMs?: number;
+}
+
+export interface DblclickAction {
+  type: "dblclick";
+  nodeId?: string;
+  target?: NodeTarget;
+  timeoutMs?: number;
+}
+
+export interface ContextClickAction {
+  type: "contextClick";
+  nodeId?: string;
+  target?: NodeTarget;
+  timeoutMs?: number;
+}
+
+export interface ClickAtAction {
+  type: "clickAt";
+  x: number;
+  y: number;
+  nodeId?: string;
+  target?: NodeTarget;
+  viewport?: {
+    width: number;
+    height: number;
+  };
+  button?: "left" | "right" | "middle";
+  clickCount?: number;
+  timeoutMs?: number;
+}
+
+export interface ClickAtSummary {
+  x: number;
+  y: number;
+  viewport: {
+    width: number;
+    height: number;
+  };
+  scaledFrom?: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+}
+
+export interface DragAction {
+  type: "drag";
+  nodeId?: string;
+  target?: NodeTarget;
+  toNodeId?: string;
+  toTarget?: NodeTarget;
+  timeoutMs?: number;
+}
+
+export interface UploadAction {
+  type: "upload";
+  files: string[];
+  nodeId?: string;
+  target?: NodeTarget;
+  timeoutMs?: number;
+}
+
+export interface DownloadAction {
+  type: "download";
+  nodeId?: string;
+  target?: NodeTarget;
+  saveAs?: string;
+  timeoutMs?: number;
+}
+
+export interface DownloadSummary {
+  fileName: string;
+  suggestedFileName: string;
+  url: string;
+  path: string;
+  sizeBytes: number;
+  sha256: string;
+}
+
+export interface ScrollAction {
+  type: "scroll";
+  deltaX?: number;
+  deltaY?: number;
+  to?: "top" | "bottom" | "left" | "right";
+  until?: NodeTarget;
+  maxScrolls?: number;
+  timeoutMs?: number;
+}
+
+export interface ScrollIntoViewAction {
+  type: "scrollIntoView";
+  nodeId?: string;
+  target?: NodeTarget;
+  timeoutMs?: number;
+}
+
+export interface HandleDialogAction {
+  type: "handleDialog";
+  response: "accept" | "dismiss";
+  promptText?: string;
+}
+
 export interface PressAction {
   type: "press";
   key: string;
+  nodeId?: string;
+  target?: NodeTarget;
+  timeoutMs?: number;
+}
+
+export interface TypeAction {
+  type: "type";
+  text: string;
+  nodeId?: string;
+  target?: NodeTarget;
+  delayMs?: number;
+  clearFirst?: boolean;
+  timeoutMs?: number;
+}
+
+export interface KeyDownAction {
+  type: "keyDown";
+  key: string;
+  nodeId?: string;
+  target?: NodeTarget;
+  timeoutMs?: number;
+}
+
+export interface KeyUpAction {
+  type: "keyUp";
+  key: string;
+  nodeId?: string;
+  target?: NodeTarget;
   timeoutMs?: number;
 }
 
@@ -232,9 +484,20 @@ export type AssertCondition =
   | {
       kind: "visual_baseline";
       baselinePath: string;
+      nodeId?: string;
+      target?: NodeTarget;
+      padding?: number;
       maxMismatchRatio?: number;
       threshold?: number;
       diffPath?: string;
+    }
+  | {
+      kind: "download";
+      fileName?: string;
+      fileNameMatches?: string;
+      contentContains?: string;
+      sha256?: string;
+      minSizeBytes?: number;
     };
 
 export interface AssertAction {
@@ -297,6 +560,18 @@ export interface WaitForAction {
 
 export interface SnapshotAction {
   type: "snapshot";
+  nodeId?: string;
+  target?: NodeTarget;
+}
+
+export interface ScreenshotAction {
+  type: "screenshot";
+  nodeId?: string;
+  target?: NodeTarget;
+  padding?: number;
+  fullPage?: boolean;
+  path?: string;
+  timeoutMs?: number;
 }
 
 export interface SetViewportAction {
@@ -333,22 +608,174 @@ export interface CheckpointAction {
   rootDir?: string;
 }
 
-export type Action =
+export interface NewTabAction {
+  type: "newTab";
+  url?: string;
+  waitUntil?: "load" | "domcontentloaded" | "networkidle";
+  timeoutMs?: number;
+}
+
+export interface SwitchTabAction {
+  type: "switchTab";
+  tabId: string;
+}
+
+export interface CloseTabAction {
+  type: "closeTab";
+  tabId?: string;
+}
+
+export interface CaptureAction {
+  type: "capture";
+  name: string;
+  from: "text" | "value" | "attribute" | "url" | "title";
+  nodeId?: string;
+  target?: NodeTarget;
+  attribute?: string;
+  pattern?: string;
+  timeoutMs?: number;
+}
+
+export interface EvaluateAction {
+  type: "evaluate";
+  expression: string;
+  nodeId?: string;
+  target?: NodeTarget;
+  saveAs?: string;
+  maxResultBytes?: number;
+  timeoutMs?: number;
+}
+
+export type ExtractFieldType = "string" | "number" | "boolean";
+
+export type ExtractField = string | { selector: string; type?: ExtractFieldType };
+
+export interface ExtractList {
+  selector: string;
+  fields: Record<string, ExtractField>;
+}
+
+export interface ExtractAction {
+  type: "extract";
+  schema: Record<string, ExtractList>;
+  next?: NodeTarget;
+  maxPages?: number;
+  path?: string;
+  timeoutMs?: number;
+}
+
+export type ExtractedValue = string | number | boolean | null;
+
+export interface ExtractedRow {
+  stableRef?: string;
+  nodeId?: string;
+  page: number;
+  fields: Record<string, ExtractedValue>;
+}
+
+export interface ExtractSummary {
+  path: string;
+  pages: number;
+  rowCount: number;
+  data: Record<string, ExtractedRow[]>;
+}
+
+export interface IncludeAction {
+  type: "include";
+  path: string;
+  params?: Record<string, string>;
+}
+
+export interface IfAction {
+  type: "if";
+  label?: string;
+  match?: "all" | "any";
+  when: LoopPredicate[];
+  then: Action[];
+  else?: Action[];
+}
+
+export interface RepeatAction {
+  type: "repeat";
+  label?: string;
+  times: number;
+  until?: LoopPredicate[];
+  match?: "all" | "any";
+  actions: Action[];
+}
+
+export interface ForEachAction {
+  type: "forEach";
+  label?: string;
+  items: Array<string | Record<string, string>>;
+  as?: string;
+  actions: Action[];
+}
+
+export type ActionBlock = IfAction | RepeatAction | ForEachAction;
+
+export interface ActionBlockFrame {
+  kind: ActionBlock["type"];
+  label?: string;
+  branch?: "condition" | "then" | "else";
+  iteration?: number;
+  vars?: Record<string, string>;
+}
+
+// Set by the script loader on actions read from a file, so relative paths follow the file that wrote them.
+export interface ActionSource {
+  path: string;
+  // JSON pointer of the action in that file, e.g. "/actions/2/then/0"; heal rewrites included steps through it.
+  pointer: string;
+}
+
+export type Action = (
   | NavigateAction
+  | GoBackAction
+  | GoForwardAction
+  | ReloadAction
   | ClickAction
   | FillAction
   | SelectAction
+  | CheckAction
+  | UncheckAction
+  | SetCheckedAction
+  | HoverAction
+  | DblclickAction
+  | ContextClickAction
+  | ClickAtAction
+  | DragAction
+  | UploadAction
+  | DownloadAction
+  | HandleDialogAction
+  | ScrollAction
+  | ScrollIntoViewAction
   | PressAction
+  | TypeAction
+  | KeyDownAction
+  | KeyUpAction
   | PauseAction
   | AssertAction
   | HandleConsentAction
   | HandleLoginAction
   | WaitForAction
   | SnapshotAction
+  | ScreenshotAction
   | SetViewportAction
   | SwitchProfileAction
   | MockRouteAction
-  | CheckpointAction;
+  | CheckpointAction
+  | NewTabAction
+  | SwitchTabAction
+  | CloseTabAction
+  | CaptureAction
+  | EvaluateAction
+  | ExtractAction
+  | IncludeAction
+  | IfAction
+  | RepeatAction
+  | ForEachAction
+) & { source?: ActionSource };
 
 export interface ActionResult {
   actionId: string;
@@ -374,6 +801,19 @@ export interface ActionResult {
     selectedCandidateIndex?: number;
     selectedCandidateLabel?: string;
     attemptedCandidateCount: number;
+    selection?: TargetSelection;
+    nameMatch?: NameMatch;
+  };
+  dragSummary?: {
+    destinationNodeId?: string;
+    destinationBoundingBox?: BoundingBox;
+    destinationSelectorDiagnostics: {
+      targetLabel: string;
+      candidateCount: number;
+      selectedCandidateIndex?: number;
+      selectedCandidateLabel?: string;
+      attemptedCandidateCount: number;
+    };
   };
   pauseSummary?: {
     mode: "enter" | "timeout";
@@ -386,6 +826,36 @@ export interface ActionResult {
     name: string;
     manifestPath: string;
   };
+  captureSummary?: {
+    name: string;
+    value: string;
+  };
+  downloadSummary?: DownloadSummary;
+  screenshotSummary?: {
+    path: string;
+    clip?: BoundingBox;
+  };
+  scopedSnapshot?: DomSnapshot;
+  evaluateSummary?: {
+    value: unknown;
+    sizeBytes: number;
+  };
+  extractSummary?: ExtractSummary;
+  clickAtSummary?: ClickAtSummary;
+  scrollSummary?: {
+    scrollCount: number;
+    scrollX: number;
+    scrollY: number;
+    atEnd: boolean;
+  };
+  block?: ActionBlockFrame[];
+  blockSummary?: {
+    kind: ActionBlock["type"];
+    label?: string;
+    branch?: "then" | "else";
+    iterations?: number;
+    results: ActionResult[];
+  };
   retry?: RetrySummary;
   error?: {
     message: string;
@@ -395,10 +865,14 @@ export interface ActionResult {
 
 export interface TraceRecord {
   action: Action;
+  block?: ActionBlockFrame[];
   result: {
     status: ActionStatus;
+    // Set on asserts evaluated as an if/repeat condition, which are traced as ok whichever way they went.
+    conditionPassed?: boolean;
     postDomHash: string;
     durationMs: number;
+    tabId?: string;
     postUrl?: string;
     postTitle?: string;
     postInteractiveCount?: number;
@@ -408,6 +882,18 @@ export interface TraceRecord {
     selectorFallbackDepth?: number;
     selectorAttemptedCount?: number;
     selectorSelectedCandidate?: string;
+    selectorSelectionKind?: TargetSelection["kind"];
+    selectorMatchCount?: number;
+    selectorMatchIndex?: number;
+    selectorNearDistance?: number;
+    selectorNameScore?: number;
+    selectorMatchedName?: string;
+    clickAtX?: number;
+    clickAtY?: number;
+    clickAtViewportWidth?: number;
+    clickAtViewportHeight?: number;
+    dragDestinationTarget?: string;
+    dragDestinationSelectedCandidate?: string;
     networkErrorCount?: number;
     eventCount?: number;
     errorMessage?: string;
@@ -418,24 +904,75 @@ export interface TraceRecord {
     retryAttemptDurationsMs?: number[];
     checkpointName?: string;
     checkpointManifestPath?: string;
+    capturedName?: string;
+    capturedValue?: string;
+    downloadFileName?: string;
+    downloadPath?: string;
+    downloadSizeBytes?: number;
+    downloadSha256?: string;
+    capturedScreenshotPath?: string;
+    scopedNodeCount?: number;
+    evaluateValue?: string;
+    evaluateSizeBytes?: number;
+    extractPath?: string;
+    extractPages?: number;
+    extractRowCount?: number;
+    dialogs?: TraceDialogSummary[];
   };
 }
 
+export interface TraceDialogSummary {
+  dialogType: DialogType;
+  message: string;
+  outcome: DialogEvent["outcome"];
+  handledBy?: DialogEvent["handledBy"];
+}
+
 export interface TraceEnvironment {
   requiredOrigins: string[];
+  networkArchivePath?: string;
+}
+
+export interface NetworkArchiveEntry {
+  startedAt: string;
+  request: {
+    method: string;
+    url: string;
+    resourceType: string;
+    postData?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    bodyEncoding: "base64";
+  };
+}
+
+export interface NetworkArchive {
+  version: 1;
+  createdAt: string;
+  entries: NetworkArchiveEntry[];
 }
 
+export type NetworkMode = "live" | "playback";
+
+export type NetworkUnmatchedPolicy = "fail" | "passthrough";
+
 export interface TraceTimelineEntry {
   index: number;
   actionType: Action["type"] | "pause_start" | "pause_resume";
   status: ActionStatus;
   durationMs: number;
+  tabId?: string;
   postUrl: string;
   postDomHash: string;
   domDiffSummary: DomDiffSummary;
   eventCount: number;
   screenshotPath?: string;
   annotatedScreenshotPath?: string;
+  capturedScreenshotPath?: string;
   target?: {
     nodeId?: string;
     stableRef?: string;
@@ -443,6 +980,13 @@ export interface TraceTimelineEntry {
     name?: string;
     boundingBox?: BoundingBox;
   };
+  dragDestination?: {
+    nodeId?: string;
+    stableRef?: string;
+    role?: string;
+    name?: string;
+    boundingBox?: BoundingBox;
+  };
   control?: {
     phase: "start" | "resume";
     elapsedMs?: number;
@@ -463,6 +1007,23 @@ export interface TraceTimelineEntry {
     name: string;
     manifestPath: string;
   };
+  capture?: {
+    name: string;
+    value: string;
+  };
+  download?: {
+    fileName: string;
+    path: string;
+    sizeBytes: number;
+    sha256: string;
+  };
+  extract?: {
+    path: string;
+    pages: number;
+    rowCount: number;
+  };
+  dialogs?: TraceDialogSummary[];
+  block?: ActionBlockFrame[];
 }
 
 export interface InterventionJournalEntry {
@@ -505,6 +1066,12 @@ export interface SavedTrace {
   records: TraceRecord[];
 }
 
+export interface TabSummary {
+  tabId: string;
+  url: string;
+  active: boolean;
+}
+
 export interface SavedSession {
   version: 1;
   createdAt: string;
@@ -536,11 +1103,20 @@ export interface AgentSessionOptions {
   maxActionAttempts?: number;
   retryBackoffMs?: number;
   storageStatePath?: string;
+  variables?: Record<string, string>;
+  secrets?: Record<string, string>;
   logRedactionPatterns?: RegExp[];
   logNoiseFiltering?: boolean;
+  recordNetwork?: boolean;
+  dialogPolicy?: DialogPolicy;
+  dialogPromptText?: string;
+  allowEvaluate?: boolean;
+  evaluateMaxResultBytes?: number;
+  networkArchivePath?: string;
+  networkUnmatched?: NetworkUnmatchedPolicy;
 }
 
-export type SuggestedAction = "click" | "fill" | "select";
+export type SuggestedAction = "click" | "fill" | "select" | "check";
 
 export interface AgentElementDescription {
   id: string;
@@ -554,6 +1130,10 @@ export interface AgentElementDescription {
   enabled: boolean;
   interactive: boolean;
   location: string;
+  framePath?: string[];
+  checked?: boolean | "mixed";
+  selected?: boolean;
+  expanded?: boolean;
   suggestedActions: SuggestedAction[];
   confidenceScore: number;
   confidenceReasons: string[];
@@ -576,6 +1156,7 @@ export interface AgentPageDescription {
 
 export interface ActionScript {
   settings?: Partial<AgentSessionOptions>;
+  vars?: Record<string, string>;
   actions: Action[];
 }
 
@@ -604,6 +1185,7 @@ export interface LoopBranch {
 
 export interface LoopScript {
   settings?: Partial<AgentSessionOptions>;
+  vars?: Record<string, string>;
   setupActions?: Action[];
   stepAction: Action;
   branches: LoopBranch[];
@@ -704,11 +1286,14 @@ export interface RunArtifactIndex {
     failedActions: number;
   };
   selectorHealthPath?: string;
+  networkArchivePath?: string;
   timelineHtmlPaths: string[];
   bundleManifestPaths: string[];
   visualDiffReportPaths: string[];
   screenshots: string[];
   annotatedScreenshots: string[];
+  downloads: string[];
+  extracts: string[];
   topErrors: Array<{
     message: string;
     count: number;
@@ -717,6 +1302,29 @@ export interface RunArtifactIndex {
   }>;
 }
 
+export interface DataRunRowSummary {
+  index: number;
+  vars: Record<string, string>;
+  status: "passed" | "failed";
+  actions: number;
+  failedActions: number;
+  durationMs: number;
+  tracePath?: string;
+  runIndexPath?: string;
+  error?: string;
+}
+
+export interface DataRunSummary {
+  version: 1;
+  createdAt: string;
+  scriptPath: string;
+  dataPath: string;
+  totalRows: number;
+  passedRows: number;
+  failedRows: number;
+  rows: DataRunRowSummary[];
+}
+
 export interface ReplayReport {
   tracePath: string;
   mode: ReplayMode;
@@ -732,9 +1340,16 @@ export interface ReplayReport {
     selectorChecks: number;
     selectorMismatches: number;
   };
+  network?: {
+    mode: "playback";
+    archivePath: string;
+    unmatchedPolicy: NetworkUnmatchedPolicy;
+    served: number;
+    unmatched: string[];
+  };
   mismatches: Array<{
     index: number;
-    reason: "dom_hash" | "status" | "url" | "selector_invariant";
+    reason: "dom_hash" | "status" | "url" | "selector_invariant" | "tab";
     expected: string;
     actual: string;
     actionType: Action["type"];
@@ -748,6 +1363,8 @@ export interface ReplayOptions {
   preflight?: boolean;
   preflightTimeoutMs?: number;
   selectorInvariants?: boolean;
+  network?: NetworkMode;
+  networkUnmatched?: NetworkUnmatchedPolicy;
 }
 
 export interface FlakeReport {
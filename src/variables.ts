@@ -0,0 +1,153 @@
+export type VariableNamespace = "env" | "secret" | "vars" | "params";
+
+export interface ScriptVariableSources {
+  vars?: Record<string, string>;
+  secrets?: Record<string, string>;
+  env?: Record<string, string | undefined>;
+}
+
+export const SECRET_PLACEHOLDER = "[REDACTED]";
+export const SECRET_ENV_PREFIX = "SAZEN_SECRET_";
+
+const PLACEHOLDER_PATTERN = /\$\{(env|secret|vars|params)\.([A-Za-z_][A-Za-z0-9_]*)\}/g;
+const ANY_NAMESPACED_PLACEHOLDER = /\$\{([a-z]+)\.([A-Za-z_][A-Za-z0-9_]*)\}/g;
+const PARAM_PLACEHOLDER = /\$\{params\.([A-Za-z_][A-Za-z0-9_]*)\}/g;
+const SUPPORTED_NAMESPACES = new Set<string>(["env", "secret", "vars", "params"]);
+
+export class ScriptVariables {
+  private readonly vars = new Map<string, string>();
+  private readonly secretValues = new Set<string>();
+
+  constructor(private readonly sources: ScriptVariableSources = {}) {
+    for (const [name, value] of Object.entries(sources.vars ?? {})) {
+      this.vars.set(name, value);
+    }
+    for (const value of Object.values(sources.secrets ?? {})) {
+      if (value.length > 0) {
+        this.secretValues.add(value);
+      }
+    }
+  }
+
+  set(name: string, value: string): void {
+    this.vars.set(name, value);
+  }
+
+  get(name: string): string | undefined {
+    return this.vars.get(name);
+  }
+
+  snapshot(): Record<string, string> {
+    return Object.fromEntries(this.vars);
+  }
+
+  secretsInUse(): string[] {
+    return [...this.secretValues];
+  }
+
+  interpolate<T>(value: T): T {
+    return mapStrings(value, (input) => this.interpolateString(input));
+  }
+
+  interpolateString(input: string): string {
+    return input.replace(PLACEHOLDER_PATTERN, (_match, namespace: VariableNamespace, name: string) =>
+      this.resolve(namespace, name)
+    );
+  }
+
+  redact<T>(value: T): T {
+    if (this.secretValues.size === 0) {
+      return value;
+    }
+    return mapStrings(value, (input) => this.redactString(input));
+  }
+
+  redactString(input: string): string {
+    let output = input;
+    // Longest first so a secret that contains another secret is masked whole.
+    const secrets = [...this.secretValues].sort((left, right) => right.length - left.length);
+    for (const secret of secrets) {
+      output = output.split(secret).join(SECRET_PLACEHOLDER);
+    }
+    return output;
+  }
+
+  private resolve(namespace: VariableNamespace, name: string): string {
+    if (namespace === "params") {
+      throw new Error(`Parameter 'params.${name}' is only available inside scripts pulled in by an include action`);
+    }
+
+    if (namespace === "vars") {
+      const value = this.vars.get(name);
+      if (value === undefined) {
+        throw new Error(`Unknown variable 'vars.${name}'. Define it in script vars, --vars, or a capture action.`);
+      }
+      return value;
+    }
+
+    const env = this.sources.env ?? process.env;
+    if (namespace === "env") {
+      const value = env[name];
+      if (value === undefined) {
+        throw new Error(`Environment variable '${name}' is not set`);
+      }
+      return value;
+    }
+
+    const value = this.sources.secrets?.[name] ?? env[`${SECRET_ENV_PREFIX}${name}`];
+    if (value === undefined) {
+      throw new Error(
+        `Unknown secret '${name}'. Provide it with --secrets-file or the ${SECRET_ENV_PREFIX}${name} environment variable.`
+      );
+    }
+    if (value.length > 0) {
+      this.secretValues.add(value);
+    }
+    return value;
+  }
+}
+
+export function findUnsupportedPlaceholders(value: unknown): string[] {
+  const unsupported: string[] = [];
+  mapStrings(value, (input) => {
+    for (const match of input.matchAll(ANY_NAMESPACED_PLACEHOLDER)) {
+      if (!SUPPORTED_NAMESPACES.has(match[1])) {
+        unsupported.push(match[0]);
+      }
+    }
+    return input;
+  });
+  return unsupported;
+}
+
+export function substituteParams<T>(value: T, params: Record<string, string>, source: string): T {
+  return mapStrings(value, (input) =>
+    input.replace(PARAM_PLACEHOLDER, (_match, name: string) => {
+      const param = params[name];
+      if (param === undefined) {
+        throw new Error(`Missing include parameter 'params.${name}' in '${source}'`);
+      }
+      return param;
+    })
+  );
+}
+
+function mapStrings<T>(value: T, map: (input: string) => string): T {
+  if (typeof value === "string") {
+    return map(value) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => mapStrings(item, map)) as T;
+  }
+
+  if (value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    const output: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      output[key] = mapStrings(item, map);
+    }
+    return output as T;
+  }
+
+  return value;
+}
@@ -66,4 +66,47 @@ describe("screenshot annotation", () => {
       await rm(dir, { recursive: true, force: true });
     }
   });
+
+  it("marks the exact point of a coordinate click without a target", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "sazen-annotate-point-"));
+    const screenshotPath = join(dir, "base.png");
+
+    try {
+      const image = new PNG({ width: 120, height: 80 });
+      image.data.fill(255);
+      await writeFile(screenshotPath, PNG.sync.write(image));
+
+      const snapshot: DomSnapshot = {
+        snapshotId: "snap",
+        timestamp: Date.now(),
+        url: "https://example.com",
+        title: "Example",
+        domHash: "hash",
+        viewport: { width: 120, height: 80 },
+        nodeCount: 0,
+        interactiveCount: 0,
+        nodes: []
+      };
+
+      const annotatedPath = await annotateActionScreenshot({
+        screenshotPath,
+        action: { type: "clickAt", x: 30, y: 40 },
+        clickPoint: { x: 30, y: 40 },
+        snapshot
+      });
+
+      const annotated = PNG.sync.read(await readFile(annotatedPath as string));
+      const pixel = (x: number, y: number) => [...annotated.data.subarray((120 * y + x) * 4, (120 * y + x) * 4 + 3)];
+      expect(pixel(30, 40)).toEqual([236, 72, 153]);
+      expect(pixel(38, 40)).toEqual([236, 72, 153]);
+      expect(pixel(30, 32)).toEqual([236, 72, 153]);
+      expect(pixel(60, 40)).toEqual([255, 255, 255]);
+
+      expect(
+        await annotateActionScreenshot({ screenshotPath, action: { type: "clickAt", x: 1, y: 1 }, snapshot })
+      ).toBeUndefined();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
 });
@@ -0,0 +1,220 @@
+import { describe, expect, it } from "vitest";
+import { buildPlaywrightSpec, candidateLabelToLocator } from "../src/codegen.js";
+import { record, traceOf } from "./helpers/traces.js";
+
+describe("playwright codegen", () => {
+  it("maps selector candidate labels to Playwright locators", () => {
+    expect(candidateLabelToLocator("testId:submit", "page")).toBe('page.getByTestId("submit").first()');
+    expect(candidateLabelToLocator("id:login-form", "page")).toBe('page.locator("#login-form").first()');
+    expect(candidateLabelToLocator("input[name=email]", "page")).toBe(
+      'page.locator("input[name=\\"email\\"]").first()'
+    );
+    expect(candidateLabelToLocator("role:button name:Sign in", "page")).toBe(
+      'page.getByRole("button", { name: "Sign in" }).first()'
+    );
+    expect(candidateLabelToLocator("getByRole(link, Docs, exact=true)", "page")).toBe(
+      'page.getByRole("link", { name: "Docs", exact: true }).first()'
+    );
+    expect(candidateLabelToLocator('frame:["iframe#payment-frame"] | role:button name:Pay now', "tab2")).toBe(
+      'tab2.frameLocator("iframe#payment-frame").getByRole("button", { name: "Pay now" }).first()'
+    );
+    expect(candidateLabelToLocator('frame:["pay-widget >> iframe","iframe#card"] | css:#number', "page")).toBe(
+      'page.frameLocator("pay-widget >> iframe").frameLocator("iframe#card").locator("#number").first()'
+    );
+    expect(candidateLabelToLocator("getByText(Add to cart, exact=true)", "page")).toBe(
+      'page.getByText("Add to cart", { exact: true }).first()'
+    );
+    expect(candidateLabelToLocator("getByText(/^Order #\\d+$/)", "page")).toBe(
+      'page.getByText(new RegExp("^Order #\\\\d+$")).first()'
+    );
+    expect(candidateLabelToLocator("getByLabel(Email, exact=false)", "page")).toBe('page.getByLabel("Email").first()');
+    expect(candidateLabelToLocator("getByPlaceholder(Search, exact=true)", "page")).toBe(
+      'page.getByPlaceholder("Search", { exact: true }).first()'
+    );
+    expect(candidateLabelToLocator("xpath://li[2]/button", "page")).toBe('page.locator("xpath=//li[2]/button").first()');
+    expect(candidateLabelToLocator("mystery", "page")).toBeUndefined();
+  });
+
+  it("falls back to text, label, placeholder, test id and xpath targets without a recorded candidate", () => {
+    const spec = buildPlaywrightSpec(
+      traceOf([
+        record({ type: "click", target: { kind: "text", text: "Add to cart", match: "exact" } }),
+        record({ type: "fill", value: "agent", target: { kind: "label", text: "Username" } }),
+        record({ type: "fill", value: "lamp", target: { kind: "placeholder", text: "Search", exact: true } }),
+        record({ type: "click", target: { kind: "testId", value: "checkout" } }),
+        record({ type: "click", target: { kind: "xpath", expression: "//nav//a[last()]", framePath: ["#shell"] } })
+      ]),
+      { testName: "text-targets" }
+    );
+
+    expect(spec.skippedSteps).toBe(0);
+    expect(spec.source).toContain('await page.getByText("Add to cart", { exact: true }).first().click();');
+    expect(spec.source).toContain('await page.getByLabel("Username").first().fill("agent");');
+    expect(spec.source).toContain('await page.getByPlaceholder("Search", { exact: true }).first().fill("lamp");');
+    expect(spec.source).toContain('await page.getByTestId("checkout").first().click();');
+    expect(spec.source).toContain(
+      'await page.frameLocator("#shell").locator("xpath=//nav//a[last()]").first().click();'
+    );
+  });
+
+  it("renders a spec with locators, expectations, popups and skipped steps", () => {
+    const trace = traceOf([
+      record({ type: "navigate", url: "http://127.0.0.1:4173/" }),
+      record(
+        { type: "fill", value: "agent@example.com", target: { kind: "roleName", role: "textbox", name: "Email" } },
+        { selectorSelectedCandidate: "input[name=email]" }
+      ),
+      record({ type: "click", target: { kind: "roleName", role: "button", name: "Sign in" } }),
+      record({ type: "assert", condition: { kind: "url_contains", value: "/dashboard?tab=1" } }),
+      record({ type: "waitFor", condition: { kind: "selector", selector: "#spinner", state: "hidden" } }),
+      record({ type: "snapshot" }),
+      record(
+        { type: "click", target: { kind: "stableRef", value: "ref_popup" } },
+        { selectorSelectedCandidate: "id:open-popup", tabId: "tab_2" }
+      ),
+      record({ type: "assert", condition: { kind: "title_contains", value: "Popup" } }, { tabId: "tab_2" }),
+      record({ type: "click", nodeId: "n_12" }, { status: "failed" })
+    ]);
+
+    const spec = buildPlaywrightSpec(trace, { testName: "checkout" });
+
+    expect(spec.exportedSteps).toBe(7);
+    expect(spec.skippedSteps).toBe(2);
+    expect(spec.source).toContain('import { expect, test } from "@playwright/test";');
+    expect(spec.source).toContain('test("checkout", async ({ page, context }) => {');
+    expect(spec.source).toContain('await page.goto("http://127.0.0.1:4173/");');
+    expect(spec.source).toContain('await page.locator("input[name=\\"email\\"]").first().fill("agent@example.com");');
+    expect(spec.source).toContain('await page.getByRole("button", { name: "Sign in" }).first().click();');
+    expect(spec.source).toContain("await expect(page).toHaveURL(/\\/dashboard\\?tab=1/);");
+    expect(spec.source).toContain('await expect(page.locator("#spinner").first()).toBeHidden();');
+    expect(spec.source).toContain("// 6. snapshot skipped: snapshots have no Playwright Test equivalent");
+    expect(spec.source).toContain('const tab2Promise = context.waitForEvent("page");');
+    expect(spec.source).toContain('await page.locator("#open-popup").first().click();');
+    expect(spec.source).toContain("await expect(tab2).toHaveTitle(/Popup/);");
+    expect(spec.source).toContain("// 9. click skipped: recorded status was failed");
+  });
+
+  it("renders history navigation and toggle steps", () => {
+    const spec = buildPlaywrightSpec(
+      traceOf([
+        record({ type: "goBack" }),
+        record({ type: "goForward", waitUntil: "load" }),
+        record({ type: "reload" }),
+        record({ type: "setChecked", checked: false, target: { kind: "css", selector: "#terms" } }),
+        record({ type: "screenshot", target: { kind: "css", selector: "#plan" }, path: "shots/plan.png" }),
+        record({ type: "screenshot", target: { kind: "css", selector: "#plan" }, padding: 8 })
+      ]),
+      { testName: "history" }
+    );
+
+    expect(spec.source).toContain("await page.goBack();");
+    expect(spec.source).toContain('await page.goForward({ waitUntil: "load" });');
+    expect(spec.source).toContain("await page.reload();");
+    expect(spec.source).toContain('await page.locator("#terms").first().setChecked(false);');
+    expect(spec.source).toContain('await page.locator("#plan").first().screenshot({ path: "shots/plan.png" });');
+    expect(spec.source).toContain("padded element screenshots have no Playwright Test equivalent");
+  });
+
+  it("renders coordinate clicks from the recorded point or as positioned locator clicks", () => {
+    const spec = buildPlaywrightSpec(
+      traceOf([
+        record(
+          { type: "clickAt", x: 280, y: 220, viewport: { width: 1600, height: 1200 } },
+          { clickAtX: 140, clickAtY: 110 }
+        ),
+        record({ type: "clickAt", x: 10, y: 20, button: "right", target: { kind: "css", selector: "#board" } })
+      ]),
+      { testName: "canvas" }
+    );
+
+    expect(spec.source).toContain("await page.mouse.click(140, 110);");
+    expect(spec.source).toContain(
+      'await page.locator("#board").first().click({ position: { x: 10, y: 20 }, button: "right" });'
+    );
+  });
+
+  it("reads secret placeholders from the environment instead of writing them into the spec", () => {
+    const spec = buildPlaywrightSpec(
+      traceOf([
+        record({ type: "fill", target: { kind: "css", selector: "#password" }, value: "${secret.PASSWORD}" }),
+        record({ type: "type", target: { kind: "css", selector: "#otp" }, text: "code-${secret.OTP}`" })
+      ]),
+      { testName: "secrets" }
+    );
+
+    expect(spec.source).toContain(
+      'await page.locator("#password").first().fill(`${process.env.SAZEN_SECRET_PASSWORD}`);'
+    );
+    expect(spec.source).toContain(
+      'await page.locator("#otp").first().pressSequentially(`code-${process.env.SAZEN_SECRET_OTP}\\``);'
+    );
+    expect(spec.source).not.toContain("${secret.");
+  });
+
+  it("inlines script vars recorded in the trace and reads env placeholders from the environment", () => {
+    const trace = traceOf([
+      record({ type: "navigate", url: "${env.BASE_URL}/login" }),
+      record({ type: "fill", target: { kind: "css", selector: "#email" }, value: "${vars.email}" }),
+      record({ type: "select", target: { kind: "css", selector: "#plan" }, value: "${vars.plan}" })
+    ]);
+    trace.options = { variables: { email: "ada@example.com" } };
+    const spec = buildPlaywrightSpec(trace, { testName: "placeholders" });
+
+    expect(spec.source).toContain("await page.goto(`${process.env.BASE_URL}/login`);");
+    expect(spec.source).toContain('await page.locator("#email").first().fill(`ada@example.com`);');
+    expect(spec.source).toContain("// 3. select skipped: vars.plan has no usable value recorded in the trace");
+    expect(spec.source).not.toMatch(/\$\{(env|vars)\./);
+  });
+
+  it("inlines the item recorded for each forEach iteration", () => {
+    const step = (item: string, iteration: number) => ({
+      ...record({ type: "fill", target: { kind: "css", selector: "#search" }, value: "${vars.fruit} pie" }),
+      block: [{ kind: "forEach" as const, iteration, vars: { fruit: item } }]
+    });
+    const spec = buildPlaywrightSpec(
+      traceOf([
+        step("apple", 1),
+        step("pear", 2),
+        record({ type: "assert", condition: { kind: "title_contains", value: "${vars.fruit}" } })
+      ]),
+      { testName: "loop items" }
+    );
+
+    expect(spec.source).toContain('await page.locator("#search").first().fill(`apple pie`);');
+    expect(spec.source).toContain('await page.locator("#search").first().fill(`pear pie`);');
+    expect(spec.source).toContain("await expect.poll(() => page.title()).toContain(`pear`);");
+    expect(spec.source).not.toContain("process.env");
+  });
+
+  it("inlines vars set at runtime and passes condition and target text through placeholders", () => {
+    const spec = buildPlaywrightSpec(
+      traceOf([
+        record(
+          { type: "capture", name: "orderId", from: "url", pattern: "orders/(\\d+)" },
+          { capturedName: "orderId", capturedValue: "42" }
+        ),
+        record(
+          { type: "evaluate", expression: "() => ({ total: 3 })", saveAs: "summary" },
+          { evaluateValue: '{"total":3}' }
+        ),
+        record({ type: "evaluate", expression: "() => 'ada'", saveAs: "owner" }, { evaluateValue: '"ada"' }),
+        record({ type: "click", target: { kind: "roleName", role: "link", name: "Order ${vars.orderId}" } }),
+        record({ type: "assert", condition: { kind: "url_contains", value: "/orders/${vars.orderId}" } }),
+        record({
+          type: "assert",
+          condition: { kind: "selector", selector: "#owner", textContains: "${vars.owner} ${vars.summary}" }
+        }),
+        record({ type: "waitFor", condition: { kind: "selector", selector: "[data-region='${env.REGION}']" } })
+      ]),
+      { testName: "runtime vars" }
+    );
+
+    expect(spec.source).toContain('await page.getByRole("link", { name: `Order 42` }).first().click();');
+    expect(spec.source).toContain("await expect.poll(() => page.url()).toContain(`/orders/42`);");
+    expect(spec.source).toContain('await expect(page.locator("#owner").first()).toContainText(`ada {\"total\":3}`);');
+    expect(spec.source).toContain(
+      "await expect(page.locator(`[data-region='${process.env.REGION}']`).first()).toBeVisible();"
+    );
+    expect(spec.source).not.toMatch(/\$\{(env|vars)\./);
+  });
+});
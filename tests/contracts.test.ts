@@ -100,6 +100,121 @@ describe("contracts", () => {
     }
   });
 
+  it("parses text, label, placeholder, test id and xpath targets", () => {
+    const targets = [
+      { kind: "text", text: "Add to cart" },
+      { kind: "text", text: "^Order #\\d+$", match: "regex" },
+      { kind: "label", text: "Email", exact: true },
+      { kind: "placeholder", text: "Search" },
+      { kind: "testId", value: "checkout" },
+      { kind: "xpath", expression: "//button[2]", framePath: ["iframe#shop"] }
+    ];
+    for (const target of targets) {
+      const parsed = parseAction({ type: "click", target });
+      expect(parsed.type === "click" ? parsed.target : undefined).toEqual(target);
+    }
+
+    expect(() => parseAction({ type: "click", target: { kind: "text", text: "" } })).toThrowError();
+    expect(() => parseAction({ type: "click", target: { kind: "text", text: "(", match: "regex" } })).toThrowError(
+      /Invalid text pattern/
+    );
+    expect(() => parseAction({ type: "click", target: { kind: "testId" } })).toThrowError();
+  });
+
+  it("parses nested within, nth, and near targets", () => {
+    const target = {
+      kind: "nth",
+      index: -1,
+      target: {
+        kind: "within",
+        scope: { kind: "testId", value: "cart" },
+        target: {
+          kind: "near",
+          anchor: { kind: "text", text: "Lamp", match: "exact" },
+          target: { kind: "roleName", role: "button", name: "Remove" },
+          maxDistance: 200
+        }
+      }
+    };
+    const parsed = parseAction({ type: "click", target });
+    expect(parsed.type === "click" ? parsed.target : undefined).toEqual(target);
+
+    expect(() =>
+      parseAction({ type: "click", target: { kind: "nth", index: 1.5, target: { kind: "css", selector: "li" } } })
+    ).toThrowError();
+    expect(() =>
+      parseAction({
+        type: "click",
+        target: {
+          kind: "within",
+          scope: { kind: "css", selector: "#cart" },
+          target: { kind: "text", text: "(", match: "regex" }
+        }
+      })
+    ).toThrowError(/Invalid text pattern/);
+    expect(() =>
+      parseAction({
+        type: "click",
+        target: {
+          kind: "near",
+          anchor: { kind: "css", selector: "h2" },
+          target: { kind: "css", selector: "button" },
+          maxDistance: 0
+        }
+      })
+    ).toThrowError();
+  });
+
+  it("parses fuzzy roleName targets with synonyms", () => {
+    const target = {
+      kind: "roleName",
+      role: "button",
+      name: "Sign in",
+      match: "fuzzy",
+      synonyms: ["Log in", "Anmelden"],
+      minScore: 0.6
+    };
+    const parsed = parseAction({ type: "click", target });
+    expect(parsed.type === "click" ? parsed.target : undefined).toEqual(target);
+
+    expect(() =>
+      parseAction({ type: "click", target: { kind: "roleName", role: "button", name: "Sign in", minScore: 0.6 } })
+    ).toThrowError(/minScore only applies/);
+    expect(() =>
+      parseAction({
+        type: "click",
+        target: { kind: "roleName", role: "button", name: "Sign in", match: "fuzzy", minScore: 1.5 }
+      })
+    ).toThrowError();
+  });
+
+  it("parses clickAt actions with viewport and target-relative coordinates", () => {
+    const viewportClick = parseAction({ type: "clickAt", x: 120, y: 48.5, viewport: { width: 1366, height: 768 } });
+    expect(viewportClick).toMatchObject({ type: "clickAt", x: 120, y: 48.5 });
+
+    const relative = parseAction({
+      type: "clickAt",
+      target: { kind: "css", selector: "canvas" },
+      x: -4,
+      y: 10,
+      button: "right",
+      clickCount: 2
+    });
+    expect(relative.type === "clickAt" ? relative.target : undefined).toEqual({ kind: "css", selector: "canvas" });
+
+    expect(() => parseAction({ type: "clickAt", x: -1, y: 10 })).toThrowError(/must not be negative/);
+    expect(() =>
+      parseAction({
+        type: "clickAt",
+        target: { kind: "css", selector: "canvas" },
+        x: 1,
+        y: 1,
+        viewport: { width: 800, height: 600 }
+      })
+    ).toThrowError(/only applies to viewport coordinates/);
+    expect(() => parseAction({ type: "clickAt", x: 1, y: 1, clickCount: 4 })).toThrowError();
+  });
+
   it("parses viewport action", () => {
     const parsed = parseAction({
       type: "setViewport",
@@ -230,6 +345,270 @@ describe("contracts", () => {
     }
   });
 
+  it("parses tab actions", () => {
+    const opened = parseAction({ type: "newTab", url: "http://localhost:4173", waitUntil: "load" });
+    expect(opened.type).toBe("newTab");
+
+    const switched = parseAction({ type: "switchTab", tabId: "tab_2" });
+    expect(switched.type === "switchTab" ? switched.tabId : "").toBe("tab_2");
+
+    const closed = parseAction({ type: "closeTab" });
+    expect(closed.type).toBe("closeTab");
+
+    expect(() => parseAction({ type: "switchTab" })).toThrowError();
+  });
+
+  it("parses pointer actions and requires both drag ends", () => {
+    for (const type of ["hover", "dblclick", "contextClick"] as const) {
+      expect(parseAction({ type, target: { kind: "css", selector: "#menu" } }).type).toBe(type);
+      expect(() => parseAction({ type })).toThrowError("Either nodeId or target is required");
+    }
+
+    const dragged = parseAction({
+      type: "drag",
+      target: { kind: "css", selector: "#card-1" },
+      toTarget: { kind: "roleName", role: "list", name: "Done" }
+    });
+    expect(dragged.type === "drag" ? dragged.toTarget?.kind : "").toBe("roleName");
+
+    expect(() => parseAction({ type: "drag", target: { kind: "css", selector: "#card-1" } })).toThrowError(
+      "Either toNodeId or toTarget is required"
+    );
+  });
+
+  it("parses upload, download, and download asserts", () => {
+    const uploaded = parseAction({ type: "upload", target: { kind: "css", selector: "#file" }, files: ["a.csv"] });
+    expect(uploaded.type === "upload" ? uploaded.files : []).toEqual(["a.csv"]);
+    expect(() => parseAction({ type: "upload", files: ["a.csv"] })).toThrowError("Either nodeId or target is required");
+    expect(() => parseAction({ type: "upload", nodeId: "node_1", files: [] })).toThrowError();
+
+    expect(parseAction({ type: "download" }).type).toBe("download");
+    expect(() => parseAction({ type: "download", saveAs: "../escape.csv" })).toThrowError(
+      "saveAs must be a file name, not a path"
+    );
+
+    const asserted = parseAction({ type: "assert", condition: { kind: "download", contentContains: "total" } });
+    expect(asserted.type === "assert" ? asserted.condition.kind : "").toBe("download");
+    expect(() => parseAction({ type: "assert", condition: { kind: "download" } })).toThrowError(
+      "download assert requires"
+    );
+  });
+
+  it("parses handleDialog actions and dialog policy settings", () => {
+    const handled = parseAction({ type: "handleDialog", response: "accept", promptText: "Renamed" });
+    expect(handled.type === "handleDialog" ? handled.promptText : "").toBe("Renamed");
+    expect(() => parseAction({ type: "handleDialog", response: "ignore" })).toThrowError();
+
+    const script = parseScript({
+      settings: { dialogPolicy: "manual" },
+      actions: [{ type: "navigate", url: "http://localhost:4173" }]
+    });
+    expect(script.settings?.dialogPolicy).toBe("manual");
+    expect(() =>
+      parseScript({ settings: { dialogPolicy: "ignore" }, actions: [{ type: "navigate", url: "http://localhost" }] })
+    ).toThrowError();
+  });
+
+  it("parses scroll actions and rejects ambiguous scroll modes", () => {
+    expect(parseAction({ type: "scroll", deltaY: 400 }).type).toBe("scroll");
+    expect(parseAction({ type: "scroll", to: "bottom" }).type).toBe("scroll");
+    expect(parseAction({ type: "scroll", until: { kind: "css", selector: "#end" }, maxScrolls: 5 }).type).toBe(
+      "scroll"
+    );
+    expect(parseAction({ type: "scrollIntoView", target: { kind: "css", selector: "#end" } }).type).toBe(
+      "scrollIntoView"
+    );
+
+    expect(() => parseAction({ type: "scroll" })).toThrowError("scroll requires deltaX/deltaY, to, or until");
+    expect(() => parseAction({ type: "scroll", to: "bottom", deltaY: 100 })).toThrowError("cannot be combined");
+    expect(() => parseAction({ type: "scroll", deltaY: 100, maxScrolls: 2 })).toThrowError("maxScrolls");
+    expect(() => parseAction({ type: "scrollIntoView" })).toThrowError("Either nodeId or target is required");
+  });
+
+  it("parses evaluate actions and the evaluate settings", () => {
+    expect(parseAction({ type: "evaluate", expression: "document.title", saveAs: "title" }).type).toBe("evaluate");
+    expect(
+      parseAction({
+        type: "evaluate",
+        expression: "(el) => el.dataset.totalCents",
+        target: { kind: "css", selector: "#total" },
+        maxResultBytes: 1_024
+      }).type
+    ).toBe("evaluate");
+    expect(
+      parseScript({
+        settings: { allowEvaluate: false, evaluateMaxResultBytes: 4_096 },
+        actions: [{ type: "evaluate", expression: "1 + 1" }]
+      }).settings
+    ).toEqual({ allowEvaluate: false, evaluateMaxResultBytes: 4_096 });
+
+    expect(() => parseAction({ type: "evaluate", expression: "" })).toThrowError();
+    expect(() => parseAction({ type: "evaluate", expression: "1", saveAs: "not-a-name" })).toThrowError();
+    expect(() => parseAction({ type: "evaluate", expression: "1", maxResultBytes: 0 })).toThrowError();
+  });
+
+  it("parses extract actions and validates field specs", () => {
+    const action = parseAction({
+      type: "extract",
+      schema: {
+        items: {
+          selector: ".product",
+          fields: { title: "a", price: { selector: ".price", type: "number" }, link: "a@href", sku: "@data-sku" }
+        }
+      },
+      next: { kind: "css", selector: "#next-page" },
+      maxPages: 3,
+      path: "out/products.json"
+    });
+    expect(action.type).toBe("extract");
+
+    expect(() => parseAction({ type: "extract", schema: {} })).toThrowError(/at least one list/);
+    expect(() =>
+      parseAction({ type: "extract", schema: { items: { selector: ".product", fields: {} } } })
+    ).toThrowError(/at least one field/);
+    expect(() =>
+      parseAction({ type: "extract", schema: { items: { selector: ".product", fields: { title: "h3@" } } } })
+    ).toThrowError(/invalid source/);
+    expect(() =>
+      parseAction({
+        type: "extract",
+        schema: { items: { selector: ".product", fields: { title: "h3" } } },
+        maxPages: 2
+      })
+    ).toThrowError(/maxPages only applies/);
+  });
+
+  it("parses element screenshots, scoped snapshots, and element visual baselines", () => {
+    expect(parseAction({ type: "screenshot" }).type).toBe("screenshot");
+    expect(
+      parseAction({ type: "screenshot", target: { kind: "css", selector: "#card" }, padding: 8, path: "shots/card.png" })
+        .type
+    ).toBe("screenshot");
+    expect(parseAction({ type: "snapshot", target: { kind: "roleName", role: "dialog", name: "Settings" } }).type).toBe(
+      "snapshot"
+    );
+    expect(
+      parseAction({
+        type: "assert",
+        condition: { kind: "visual_baseline", baselinePath: "card.png", target: { kind: "css", selector: "#card" }, padding: 4 }
+      }).type
+    ).toBe("assert");
+
+    expect(() => parseAction({ type: "screenshot", padding: 8 })).toThrowError("padding requires nodeId or target");
+    expect(() => parseAction({ type: "screenshot", nodeId: "node_3", fullPage: true })).toThrowError("fullPage");
+    expect(() =>
+      parseAction({ type: "assert", condition: { kind: "visual_baseline", baselinePath: "card.png", padding: 4 } })
+    ).toThrowError("padding requires nodeId or target");
+  });
+
+  it("parses history navigation actions", () => {
+    expect(parseAction({ type: "goBack" }).type).toBe("goBack");
+    expect(parseAction({ type: "goForward", waitUntil: "networkidle", timeoutMs: 5_000 }).type).toBe("goForward");
+    expect(parseAction({ type: "reload", waitUntil: "load" }).type).toBe("reload");
+
+    expect(() => parseAction({ type: "reload", waitUntil: "commit" })).toThrowError();
+  });
+
+  it("parses check, uncheck, and setChecked actions", () => {
+    expect(parseAction({ type: "check", target: { kind: "roleName", role: "checkbox", name: "Subscribe" } }).type).toBe(
+      "check"
+    );
+    expect(parseAction({ type: "uncheck", nodeId: "node_4" }).type).toBe("uncheck");
+    expect(parseAction({ type: "setChecked", checked: false, target: { kind: "css", selector: "#dark-mode" } })).toMatchObject(
+      { type: "setChecked", checked: false }
+    );
+
+    expect(() => parseAction({ type: "check" })).toThrowError("Either nodeId or target is required");
+    expect(() => parseAction({ type: "setChecked", target: { kind: "css", selector: "#dark-mode" } })).toThrowError();
+  });
+
+  it("parses typing and keyboard chord actions", () => {
+    expect(
+      parseAction({ type: "type", target: { kind: "css", selector: "#search" }, text: "lap", delayMs: 50, clearFirst: true })
+        .type
+    ).toBe("type");
+    expect(parseAction({ type: "press", key: "Control+Shift+K" }).type).toBe("press");
+    expect(parseAction({ type: "press", key: "Control++", target: { kind: "css", selector: "#editor" } }).type).toBe(
+      "press"
+    );
+    expect(parseAction({ type: "keyDown", key: "Shift" }).type).toBe("keyDown");
+    expect(parseAction({ type: "keyUp", key: "Shift", target: { kind: "css", selector: "#grid" } }).type).toBe("keyUp");
+
+    expect(() => parseAction({ type: "type", text: "lap" })).toThrowError("Either nodeId or target is required");
+    expect(() => parseAction({ type: "type", target: { kind: "css", selector: "#search" }, text: "x", delayMs: -1 })).toThrowError();
+    expect(() => parseAction({ type: "press", key: "+K" })).toThrowError();
+    expect(() => parseAction({ type: "keyDown", key: "Shift+A" })).toThrowError("single key");
+  });
+
+  it("parses capture actions and script vars", () => {
+    const parsed = parseScript({
+      vars: { plan: "pro" },
+      actions: [
+        { type: "capture", name: "orderId", from: "text", target: { kind: "css", selector: "#order" }, pattern: "#(\\d+)" },
+        { type: "capture", name: "landing", from: "url" },
+        { type: "fill", target: { kind: "css", selector: "#search" }, value: "${vars.orderId} ${secret.TOKEN}" }
+      ]
+    });
+    expect(parsed.vars).toEqual({ plan: "pro" });
+    expect(parsed.actions[0].type).toBe("capture");
+
+    expect(() => parseAction({ type: "capture", name: "missing", from: "text" })).toThrowError();
+    expect(() =>
+      parseAction({ type: "capture", name: "href", from: "attribute", target: { kind: "css", selector: "a" } })
+    ).toThrowError();
+    expect(() => parseAction({ type: "capture", name: "not-an-identifier", from: "url" })).toThrowError();
+    expect(() => parseAction({ type: "capture", name: "bad", from: "url", pattern: "(" })).toThrowError();
+  });
+
+  it("rejects placeholders outside the env, secret, and vars namespaces", () => {
+    expect(() => parseAction({ type: "navigate", url: "https://${config.host}/login" })).toThrowError(
+      /Unsupported placeholder/
+    );
+  });
+
+  it("parses nested if, repeat, and forEach blocks", () => {
+    const parsed = parseScript({
+      actions: [
+        {
+          type: "forEach",
+          label: "plans",
+          items: ["basic", { name: "pro", seats: "5" }],
+          as: "plan",
+          actions: [
+            {
+              type: "if",
+              when: [{ kind: "snapshot", field: "url", operator: "contains", value: "${vars.plan}" }],
+              then: [{ type: "click", target: { kind: "css", selector: "#next" } }],
+              else: [
+                {
+                  type: "repeat",
+                  times: 3,
+                  until: [{ kind: "assert", condition: { kind: "url_contains", value: "/done" } }],
+                  actions: [{ type: "press", key: "PageDown" }]
+                }
+              ]
+            }
+          ]
+        }
+      ]
+    });
+
+    const block = parsed.actions[0];
+    expect(block.type).toBe("forEach");
+    if (block.type === "forEach") {
+      expect(block.actions[0].type).toBe("if");
+    }
+
+    expect(() => parseAction({ type: "repeat", times: 0, actions: [{ type: "snapshot" }] })).toThrowError();
+    expect(() => parseAction({ type: "if", when: [], then: [{ type: "snapshot" }] })).toThrowError();
+    expect(() =>
+      parseAction({ type: "forEach", items: ["a"], actions: [{ type: "click" }] })
+    ).toThrowError();
+    expect(() =>
+      parseAction({ type: "if", when: [{ kind: "snapshot", field: "url", operator: "contains", value: "x" }], then: [] })
+    ).toThrowError();
+  });
+
   it("rejects network_response wait without predicates", () => {
     expect(() =>
       parseAction({
@@ -0,0 +1,62 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { loadDataset, parseCsvDataset, parseJsonDataset, resolveRowTracePath } from "../src/dataset.js";
+
+describe("datasets", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "sazen-dataset-"));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("parses quoted CSV fields, escaped quotes and CRLF rows", () => {
+    const rows = parseCsvDataset('\uFEFFuser,note\r\nalice,"hello, ""world"""\r\n\r\nbob,"two\nlines"\r\n');
+
+    expect(rows).toEqual([
+      { user: "alice", note: 'hello, "world"' },
+      { user: "bob", note: "two\nlines" }
+    ]);
+  });
+
+  it("rejects CSV rows with mismatched columns and invalid headers", () => {
+    expect(() => parseCsvDataset("user,plan\nalice\n", "rows.csv")).toThrow(
+      "Dataset 'rows.csv' line 2 has 1 columns; expected 2"
+    );
+    expect(() => parseCsvDataset('user,note\r\n\r\nalice,"two\r\nlines"\r\nbob\r\n', "rows.csv")).toThrow(
+      "Dataset 'rows.csv' line 5 has 1 columns; expected 2"
+    );
+    expect(() => parseCsvDataset("user name\nalice\n", "rows.csv")).toThrow(
+      "column 'user name' is not a valid variable name"
+    );
+    expect(() => parseCsvDataset('user\n"alice\n')).toThrow("Unterminated quoted CSV field starting on line 2");
+  });
+
+  it("converts JSON scalar values to strings and rejects nested values", () => {
+    expect(parseJsonDataset(JSON.stringify([{ user: "alice", seats: 3, admin: true }]))).toEqual([
+      { user: "alice", seats: "3", admin: "true" }
+    ]);
+    expect(() => parseJsonDataset(JSON.stringify({ user: "alice" }), "rows.json")).toThrow(
+      "must be a JSON array of objects"
+    );
+    expect(() => parseJsonDataset(JSON.stringify([{ user: { name: "alice" } }]), "rows.json")).toThrow(
+      "row 1 field 'user' must be a string, number, or boolean"
+    );
+  });
+
+  it("loads datasets by extension and names per-row traces", async () => {
+    await writeFile(join(tempDir, "rows.csv"), "user\nalice\nbob\n", "utf8");
+    await writeFile(join(tempDir, "rows.txt"), "user\nalice\n", "utf8");
+
+    await expect(loadDataset(join(tempDir, "rows.csv"))).resolves.toEqual([{ user: "alice" }, { user: "bob" }]);
+    await expect(loadDataset(join(tempDir, "rows.txt"))).rejects.toThrow("Use a .csv or .json file");
+    expect(resolveRowTracePath(join(tempDir, "traces", "login.json"), 1)).toBe(
+      join(tempDir, "traces", "login.row-2.json")
+    );
+  });
+});
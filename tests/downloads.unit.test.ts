@@ -0,0 +1,84 @@
+import { EventEmitter } from "node:events";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Download, Page } from "playwright";
+import { describe, expect, it } from "vitest";
+import { DownloadCapture, assertDownload, sanitizeDownloadFileName } from "../src/downloads.js";
+import type { DownloadSummary } from "../src/types.js";
+
+describe("downloads", () => {
+  it("hands queued downloads to the next waiter in arrival order", async () => {
+    const page = new EventEmitter();
+    const capture = new DownloadCapture();
+    capture.attachPage(page as unknown as Page);
+
+    const first = { suggestedFilename: () => "first.csv" } as unknown as Download;
+    const second = { suggestedFilename: () => "second.csv" } as unknown as Download;
+
+    const waiting = capture.next(1_000);
+    page.emit("download", first);
+    page.emit("download", second);
+
+    await expect(waiting).resolves.toBe(first);
+    await expect(capture.next(1_000)).resolves.toBe(second);
+
+    page.emit("download", first);
+    capture.discardPending();
+    await expect(capture.next(20)).rejects.toThrow("Timeout 20ms exceeded while waiting for a download");
+  });
+
+  it("releases an aborted waiter so the next download stays queued", async () => {
+    const page = new EventEmitter();
+    const capture = new DownloadCapture();
+    capture.attachPage(page as unknown as Page);
+    const download = { suggestedFilename: () => "late.csv" } as unknown as Download;
+
+    const waiting = new AbortController();
+    const abandoned = capture.next(1_000, waiting.signal);
+    waiting.abort();
+    await expect(abandoned).rejects.toThrow("Stopped waiting for a download");
+
+    page.emit("download", download);
+    await expect(capture.next(1_000)).resolves.toBe(download);
+  });
+
+  it("sanitizes suggested file names", () => {
+    expect(sanitizeDownloadFileName("../report:2024?.csv")).toBe("_report_2024_.csv");
+    expect(sanitizeDownloadFileName("..")).toBe("download");
+  });
+
+  it("checks the captured file name, size, hash, and content", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "sazen-downloads-"));
+    const path = join(dir, "report.csv");
+    await writeFile(path, "id,total\n1,42.50\n", "utf8");
+    const download: DownloadSummary = {
+      fileName: "report.csv",
+      suggestedFileName: "report.csv",
+      url: "http://127.0.0.1/report.csv",
+      path,
+      sizeBytes: 17,
+      sha256: "a".repeat(64)
+    };
+
+    try {
+      await expect(
+        assertDownload(download, { kind: "download", fileName: "report.csv", contentContains: "42.50", minSizeBytes: 10 })
+      ).resolves.toBeUndefined();
+      await expect(assertDownload(download, { kind: "download", fileNameMatches: "\\.pdf$" })).rejects.toThrow(
+        "does not match"
+      );
+      await expect(assertDownload(download, { kind: "download", sha256: "b".repeat(64) })).rejects.toThrow(
+        "sha256"
+      );
+      await expect(assertDownload(download, { kind: "download", contentContains: "99.00" })).rejects.toThrow(
+        "content does not include '99.00'"
+      );
+      await expect(assertDownload(undefined, { kind: "download", fileName: "report.csv" })).rejects.toThrow(
+        "no download has been captured"
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  coerceExtractValue,
+  compileExtractSchema,
+  extractSignature,
+  parseExtractField,
+  toExtractedRows
+} from "../src/extract.js";
+import type { AgentNode, DomSnapshot } from "../src/types.js";
+
+describe("extract", () => {
+  it("parses field specs into selector, source, and type", () => {
+    expect(parseExtractField("h3")).toEqual({ selector: "h3", source: "text", type: "string" });
+    expect(parseExtractField(".price@text")).toEqual({ selector: ".price", source: "text", type: "string" });
+    expect(parseExtractField("a@href")).toEqual({ selector: "a", source: "href", type: "string" });
+    expect(parseExtractField("@data-sku")).toEqual({ selector: "", source: "data-sku", type: "string" });
+    expect(parseExtractField({ selector: ".price", type: "number" })).toEqual({
+      selector: ".price",
+      source: "text",
+      type: "number"
+    });
+    expect(parseExtractField('a[href^="mailto:x@y"]')).toEqual({
+      selector: 'a[href^="mailto:x@y"]',
+      source: "text",
+      type: "string"
+    });
+    expect(parseExtractField('a[href^="mailto:x@y"]@href')).toEqual({
+      selector: 'a[href^="mailto:x@y"]',
+      source: "href",
+      type: "string"
+    });
+    expect(() => parseExtractField("a@")).toThrowError(/invalid source/);
+  });
+
+  it("coerces raw values by field type", () => {
+    expect(coerceExtractValue("$1,299.00", "number")).toBe(1299);
+    expect(coerceExtractValue("-4.5 kg", "number")).toBe(-4.5);
+    expect(coerceExtractValue("n/a", "number")).toBeNull();
+    expect(coerceExtractValue("yes", "boolean")).toBe(true);
+    expect(coerceExtractValue("false", "boolean")).toBe(false);
+    expect(coerceExtractValue("", "boolean")).toBe(false);
+    expect(coerceExtractValue(null, "string")).toBeNull();
+    expect(coerceExtractValue(" kept ", "string")).toBe(" kept ");
+  });
+
+  it("maps extracted rows to snapshot stableRefs and typed fields", () => {
+    const lists = compileExtractSchema({
+      items: { selector: ".row", fields: { title: "h3", price: { selector: ".price", type: "number" } } }
+    });
+    const snapshot = snapshotWith([{ id: "node_7", stableRef: "css:#row-1" }]);
+    const raw = {
+      items: [
+        { nodeId: "node_7", values: { title: "Desk", price: "$120.00" } },
+        { nodeId: "node_99", values: { title: "Lamp", price: null } }
+      ]
+    };
+
+    expect(toExtractedRows(raw, lists, snapshot, 2)).toEqual({
+      items: [
+        { stableRef: "css:#row-1", nodeId: "node_7", page: 2, fields: { title: "Desk", price: 120 } },
+        { page: 2, fields: { title: "Lamp", price: null } }
+      ]
+    });
+  });
+
+  it("ignores runtime node ids when comparing pages", () => {
+    const first = { items: [{ nodeId: "node_1", values: { title: "Desk" } }] };
+    const rerendered = { items: [{ nodeId: "node_8", values: { title: "Desk" } }] };
+    const next = { items: [{ nodeId: "node_8", values: { title: "Lamp" } }] };
+
+    expect(extractSignature(rerendered)).toBe(extractSignature(first));
+    expect(extractSignature(next)).not.toBe(extractSignature(first));
+  });
+});
+
+function snapshotWith(nodes: Array<Pick<AgentNode, "id" | "stableRef">>): DomSnapshot {
+  return {
+    snapshotId: "snapshot-1",
+    timestamp: Date.now(),
+    url: "http://example.test/catalog.html",
+    title: "Catalog",
+    domHash: "hash",
+    viewport: { width: 1280, height: 720 },
+    nodeCount: nodes.length,
+    interactiveCount: 0,
+    nodes: nodes.map((node) => ({
+      ...node,
+      tag: "li",
+      role: "generic",
+      name: "",
+      text: "",
+      value: "",
+      visible: true,
+      enabled: true,
+      editable: false,
+      interactive: false,
+      boundingBox: { x: 0, y: 0, width: 100, height: 20 },
+      path: `body > li[data-id="${node.id}"]`,
+      attributes: {}
+    }))
+  };
+}
@@ -0,0 +1,168 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { applyHealSuggestions, candidateLabelToTarget, formatUnifiedDiff, healScript, planHeal } from "../src/heal.js";
+import type { Action } from "../src/types.js";
+import { record, traceOf } from "./helpers/traces.js";
+
+describe("selector healing", () => {
+  it("maps durable candidate labels back to script targets", () => {
+    expect(candidateLabelToTarget("testId:submit")).toEqual({ kind: "testId", value: "submit" });
+    expect(candidateLabelToTarget("id:login-form")).toEqual({ kind: "css", selector: "#login-form" });
+    expect(candidateLabelToTarget("input[name=email]")).toEqual({ kind: "css", selector: 'input[name="email"]' });
+    expect(candidateLabelToTarget("role:button name:Sign in")).toEqual({
+      kind: "roleName",
+      role: "button",
+      name: "Sign in"
+    });
+    expect(candidateLabelToTarget("getByLabel(Email, exact=true)")).toEqual({
+      kind: "label",
+      text: "Email",
+      exact: true
+    });
+    expect(candidateLabelToTarget('frame:["iframe#pay"] | testId:pay')).toEqual({
+      kind: "css",
+      selector: '[data-testid="pay"]',
+      framePath: ["iframe#pay"]
+    });
+    expect(candidateLabelToTarget('frame:["pay-widget >> iframe#pay"] | css:#card')).toEqual({
+      kind: "css",
+      selector: "#card",
+      framePath: ["pay-widget >> iframe#pay"]
+    });
+    expect(candidateLabelToTarget('frame:["iframe#pay"] | role:button name:Pay')).toBeUndefined();
+    expect(candidateLabelToTarget("path:html > body > button:nth-of-type(2)")).toBeUndefined();
+  });
+
+  it("votes for the candidate that rescued a target and reports hotspots without one", () => {
+    const broken: Action = { type: "click", target: { kind: "css", selector: "#old-submit" } };
+    const plan = planHeal([
+      traceOf([
+        record(broken, {
+          selectorTarget: "roleName:button:Submit",
+          selectorFallbackDepth: 1,
+          selectorSelectedCandidate: "testId:submit"
+        }),
+        record(broken, {
+          selectorTarget: "roleName:button:Submit",
+          selectorFallbackDepth: 2,
+          selectorSelectedCandidate: "testId:submit"
+        }),
+        record(
+          { type: "click", target: { kind: "css", selector: "#gone" } },
+          { status: "fatal_error", selectorTarget: "css:#gone", errorMessage: "Timeout 5000ms exceeded" }
+        ),
+        record(
+          { type: "click", target: { kind: "roleName", role: "link", name: "Docs" } },
+          { selectorTarget: "roleName:link:Docs", selectorFallbackDepth: 3, selectorSelectedCandidate: "path:a" }
+        )
+      ])
+    ]);
+
+    expect(plan.suggestions).toHaveLength(1);
+    expect(plan.suggestions[0]).toMatchObject({
+      original: { kind: "css", selector: "#old-submit" },
+      healed: { kind: "testId", value: "submit" },
+      fallbackUses: 2,
+      avgFallbackDepth: 1.5
+    });
+    expect(plan.unhealed.map((entry) => entry.target).sort()).toEqual(["css:#gone", "roleName:link:Docs"]);
+  });
+
+  it("rewrites matching action targets in place and emits a unified diff", () => {
+    const source = [
+      "{",
+      '  "actions": [',
+      "    {",
+      '      "type": "click",',
+      '      "target": {',
+      '        "kind": "css",',
+      '        "selector": "#old-submit"',
+      "      }",
+      "    },",
+      '    { "type": "repeat", "times": 2, "actions": [{ "type": "click", "target": { "kind": "css", "selector": "#old-submit" } }] },',
+      '    { "type": "click", "target": { "kind": "within", "scope": { "kind": "testId", "value": "form" }, "target": { "kind": "css", "selector": "#old-submit" } } }',
+      "  ]",
+      "}",
+      ""
+    ].join("\n");
+
+    const healed = applyHealSuggestions(source, [
+      {
+        target: "css:#old-submit",
+        original: { kind: "css", selector: "#old-submit" },
+        healed: { kind: "testId", value: "submit" },
+        candidate: "testId:submit",
+        fallbackUses: 1,
+        avgFallbackDepth: 1,
+        sources: [],
+        rewrites: 0
+      }
+    ]);
+
+    expect(healed.suggestions[0].rewrites).toBe(2);
+    expect(healed.source).toContain('      "target": {\n        "kind": "testId",\n        "value": "submit"\n      }');
+    expect(healed.source).toContain('"target": { "kind": "testId", "value": "submit" } }] }');
+    expect(healed.source).toContain('"target": { "kind": "css", "selector": "#old-submit" } } }');
+
+    const diff = formatUnifiedDiff(source, healed.source, "a/flow.json", "b/flow.json");
+    expect(diff.split("\n").slice(0, 3)).toEqual(["--- a/flow.json", "+++ b/flow.json", "@@ -3,11 +3,11 @@"]);
+    expect(diff).toContain('-        "selector": "#old-submit"\n');
+    expect(diff).toContain('+        "value": "submit"\n');
+    expect(formatUnifiedDiff(source, source, "a", "b")).toBe("");
+  });
+
+  it("rewrites targets in the included file a traced step was loaded from", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-heal-"));
+    try {
+      const flowPath = join(tempDir, "flow.json");
+      const submitPath = join(tempDir, "submit.json");
+      const pickPath = join(tempDir, "pick.json");
+      const oldSubmit = { kind: "css", selector: "#old-submit" } as const;
+      const pick = { kind: "css", selector: "${params.selector}" } as const;
+      await writeFile(flowPath, JSON.stringify({ actions: [{ type: "include", path: "submit.json" }] }, null, 2));
+      await writeFile(submitPath, JSON.stringify({ actions: [{ type: "click", target: oldSubmit }] }, null, 2));
+      await writeFile(pickPath, JSON.stringify({ actions: [{ type: "click", target: pick }] }, null, 2));
+      const tracePath = join(tempDir, "trace.json");
+      await writeFile(
+        tracePath,
+        JSON.stringify(
+          traceOf([
+            record(
+              { type: "click", target: oldSubmit, source: { path: submitPath, pointer: "/actions/0" } },
+              {
+                selectorTarget: "css:#old-submit",
+                selectorFallbackDepth: 1,
+                selectorSelectedCandidate: "testId:submit"
+              }
+            ),
+            record(
+              {
+                type: "click",
+                target: { kind: "css", selector: "#blue" },
+                source: { path: pickPath, pointer: "/actions/0" }
+              },
+              { selectorTarget: "css:#blue", selectorFallbackDepth: 1, selectorSelectedCandidate: "testId:blue" }
+            )
+          ])
+        )
+      );
+
+      const report = await healScript(flowPath, [tracePath], { write: true });
+
+      expect(report.suggestions).toMatchObject([{ target: "css:#old-submit", rewrites: 1 }]);
+      expect(report.unhealed).toMatchObject([{ target: "css:#blue" }]);
+      expect(report.unhealed[0].reason).toContain("include params");
+      expect(report.writtenPath).toBeUndefined();
+      expect(report.writtenIncludes).toEqual([submitPath]);
+      expect(report.diff).toContain('+        "value": "submit"');
+      expect(JSON.parse(await readFile(submitPath, "utf8")).actions[0].target).toEqual({
+        kind: "testId",
+        value: "submit"
+      });
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
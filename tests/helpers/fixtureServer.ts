@@ -18,7 +18,8 @@ export interface RunningFixtureServer {
 
 export async function startFixtureServer(): Promise<RunningFixtureServer> {
   const server = createServer(async (req, res) => {
-    const requestPath = req.url === "/" ? "/index.html" : req.url ?? "/index.html";
+    const pathname = (req.url ?? "/").split("?")[0];
+    const requestPath = pathname === "/" ? "/index.html" : pathname;
     const filePath = resolve(fixtureRoot, `.${requestPath}`);
 
     if (!filePath.startsWith(fixtureRoot)) {
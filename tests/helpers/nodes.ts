@@ -0,0 +1,24 @@
+import type { AgentNode } from "../../src/types.js";
+
+export function makeNode(partial: Partial<AgentNode> & Pick<AgentNode, "id">): AgentNode {
+  return {
+    id: partial.id,
+    stableRef: partial.stableRef ?? `id:${partial.id}`,
+    tag: partial.tag ?? "button",
+    role: partial.role ?? "button",
+    name: partial.name ?? "Button",
+    text: partial.text ?? "Button",
+    value: partial.value ?? "",
+    visible: partial.visible ?? true,
+    enabled: partial.enabled ?? true,
+    editable: partial.editable ?? false,
+    interactive: partial.interactive ?? true,
+    boundingBox: partial.boundingBox ?? { x: 0, y: 0, width: 100, height: 32 },
+    path: partial.path ?? `body > button[data-id="${partial.id}"]`,
+    attributes: partial.attributes ?? {},
+    ...(partial.framePath !== undefined ? { framePath: partial.framePath } : {}),
+    ...(partial.checked !== undefined ? { checked: partial.checked } : {}),
+    ...(partial.selected !== undefined ? { selected: partial.selected } : {}),
+    ...(partial.expanded !== undefined ? { expanded: partial.expanded } : {})
+  };
+}
@@ -0,0 +1,24 @@
+import type { Action, SavedTrace, TraceRecord } from "../../src/types.js";
+
+export function record(action: Action, result: Partial<TraceRecord["result"]> = {}): TraceRecord {
+  return {
+    action,
+    result: {
+      status: "ok",
+      postDomHash: "hash",
+      durationMs: 10,
+      tabId: "tab_1",
+      ...result
+    }
+  };
+}
+
+export function traceOf(records: TraceRecord[]): SavedTrace {
+  return {
+    version: 2,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    sessionId: "test",
+    options: {},
+    records
+  };
+}
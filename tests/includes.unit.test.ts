@@ -0,0 +1,139 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { expandScriptIncludes, loadActionScript } from "../src/includes.js";
+import { resolveScriptPath } from "../src/session.js";
+import type { Action } from "../src/types.js";
+import { ScriptVariables } from "../src/variables.js";
+
+describe("script includes", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "sazen-includes-"));
+    await mkdir(join(tempDir, "partials"), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("inlines included actions with params, including inside blocks", async () => {
+    await writeJson("partials/open.json", {
+      vars: { locale: "en", baseUrl: "http://ignored" },
+      actions: [
+        { type: "navigate", url: "${params.origin}/login?lang=${vars.locale}" },
+        { type: "include", path: "wait.json", params: { selector: "${params.ready}" } }
+      ]
+    });
+    await writeJson("partials/wait.json", {
+      actions: [{ type: "waitFor", condition: { kind: "selector", selector: "${params.selector}" } }]
+    });
+    await writeJson("flow.json", {
+      vars: { baseUrl: "http://127.0.0.1:4173" },
+      actions: [
+        { type: "include", path: "partials/open.json", params: { origin: "${vars.baseUrl}", ready: "#email" } },
+        {
+          type: "repeat",
+          times: 2,
+          actions: [{ type: "include", path: "partials/wait.json", params: { selector: "#result" } }]
+        },
+        { type: "checkpoint", name: "after-open" }
+      ]
+    });
+
+    const { script, includedPaths } = await loadActionScript(join(tempDir, "flow.json"));
+    const flow = (pointer: string) => ({ path: join(tempDir, "flow.json"), pointer });
+    const open = { path: join(tempDir, "partials/open.json"), pointer: "/actions/0" };
+    const wait = { path: join(tempDir, "partials/wait.json"), pointer: "/actions/0" };
+
+    expect(script.vars).toEqual({ locale: "en", baseUrl: "http://127.0.0.1:4173" });
+    expect(script.actions).toEqual([
+      { type: "navigate", url: "${vars.baseUrl}/login?lang=${vars.locale}", source: open },
+      { type: "waitFor", condition: { kind: "selector", selector: "#email" }, source: wait },
+      {
+        type: "repeat",
+        times: 2,
+        actions: [{ type: "waitFor", condition: { kind: "selector", selector: "#result" }, source: wait }],
+        source: flow("/actions/1")
+      },
+      { type: "checkpoint", name: "after-open", source: flow("/actions/2") }
+    ]);
+    expect(includedPaths).toEqual([join(tempDir, "partials/open.json"), join(tempDir, "partials/wait.json")]);
+  });
+
+  it("resolves upload files against the script that names them, after interpolation", async () => {
+    await writeJson("partials/attach.json", {
+      actions: [{ type: "upload", target: { kind: "css", selector: "#file" }, files: ["files/${vars.doc}"] }]
+    });
+    await writeJson("flow.json", {
+      actions: [
+        { type: "upload", target: { kind: "css", selector: "#avatar" }, files: ["avatar.png", "${vars.extra}"] },
+        { type: "include", path: "partials/attach.json" }
+      ]
+    });
+
+    const { script } = await loadActionScript(join(tempDir, "flow.json"));
+    const variables = new ScriptVariables({ vars: { doc: "cv.pdf", extra: "/tmp/extra.png" } });
+    const files = script.actions.map((action) => {
+      const interpolated = variables.interpolate(action as Action);
+      return interpolated.type === "upload"
+        ? interpolated.files.map((file) => resolveScriptPath(interpolated, file))
+        : [];
+    });
+
+    expect(files).toEqual([[join(tempDir, "avatar.png"), "/tmp/extra.png"], [join(tempDir, "partials/files/cv.pdf")]]);
+    expect(resolveScriptPath({ type: "snapshot" }, "shot.png")).toBe(join(process.cwd(), "shot.png"));
+  });
+
+  it("carries included vars out of loop-body expansion and rejects included settings", async () => {
+    await writeJson("partials/search.json", {
+      vars: { query: "laptop" },
+      actions: [{ type: "fill", target: { kind: "css", selector: "#q" }, value: "${vars.query}" }]
+    });
+    await writeJson("partials/headed.json", { settings: { headed: true }, actions: [{ type: "snapshot" }] });
+
+    const loopPath = join(tempDir, "loop.json");
+    const expanded = await expandScriptIncludes(
+      [{ type: "include", path: "partials/search.json" }],
+      loopPath,
+      "/actions/0/actions"
+    );
+    expect(expanded.vars).toEqual({ query: "laptop" });
+    expect(expanded.actions).toEqual([
+      {
+        type: "fill",
+        target: { kind: "css", selector: "#q" },
+        value: "${vars.query}",
+        source: { path: join(tempDir, "partials/search.json"), pointer: "/actions/0" }
+      }
+    ]);
+
+    await expect(
+      expandScriptIncludes([{ type: "include", path: "partials/headed.json" }], loopPath, "/actions/0/actions")
+    ).rejects.toThrow("declares settings; move them to the top-level script");
+  });
+
+  it("rejects include cycles and missing params", async () => {
+    await writeJson("a.json", { actions: [{ type: "include", path: "b.json" }] });
+    await writeJson("b.json", { actions: [{ type: "include", path: "a.json" }] });
+    await expect(loadActionScript(join(tempDir, "a.json"))).rejects.toThrowError(/Include cycle detected/);
+
+    await writeJson("needs-param.json", { actions: [{ type: "navigate", url: "${params.origin}" }] });
+    await writeJson("caller.json", { actions: [{ type: "include", path: "needs-param.json" }] });
+    await expect(loadActionScript(join(tempDir, "caller.json"))).rejects.toThrowError(
+      /Missing include parameter 'params.origin'/
+    );
+  });
+
+  it("validates included files with parseScript", async () => {
+    await writeJson("broken.json", { actions: [{ type: "click" }] });
+    await writeJson("root.json", { actions: [{ type: "include", path: "broken.json" }] });
+    await expect(loadActionScript(join(tempDir, "root.json"))).rejects.toThrowError(/Invalid script '.*broken\.json'/);
+  });
+
+  async function writeJson(relativePath: string, value: unknown): Promise<void> {
+    await writeFile(join(tempDir, relativePath), JSON.stringify(value), "utf8");
+  }
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { foldNameText, matchRoleName, nameTokenSimilarity } from "../src/name-match.js";
+
+describe("role name matching", () => {
+  it("folds case, diacritics, punctuation and icon glyphs", () => {
+    expect(foldNameText("Sign In →")).toBe("sign in");
+    expect(foldNameText("Iniciar sesión")).toBe("iniciar sesion");
+    expect(foldNameText("★ Café-Crème!")).toBe("cafe creme");
+    expect(foldNameText("→ ✕")).toBe("");
+  });
+
+  it("scores token overlap between names", () => {
+    expect(nameTokenSimilarity("Sign In →", "sign in")).toBe(1);
+    expect(nameTokenSimilarity("Sign in to continue", "Sign in")).toBe(0.667);
+    expect(nameTokenSimilarity("Sign up", "Sign in")).toBe(0.5);
+    expect(nameTokenSimilarity("✕", "Close")).toBe(0);
+  });
+
+  it("keeps exact matching unless fuzzy mode is requested", () => {
+    const target = { kind: "roleName" as const, role: "button", name: "Sign in" };
+    expect(matchRoleName("  sign   IN ", target)).toEqual({ score: 1, matchedName: "  sign   IN ", query: "Sign in" });
+    expect(matchRoleName("Sign In →", target)).toBeUndefined();
+    expect(matchRoleName("Log in", { ...target, synonyms: ["Log in"] })?.query).toBe("Log in");
+
+    const fuzzy = { ...target, match: "fuzzy" as const, synonyms: ["Log in", "Anmelden"] };
+    expect(matchRoleName("Sign In →", fuzzy)).toEqual({ score: 1, matchedName: "Sign In →", query: "Sign in" });
+    expect(matchRoleName("Anmelden", fuzzy)?.query).toBe("Anmelden");
+    expect(matchRoleName("Sign up", fuzzy)).toBeUndefined();
+    expect(matchRoleName("Sign in to continue", { ...fuzzy, minScore: 0.6 })?.score).toBe(0.667);
+  });
+});
@@ -0,0 +1,131 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  archiveEntryToFulfillment,
+  loadNetworkArchive,
+  NetworkArchivePlayer,
+  redactArchiveEntry,
+  resolveNetworkArchivePath,
+  saveNetworkArchive
+} from "../src/network-archive.js";
+import type { NetworkArchive, NetworkArchiveEntry } from "../src/types.js";
+
+describe("network archive", () => {
+  it("derives the archive path from the trace path", () => {
+    expect(resolveNetworkArchivePath("/tmp/traces/checkout.json")).toBe("/tmp/traces/checkout.network.json");
+  });
+
+  it("serves repeated requests in recorded order and reuses the last response", () => {
+    const player = new NetworkArchivePlayer(
+      archiveOf([
+        entry("GET", "https://example.com/api/cart", "second", "2024-01-01T00:00:02.000Z"),
+        entry("GET", "https://example.com/api/cart", "first", "2024-01-01T00:00:01.000Z")
+      ])
+    );
+
+    const bodies = [1, 2, 3].map(() => {
+      const match = player.match("get", "https://example.com/api/cart");
+      return match ? Buffer.from(match.response.body, "base64").toString("utf8") : undefined;
+    });
+
+    expect(bodies).toEqual(["first", "second", "second"]);
+    expect(player.summary()).toEqual({ served: 3, unmatched: [] });
+  });
+
+  it("tracks unmatched requests by method and url", () => {
+    const player = new NetworkArchivePlayer(
+      archiveOf([entry("GET", "https://example.com/", "home", "2024-01-01T00:00:00.000Z")]),
+      "passthrough"
+    );
+
+    expect(player.match("POST", "https://example.com/")).toBeUndefined();
+    expect(player.match("POST", "https://example.com/")).toBeUndefined();
+    expect(player.unmatchedPolicy).toBe("passthrough");
+    expect(player.summary()).toEqual({ served: 0, unmatched: ["POST https://example.com/"] });
+  });
+
+  it("drops transfer headers when fulfilling decoded bodies", () => {
+    const recorded = entry("GET", "https://example.com/app.js", "console.log(1)", "2024-01-01T00:00:00.000Z");
+    recorded.response.headers = {
+      "content-type": "text/javascript",
+      "Content-Encoding": "gzip",
+      "content-length": "99"
+    };
+
+    const fulfillment = archiveEntryToFulfillment(recorded);
+    expect(fulfillment.headers).toEqual({ "content-type": "text/javascript" });
+    expect(fulfillment.body.toString("utf8")).toBe("console.log(1)");
+  });
+
+  it("redacts secrets from post data, headers and text bodies and drops credential headers", () => {
+    const recorded = entry("POST", "https://example.com/login", '{"token":"s3cret"}', "2024-01-01T00:00:00.000Z");
+    recorded.request.postData = "user=ada&password=s3cret";
+    recorded.response.headers = {
+      "content-type": "application/json",
+      "set-cookie": "session=abc",
+      "x-echo": "s3cret"
+    };
+    const image = entry("GET", "https://example.com/logo.png", "s3cret", "2024-01-01T00:00:01.000Z");
+    image.response.headers = { "content-type": "image/png" };
+    const redact = (input: string) => input.split("s3cret").join("[REDACTED]");
+
+    const redacted = redactArchiveEntry(recorded, redact);
+    expect(redacted.request.postData).toBe("user=ada&password=[REDACTED]");
+    expect(redacted.response.headers).toEqual({ "content-type": "application/json", "x-echo": "[REDACTED]" });
+    expect(Buffer.from(redacted.response.body, "base64").toString("utf8")).toBe('{"token":"[REDACTED]"}');
+    expect(redactArchiveEntry(image, redact).response.body).toBe(image.response.body);
+  });
+
+  it("applies redaction patterns to headers and post data only, keeping bodies parseable", () => {
+    const body = '{"password":"hunter2","headers":{"authorization":"Bearer abc"}}';
+    const recorded = entry("POST", "https://example.com/login", body, "2024-01-01T00:00:00.000Z");
+    recorded.request.postData = '{"user":"ada","password":"hunter2"}';
+    recorded.response.headers = { "content-type": "application/json", "x-trace": "token=abc123&user=ada" };
+    const patterns = [/bearer\s+[a-z0-9._-]+/gi, /("password"\s*:\s*")[^"]+(?=")/gi, /(token=)[^&\s]+/gi];
+
+    const redacted = redactArchiveEntry(recorded, (input) => input, patterns);
+    expect(JSON.parse(redacted.request.postData ?? "")).toEqual({ user: "ada", password: "[REDACTED]" });
+    expect(redacted.response.headers["x-trace"]).toBe("token=[REDACTED]&user=ada");
+    const redactedBody = Buffer.from(redacted.response.body, "base64").toString("utf8");
+    expect(JSON.parse(redactedBody)).toEqual(JSON.parse(body));
+  });
+
+  it("round-trips archives through disk", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-network-archive-"));
+    try {
+      const archive = archiveOf([entry("GET", "https://example.com/", "home", "2024-01-01T00:00:00.000Z")]);
+      const archivePath = await saveNetworkArchive(join(tempDir, "trace.network.json"), archive);
+      expect(await loadNetworkArchive(archivePath)).toEqual(archive);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+function archiveOf(entries: NetworkArchiveEntry[]): NetworkArchive {
+  return {
+    version: 1,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    entries
+  };
+}
+
+function entry(method: string, url: string, body: string, startedAt: string): NetworkArchiveEntry {
+  return {
+    startedAt,
+    request: {
+      method,
+      url,
+      resourceType: "fetch"
+    },
+    response: {
+      status: 200,
+      statusText: "OK",
+      headers: { "content-type": "text/plain" },
+      body: Buffer.from(body, "utf8").toString("base64"),
+      bodyEncoding: "base64"
+    }
+  };
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { isLikelyNoiseEvent } from "../src/observer.js";
+import { formatEvent, isLikelyNoiseEvent } from "../src/observer.js";
 import type { ObserverEvent } from "../src/types.js";
 
 describe("observer noise filtering", () => {
@@ -44,4 +44,19 @@ describe("observer noise filtering", () => {
 
     expect(isLikelyNoiseEvent(event)).toBe(false);
   });
+
+  it("keeps and formats dialog events", () => {
+    const event: ObserverEvent = {
+      kind: "dialog",
+      seq: 4,
+      timestamp: Date.now(),
+      dialogType: "confirm",
+      message: "Delete project?",
+      outcome: "accepted",
+      handledBy: "handleDialog"
+    };
+
+    expect(isLikelyNoiseEvent(event)).toBe(false);
+    expect(formatEvent(event)).toBe("[dialog.confirm] accepted by handleDialog: Delete project?");
+  });
 });
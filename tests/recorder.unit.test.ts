@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { parseScript } from "../src/contracts.js";
+import { nodeTargetForRecordedNode, recordedSecretName } from "../src/recorder.js";
+import { makeNode } from "./helpers/nodes.js";
+
+describe("action recorder targets", () => {
+  it("prefers attribute-backed stable refs", () => {
+    const node = makeNode({ id: "submit", stableRef: "testid:submit-button", role: "button", name: "Sign in" });
+    expect(nodeTargetForRecordedNode(node)).toEqual({ kind: "stableRef", value: "testid:submit-button" });
+  });
+
+  it("falls back to role and name before semantic refs", () => {
+    const node = makeNode({ id: "save", stableRef: "semantic:button|Save|Save", role: "button", name: "Save" });
+    expect(nodeTargetForRecordedNode(node)).toEqual({ kind: "roleName", role: "button", name: "Save" });
+
+    const unnamed = makeNode({
+      id: "total",
+      stableRef: "semantic:generic||Total",
+      role: "generic",
+      name: "",
+      text: "Total"
+    });
+    expect(nodeTargetForRecordedNode(unnamed)).toEqual({ kind: "stableRef", value: "semantic:generic||Total" });
+  });
+
+  it("uses frame-scoped css paths as the last resort", () => {
+    const node = makeNode({
+      id: "card",
+      stableRef: "path:body > div:nth-of-type(2)",
+      role: "generic",
+      name: "",
+      path: "body > div:nth-of-type(2)",
+      framePath: ["iframe#payment-frame"]
+    });
+    const target = nodeTargetForRecordedNode(node);
+    expect(target).toEqual({
+      kind: "css",
+      selector: "body > div:nth-of-type(2)",
+      framePath: ["iframe#payment-frame"]
+    });
+    expect(() => parseScript({ actions: [{ type: "click", target }] })).not.toThrow();
+  });
+
+  it("names password secrets after the field", () => {
+    const renamed = makeNode({ id: "pw", attributes: { name: "new-password", id: "pw" } });
+    expect(recordedSecretName(renamed)).toBe("NEW_PASSWORD");
+    expect(recordedSecretName(makeNode({ id: "pw", attributes: { id: "pw" }, name: "Password" }))).toBe("PW");
+    expect(recordedSecretName(makeNode({ id: "confirm", name: "Confirm password" }))).toBe("CONFIRM_PASSWORD");
+    expect(recordedSecretName(makeNode({ id: "otp", attributes: { name: "2fa" } }))).toBe("PASSWORD_2FA");
+    expect(recordedSecretName(makeNode({ id: "pw", name: "" }))).toBe("PASSWORD");
+    expect(() =>
+      parseScript({ actions: [{ type: "fill", target: { kind: "css", selector: "#pw" }, value: "${secret.PW}" }] })
+    ).not.toThrow();
+  });
+});
@@ -182,6 +182,62 @@ describe("replay", () => {
       await rm(tempDir, { recursive: true, force: true });
     }
   }, 120_000);
+
+  it("replays recorded network archives after the origin goes away", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-network-playback-"));
+    const tracePath = join(tempDir, "trace.json");
+    const recordingServer = await startFixtureServer();
+    let serverClosed = false;
+
+    try {
+      const session = new AgentSession({
+        headed: false,
+        deterministic: true,
+        captureScreenshots: false,
+        recordNetwork: true
+      });
+      try {
+        await session.start();
+        await session.perform({ type: "navigate", url: recordingServer.baseUrl });
+        await session.perform({ type: "snapshot" });
+        await session.saveTrace(tracePath);
+      } finally {
+        await session.close();
+      }
+
+      await recordingServer.close();
+      serverClosed = true;
+
+      const trace = JSON.parse(await readFile(tracePath, "utf8")) as SavedTrace;
+      expect(trace.environment?.networkArchivePath).toBe(join(tempDir, "trace.network.json"));
+
+      const report = await replayTrace(
+        tracePath,
+        {
+          headed: false,
+          deterministic: true,
+          captureScreenshots: false,
+          artifactsDir: tempDir
+        },
+        {
+          mode: "strict",
+          preflight: true,
+          network: "playback",
+          networkUnmatched: "fail"
+        }
+      );
+
+      expect(report.preflight.skipped).toBe(true);
+      expect(report.mismatched).toBe(0);
+      expect(report.network?.served).toBeGreaterThan(0);
+      expect(report.network?.unmatched).toEqual([]);
+    } finally {
+      if (!serverClosed) {
+        await recordingServer.close();
+      }
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
 });
 
 async function createFixtureTrace(tracePath: string, baseUrl: string): Promise<void> {
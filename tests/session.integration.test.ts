@@ -1,7 +1,9 @@
-import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import { PNG } from "pngjs";
 import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { parseScript } from "../src/contracts.js";
 import { replayTrace } from "../src/replay.js";
 import { AgentSession } from "../src/session.js";
 import type { SavedTrace } from "../src/types.js";
@@ -1032,6 +1034,1387 @@ describe("agent session integration", () => {
     }
   }, 120_000);
 
+  it("follows popups and records tab switches in traces", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-tabs-"));
+    const tracePath = join(tempDir, "tabs-trace.json");
+
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir
+    });
+
+    try {
+      await session.start();
+      const nav = await session.perform({ type: "navigate", url: `${fixture.baseUrl}/tabs.html` });
+      expect(nav.tabId).toBe("tab_1");
+
+      const popup = await session.perform({
+        type: "click",
+        target: { kind: "css", selector: "#open-popup" }
+      });
+      expect(popup.status).toBe("ok");
+      expect(popup.tabId).toBe("tab_2");
+      expect(popup.postSnapshot.url).toContain("/tabs-popup.html");
+
+      const closedPopup = await session.perform({ type: "closeTab" });
+      expect(closedPopup.tabId).toBe("tab_1");
+      expect(closedPopup.postSnapshot.url).toContain("/tabs.html");
+
+      const opened = await session.perform({ type: "newTab", url: `${fixture.baseUrl}/index.html` });
+      expect(opened.status).toBe("ok");
+      expect(opened.tabId).toBe("tab_3");
+      expect(session.listTabs().map((tab) => tab.tabId)).toEqual(["tab_1", "tab_3"]);
+
+      const switched = await session.perform({ type: "switchTab", tabId: "tab_1" });
+      expect(switched.tabId).toBe("tab_1");
+      expect(switched.postSnapshot.url).toContain("/tabs.html");
+
+      const closed = await session.perform({ type: "closeTab", tabId: "tab_3" });
+      expect(closed.status).toBe("ok");
+      expect(session.listTabs()).toHaveLength(1);
+
+      const missing = await session.perform({ type: "switchTab", tabId: "tab_9" });
+      expect(missing.status).toBe("fatal_error");
+      expect(missing.error?.message).toContain("Tab 'tab_9' is not open");
+
+      await session.saveTrace(tracePath);
+    } finally {
+      await session.close();
+    }
+
+    const trace = JSON.parse(await readFile(tracePath, "utf8")) as SavedTrace;
+    expect(trace.records.map((record) => record.result.tabId)).toEqual([
+      "tab_1",
+      "tab_2",
+      "tab_1",
+      "tab_3",
+      "tab_1",
+      "tab_1",
+      "tab_1"
+    ]);
+    expect(trace.timeline?.[1]?.tabId).toBe("tab_2");
+
+    const replay = await replayTrace(tracePath, {
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir
+    }, {
+      mode: "relaxed",
+      preflight: false
+    });
+    expect(replay.mismatches.filter((mismatch) => mismatch.reason === "tab")).toHaveLength(0);
+
+    await rm(tempDir, { recursive: true, force: true });
+  }, 120_000);
+
+  it("snapshots iframe content and acts on frame-scoped targets", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-frames-"));
+
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir
+    });
+
+    try {
+      await session.start();
+      const nav = await session.perform({
+        type: "navigate",
+        url: `${fixture.baseUrl}/frames.html`,
+        waitUntil: "load"
+      });
+      expect(nav.status).toBe("ok");
+
+      const cardInput = nav.postSnapshot.nodes.find((node) => node.attributes.id === "card-number");
+      expect(cardInput?.framePath).toEqual(["iframe#payment-frame"]);
+      expect(cardInput?.id).toMatch(/^frame_[0-9a-f]{8}:node_\d+$/);
+
+      const fill = await session.perform({
+        type: "fill",
+        target: { kind: "roleName", role: "textbox", name: "Card number" },
+        value: "4242424242424242"
+      });
+      expect(fill.status).toBe("ok");
+      expect(fill.selectorDiagnostics?.selectedCandidateLabel).toContain("frame:");
+
+      const pay = await session.perform({
+        type: "click",
+        target: { kind: "roleName", role: "button", name: "Pay now" }
+      });
+      expect(pay.status).toBe("ok");
+
+      const status = pay.postSnapshot.nodes.find((node) => node.attributes.id === "payment-status");
+      expect(status?.text).toBe("Paid with 4242");
+
+      const scopedCss = await session.perform({
+        type: "click",
+        target: {
+          kind: "css",
+          selector: "button[type=submit]",
+          framePath: ["iframe#payment-frame"]
+        }
+      });
+      expect(scopedCss.status).toBe("ok");
+      expect(scopedCss.selectorDiagnostics?.targetLabel).toBe(
+        'frame:["iframe#payment-frame"] | css:button[type=submit]'
+      );
+    } finally {
+      await session.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("snapshots open shadow roots with resolvable paths", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-shadow-"));
+
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir
+    });
+
+    try {
+      await session.start();
+      const nav = await session.perform({ type: "navigate", url: `${fixture.baseUrl}/shadow.html` });
+      expect(nav.status).toBe("ok");
+
+      const pearsButton = nav.postSnapshot.nodes.find((node) => node.name === "Add pears");
+      expect(pearsButton?.path).toBe("body > main > x-counter:nth-of-type(2) >> div > button");
+
+      const byPath = await session.perform({
+        type: "click",
+        target: { kind: "css", selector: pearsButton?.path ?? "" }
+      });
+      expect(byPath.status).toBe("ok");
+
+      const changedCounts = byPath.domDiff.changed.filter((entry) =>
+        entry.changes.some((change) => change.field === "text" && change.after === "1")
+      );
+      expect(changedCounts.length).toBeGreaterThan(0);
+
+      const byRole = await session.perform({
+        type: "click",
+        target: { kind: "roleName", role: "button", name: "Add apples" }
+      });
+      expect(byRole.status).toBe("ok");
+
+      const counts = byRole.postSnapshot.nodes
+        .filter((node) => node.path.endsWith(">> div > span"))
+        .map((node) => node.text);
+      expect(counts).toEqual(["1", "1"]);
+    } finally {
+      await session.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("records page interactions into a parseable action script", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-record-"));
+
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir
+    });
+
+    try {
+      await session.start();
+      const recorder = await session.startRecording();
+
+      await session.perform({ type: "navigate", url: fixture.baseUrl });
+      await session.perform({
+        type: "fill",
+        target: { kind: "css", selector: "input[name='email']" },
+        value: "agent@example.com"
+      });
+      await session.perform({ type: "click", target: { kind: "roleName", role: "button", name: "Sign in" } });
+      await session.perform({ type: "waitFor", condition: { kind: "timeout", ms: 300 } });
+
+      const script = parseScript(await recorder.toScript());
+      expect(script.actions).toEqual([
+        { type: "navigate", url: `${fixture.baseUrl}/` },
+        { type: "fill", target: { kind: "stableRef", value: "testid:email-input" }, value: "agent@example.com" },
+        { type: "click", target: { kind: "stableRef", value: "testid:submit-button" } }
+      ]);
+      expect(recorder.unresolvedEventCount).toBe(0);
+    } finally {
+      await session.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("interpolates vars and secrets, captures values, and keeps secrets out of traces", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-vars-"));
+    const tracePath = join(tempDir, "trace.json");
+
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir,
+      variables: { baseUrl: fixture.baseUrl },
+      secrets: { USER_EMAIL: "agent@example.com", PASSWORD: "correct-horse" }
+    });
+
+    try {
+      await session.start();
+      await session.perform({ type: "navigate", url: "${vars.baseUrl}" });
+      await session.perform({
+        type: "fill",
+        target: { kind: "css", selector: "input[name='email']" },
+        value: "${secret.USER_EMAIL}"
+      });
+      await session.perform({
+        type: "fill",
+        target: { kind: "css", selector: "input[name='password']" },
+        value: "${secret.PASSWORD}"
+      });
+      await session.perform({ type: "click", target: { kind: "roleName", role: "button", name: "Sign in" } });
+      await session.perform({ type: "waitFor", condition: { kind: "selector", selector: "#result.ok" } });
+
+      const captured = await session.perform({
+        type: "capture",
+        name: "greeting",
+        from: "text",
+        target: { kind: "css", selector: "#result" },
+        pattern: "^(Welcome)"
+      });
+      expect(captured.status).toBe("ok");
+      expect(captured.captureSummary).toEqual({ name: "greeting", value: "Welcome" });
+
+      const reused = await session.perform({
+        type: "assert",
+        condition: { kind: "selector", selector: "#result", textContains: "${vars.greeting} ${secret.USER_EMAIL}" }
+      });
+      expect(reused.status).toBe("ok");
+      expect(JSON.stringify(reused)).not.toContain("agent@example.com");
+
+      await session.saveTrace(tracePath);
+      const rawTrace = await readFile(tracePath, "utf8");
+      expect(rawTrace).not.toContain("agent@example.com");
+      expect(rawTrace).not.toContain("correct-horse");
+
+      const trace = JSON.parse(rawTrace) as SavedTrace;
+      expect(trace.records[1].action).toMatchObject({ value: "${secret.USER_EMAIL}" });
+      expect(trace.records[5].result.capturedValue).toBe("Welcome");
+      expect(trace.timeline[5].capture).toEqual({ name: "greeting", value: "Welcome" });
+    } finally {
+      await session.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("runs if, repeat, and forEach blocks and records block frames", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-blocks-"));
+    const tracePath = join(tempDir, "trace.json");
+
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir
+    });
+
+    try {
+      await session.start();
+      await session.perform({ type: "navigate", url: fixture.baseUrl });
+
+      const loop = await session.perform({
+        type: "forEach",
+        label: "emails",
+        items: ["first@example.com", "second@example.com"],
+        as: "email",
+        actions: [
+          { type: "fill", target: { kind: "css", selector: "input[name='email']" }, value: "${vars.email}" },
+          {
+            type: "if",
+            when: [{ kind: "snapshot", field: "title", operator: "contains", value: "Sazen" }],
+            then: [{ type: "snapshot" }],
+            else: [{ type: "press", key: "Escape" }]
+          }
+        ]
+      });
+      expect(loop.status).toBe("ok");
+      expect(loop.blockSummary).toMatchObject({ kind: "forEach", label: "emails", iterations: 2 });
+
+      const repeated = await session.perform({
+        type: "repeat",
+        times: 5,
+        until: [{ kind: "snapshot", field: "url", operator: "contains", value: "127.0.0.1" }],
+        actions: [{ type: "snapshot" }]
+      });
+      expect(repeated.blockSummary?.iterations).toBe(1);
+
+      const skipped = await session.perform({
+        type: "if",
+        when: [{ kind: "assert", condition: { kind: "url_contains", value: "/never" }, timeoutMs: 500 }],
+        then: [{ type: "snapshot" }]
+      });
+      expect(skipped.status).toBe("ok");
+      expect(skipped.blockSummary?.branch).toBe("else");
+
+      await session.saveTrace(tracePath);
+      const trace = JSON.parse(await readFile(tracePath, "utf8")) as SavedTrace;
+      expect(trace.records.map((record) => record.action.type)).toEqual([
+        "navigate",
+        "fill",
+        "snapshot",
+        "fill",
+        "snapshot",
+        "snapshot",
+        "assert"
+      ]);
+      expect(trace.records[6].result).toMatchObject({ status: "ok", conditionPassed: false });
+      expect(trace.records[6].block).toEqual([{ kind: "if", branch: "condition" }]);
+      expect(trace.records[3].block).toEqual([
+        { kind: "forEach", label: "emails", iteration: 2, vars: { email: "second@example.com" } }
+      ]);
+      expect(trace.records[4].block?.[1]).toEqual({ kind: "if", branch: "then" });
+      expect(trace.timeline[5].block).toEqual([{ kind: "repeat", iteration: 1 }]);
+    } finally {
+      await session.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("runs hover, double-click, context-click, and drag through locator fallbacks", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-pointer-"));
+    const tracePath = join(tempDir, "trace.json");
+
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir
+    });
+
+    try {
+      await session.start();
+      await session.perform({ type: "navigate", url: `${fixture.baseUrl}/pointer.html` });
+
+      const hovered = await session.perform({ type: "hover", target: { kind: "css", selector: "#menu-trigger" } });
+      expect(hovered.status).toBe("ok");
+      expect(hovered.selectorDiagnostics?.targetLabel).toContain("#menu-trigger");
+      const hoverCheck = await session.perform({
+        type: "assert",
+        condition: { kind: "selector", selector: "#hover-menu", state: "visible" }
+      });
+      expect(hoverCheck.status).toBe("ok");
+
+      const edited = await session.perform({ type: "dblclick", target: { kind: "css", selector: "#cell" } });
+      expect(edited.status).toBe("ok");
+
+      const menu = await session.perform({ type: "contextClick", target: { kind: "css", selector: "#context-target" } });
+      expect(menu.status).toBe("ok");
+      await session.perform({
+        type: "assert",
+        condition: { kind: "selector", selector: "#status", textContains: "context-menu" }
+      });
+
+      const dragged = await session.perform({
+        type: "drag",
+        target: { kind: "css", selector: "#card-1" },
+        toTarget: { kind: "roleName", role: "list", name: "Done" }
+      });
+      expect(dragged.status).toBe("ok");
+      expect(dragged.dragSummary?.destinationSelectorDiagnostics.targetLabel).toContain("Done");
+      expect(dragged.dragSummary?.destinationBoundingBox).toBeDefined();
+      await session.perform({
+        type: "assert",
+        condition: { kind: "selector", selector: "#done #card-1" }
+      });
+
+      await session.saveTrace(tracePath);
+      const trace = JSON.parse(await readFile(tracePath, "utf8")) as SavedTrace;
+      const dragRecord = trace.records.find((record) => record.action.type === "drag");
+      expect(dragRecord?.result.dragDestinationTarget).toContain("Done");
+      expect(trace.timeline.find((entry) => entry.actionType === "drag")?.dragDestination?.boundingBox).toBeDefined();
+    } finally {
+      await session.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("uploads files and captures downloads with hashes in results and traces", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-files-"));
+    const tracePath = join(tempDir, "trace.json");
+    const uploadPath = join(tempDir, "contacts.csv");
+    await writeFile(uploadPath, "name\nalice\n", "utf8");
+
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir
+    });
+
+    try {
+      await session.start();
+      await session.perform({ type: "navigate", url: `${fixture.baseUrl}/files.html` });
+
+      const uploaded = await session.perform({
+        type: "upload",
+        target: { kind: "css", selector: "#import-file" },
+        files: [uploadPath]
+      });
+      expect(uploaded.status).toBe("ok");
+      const importCheck = await session.perform({
+        type: "assert",
+        condition: { kind: "selector", selector: "#import-status", textContains: "imported contacts.csv" }
+      });
+      expect(importCheck.status).toBe("ok");
+
+      const exported = await session.perform({
+        type: "download",
+        target: { kind: "css", selector: "#export-link" }
+      });
+      expect(exported.status).toBe("ok");
+      expect(exported.downloadSummary).toMatchObject({ fileName: "report.csv", sizeBytes: 28 });
+      expect(exported.downloadSummary?.path.startsWith(tempDir)).toBe(true);
+      expect(await readFile(exported.downloadSummary?.path ?? "", "utf8")).toContain("42.50");
+
+      const contentCheck = await session.perform({
+        type: "assert",
+        condition: { kind: "download", fileName: "report.csv", contentContains: "17.00" }
+      });
+      expect(contentCheck.status).toBe("ok");
+
+      await session.perform({ type: "click", target: { kind: "css", selector: "#export-generated" } });
+      const generated = await session.perform({ type: "download", saveAs: "saved-notes.txt" });
+      expect(generated.downloadSummary).toMatchObject({ fileName: "saved-notes.txt", suggestedFileName: "notes.txt" });
+
+      const mismatch = await session.perform({
+        type: "assert",
+        condition: { kind: "download", fileNameMatches: "\\.csv$" }
+      });
+      expect(mismatch.status).toBe("fatal_error");
+
+      await session.saveTrace(tracePath);
+      const trace = JSON.parse(await readFile(tracePath, "utf8")) as SavedTrace;
+      const downloadRecord = trace.records.find((record) => record.action.type === "download");
+      expect(downloadRecord?.result.downloadSha256).toBe(exported.downloadSummary?.sha256);
+      expect(trace.timeline.find((entry) => entry.actionType === "download")?.download?.fileName).toBe("report.csv");
+    } finally {
+      await session.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("applies the dialog policy, handles armed dialogs, and records dialog events", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-dialogs-"));
+    const tracePath = join(tempDir, "trace.json");
+
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir,
+      dialogPolicy: "dismiss"
+    });
+
+    try {
+      await session.start();
+      await session.perform({ type: "navigate", url: `${fixture.baseUrl}/dialogs.html` });
+
+      const dismissed = await session.perform({ type: "click", target: { kind: "css", selector: "#delete" } });
+      expect(dismissed.status).toBe("ok");
+      expect(dismissed.events).toContainEqual(
+        expect.objectContaining({ kind: "dialog", dialogType: "confirm", outcome: "dismissed", handledBy: "policy" })
+      );
+
+      await session.perform({ type: "handleDialog", response: "accept", promptText: "Roadmap" });
+      const renamed = await session.perform({ type: "click", target: { kind: "css", selector: "#rename" } });
+      expect(renamed.events).toContainEqual(
+        expect.objectContaining({ kind: "dialog", dialogType: "prompt", outcome: "accepted", promptText: "Roadmap" })
+      );
+      const check = await session.perform({
+        type: "assert",
+        condition: { kind: "selector", selector: "#status", textContains: "renamed to Roadmap" }
+      });
+      expect(check.status).toBe("ok");
+
+      // A response armed for an action that opens no dialog does not answer a later one.
+      await session.perform({ type: "handleDialog", response: "accept" });
+      await session.perform({ type: "assert", condition: { kind: "selector", selector: "#status" } });
+      const unarmed = await session.perform({ type: "click", target: { kind: "css", selector: "#delete" } });
+      expect(unarmed.events).toContainEqual(
+        expect.objectContaining({ kind: "dialog", dialogType: "confirm", outcome: "dismissed", handledBy: "policy" })
+      );
+
+      await session.saveTrace(tracePath);
+      const trace = JSON.parse(await readFile(tracePath, "utf8")) as SavedTrace;
+      expect(trace.records[1].result.dialogs).toEqual([
+        { dialogType: "confirm", message: "Delete project?", outcome: "dismissed", handledBy: "policy" }
+      ]);
+      expect(trace.timeline[3].dialogs?.[0]).toMatchObject({ dialogType: "prompt", handledBy: "handleDialog" });
+    } finally {
+      await session.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("scrolls by delta, to edges, and until lazy-loaded targets become visible", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-scroll-"));
+
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir,
+      viewportWidth: 800,
+      viewportHeight: 600
+    });
+
+    try {
+      await session.start();
+      await session.perform({ type: "navigate", url: `${fixture.baseUrl}/feed.html` });
+
+      const byDelta = await session.perform({ type: "scroll", deltaY: 300 });
+      expect(byDelta.scrollSummary).toMatchObject({ scrollCount: 1, scrollY: 300 });
+
+      const top = await session.perform({ type: "scroll", to: "top" });
+      expect(top.scrollSummary).toMatchObject({ scrollY: 0, atEnd: true });
+
+      const untilEnd = await session.perform({
+        type: "scroll",
+        until: { kind: "roleName", role: "button", name: "You're all caught up" },
+        maxScrolls: 40
+      });
+      expect(untilEnd.status).toBe("ok");
+      expect(untilEnd.scrollSummary?.scrollCount).toBeGreaterThan(1);
+      expect(untilEnd.selectorDiagnostics?.targetLabel).toBe("roleName:button:You're all caught up");
+      expect(untilEnd.postSnapshot.nodes.some((node) => node.stableRef === "id:end-of-feed")).toBe(true);
+
+      await session.perform({ type: "scroll", to: "top" });
+      const intoView = await session.perform({
+        type: "scrollIntoView",
+        target: { kind: "css", selector: "#post-2-3" }
+      });
+      expect(intoView.status).toBe("ok");
+      expect(intoView.resolvedBoundingBox?.y ?? -1).toBeGreaterThanOrEqual(0);
+      expect(intoView.resolvedBoundingBox?.y ?? Infinity).toBeLessThan(600);
+
+      const missing = await session.perform({
+        type: "scroll",
+        until: { kind: "css", selector: "#does-not-exist" },
+        maxScrolls: 3
+      });
+      expect(missing.status).not.toBe("ok");
+    } finally {
+      await session.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("finishes actions that open a manual-policy dialog and answers it with handleDialog", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-manual-dialog-"));
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir,
+      dialogPolicy: "manual"
+    });
+
+    try {
+      await session.start();
+      await session.perform({ type: "navigate", url: `${fixture.baseUrl}/dialogs.html` });
+
+      const opened = await session.perform({ type: "click", target: { kind: "css", selector: "#delete" } });
+      expect(opened.status).toBe("ok");
+      expect(opened.events).toContainEqual(
+        expect.objectContaining({ kind: "dialog", dialogType: "confirm", outcome: "pending" })
+      );
+
+      const blocked = await session.perform({ type: "click", target: { kind: "css", selector: "#rename" } });
+      expect(blocked.status).not.toBe("ok");
+      expect(blocked.errorMessage).toContain("run handleDialog before click");
+
+      const handled = await session.perform({ type: "handleDialog", response: "accept" });
+      expect(handled.status).toBe("ok");
+      const check = await session.perform({
+        type: "assert",
+        condition: { kind: "selector", selector: "#status", textContains: "deleted" }
+      });
+      expect(check.status).toBe("ok");
+    } finally {
+      await session.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("indexes and measures only the innermost text matches in composed targets", async () => {
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false
+    });
+    const addToCart = { kind: "text", text: "Add to cart" } as const;
+
+    try {
+      await session.start();
+      await session.perform({ type: "navigate", url: `${fixture.baseUrl}/cards.html` });
+      const status = async () => {
+        const captured = await session.perform({
+          type: "capture",
+          name: "status",
+          from: "text",
+          target: { kind: "css", selector: "#status" }
+        });
+        return captured.captureSummary?.value;
+      };
+
+      // html, body, main and the cards also contain the text; only the buttons count.
+      const second = await session.perform({ type: "click", target: { kind: "nth", index: 1, target: addToCart } });
+      expect(second.status).toBe("ok");
+      expect(second.selectorDiagnostics?.selection).toEqual({ kind: "nth", matchCount: 4, selectedIndex: 1 });
+      expect(await status()).toBe("added: Laptop stand");
+
+      const near = await session.perform({
+        type: "click",
+        target: { kind: "near", anchor: { kind: "text", text: "Lamp", match: "exact" }, target: addToCart }
+      });
+      expect(near.status).toBe("ok");
+      expect(near.selectorDiagnostics?.selection?.matchCount).toBe(4);
+      expect(near.selectorDiagnostics?.selection?.distance).toBeGreaterThan(0);
+      expect(await status()).toBe("added: Lamp");
+    } finally {
+      await session.close();
+    }
+  }, 120_000);
+
+  it("extracts across link pagination that loads a new document per page", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-extract-links-"));
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir
+    });
+
+    try {
+      await session.start();
+      await session.perform({ type: "navigate", url: `${fixture.baseUrl}/catalog-links.html` });
+
+      const extracted = await session.perform({
+        type: "extract",
+        schema: { items: { selector: "li.product", fields: { sku: "@data-sku" } } },
+        next: { kind: "css", selector: "#next-link" }
+      });
+      expect(extracted.status).toBe("ok");
+      expect(extracted.extractSummary?.pages).toBe(3);
+      const rows = extracted.extractSummary?.data.items ?? [];
+      expect(rows.map((row) => row.fields.sku)).toEqual(["LP-100", "LS-200", "LM-300", "KB-400"]);
+      expect(rows.map((row) => row.page)).toEqual([1, 1, 2, 3]);
+    } finally {
+      await session.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("clicks at viewport and target-relative coordinates, scales authored viewports, and marks the point", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-click-at-"));
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: true,
+      artifactsDir: tempDir
+    });
+
+    try {
+      await session.start();
+      await session.perform({ type: "setViewport", width: 800, height: 600 });
+      await session.perform({ type: "navigate", url: `${fixture.baseUrl}/canvas.html` });
+      const status = async () => {
+        const captured = await session.perform({
+          type: "capture",
+          name: "status",
+          from: "text",
+          target: { kind: "css", selector: "#status" }
+        });
+        return captured.captureSummary?.value;
+      };
+
+      const absolute = await session.perform({ type: "clickAt", x: 140, y: 110 });
+      expect(absolute.status).toBe("ok");
+      expect(absolute.clickAtSummary).toEqual({ x: 140, y: 110, viewport: { width: 800, height: 600 } });
+      expect(await status()).toBe("canvas: 100,50 clicks=1");
+
+      const annotated = PNG.sync.read(await readFile(absolute.annotatedScreenshotPath ?? ""));
+      const index = (annotated.width * 110 + 140) * 4;
+      expect([...annotated.data.subarray(index, index + 3)]).toEqual([236, 72, 153]);
+
+      const relative = await session.perform({
+        type: "clickAt",
+        target: { kind: "css", selector: "#board" },
+        x: 10,
+        y: 20,
+        clickCount: 2
+      });
+      expect(relative.status).toBe("ok");
+      expect(relative.clickAtSummary).toMatchObject({ x: 50, y: 80 });
+      expect(await status()).toBe("canvas: 10,20 clicks=2");
+
+      const scaled = await session.perform({
+        type: "clickAt",
+        x: 280,
+        y: 220,
+        viewport: { width: 1600, height: 1200 }
+      });
+      expect(scaled.clickAtSummary).toEqual({
+        x: 140,
+        y: 110,
+        viewport: { width: 800, height: 600 },
+        scaledFrom: { x: 280, y: 220, width: 1600, height: 1200 }
+      });
+
+      const outside = await session.perform({ type: "clickAt", x: 900, y: 10 });
+      expect(outside.status).not.toBe("ok");
+      expect(outside.error?.message).toContain("outside the 800x600 viewport");
+
+      const tracePath = join(tempDir, "trace.json");
+      await session.saveTrace(tracePath);
+      const trace = JSON.parse(await readFile(tracePath, "utf8")) as SavedTrace;
+      const clicks = trace.records.filter(
+        (record) => record.action.type === "clickAt" && record.result.status === "ok"
+      );
+      expect(clicks.map((record) => [record.result.clickAtX, record.result.clickAtY])).toEqual([
+        [140, 110],
+        [50, 80],
+        [140, 110]
+      ]);
+      expect(clicks[1]?.result.selectorTarget).toBe("css:#board");
+      expect(clicks[0]?.result.clickAtViewportWidth).toBe(800);
+    } finally {
+      await session.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("matches localized role names fuzzily with synonyms and reports the match score", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-fuzzy-name-"));
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir
+    });
+
+    try {
+      await session.start();
+      await session.perform({ type: "navigate", url: `${fixture.baseUrl}/localized.html` });
+
+      const exact = await session.perform({
+        type: "click",
+        target: { kind: "roleName", role: "button", name: "Iniciar sesion" },
+        timeoutMs: 1_500
+      });
+      expect(exact.status).not.toBe("ok");
+
+      const folded = await session.perform({
+        type: "click",
+        target: { kind: "roleName", role: "button", name: "Iniciar sesion", match: "fuzzy" }
+      });
+      expect(folded.status).toBe("ok");
+      expect(folded.selectorDiagnostics?.nameMatch).toEqual({
+        score: 1,
+        matchedName: "Iniciar sesión →",
+        query: "Iniciar sesion"
+      });
+
+      const synonym = await session.perform({
+        type: "click",
+        target: { kind: "roleName", role: "button", name: "Log in", match: "fuzzy", synonyms: ["Iniciar sesión"] }
+      });
+      expect(synonym.selectorDiagnostics?.nameMatch?.query).toBe("Iniciar sesión");
+
+      const belowDefault = await session.perform({
+        type: "click",
+        target: { kind: "roleName", role: "button", name: "Ayuda", match: "fuzzy" },
+        timeoutMs: 1_500
+      });
+      // Below the default threshold only Playwright's substring fallback matches, so no score is reported.
+      expect(belowDefault.selectorDiagnostics?.selectedCandidateLabel).toBe("getByRole(button, Ayuda, exact=false)");
+      expect(belowDefault.selectorDiagnostics?.nameMatch).toBeUndefined();
+
+      const lowConfidence = await session.perform({
+        type: "click",
+        target: { kind: "roleName", role: "button", name: "Ayuda", match: "fuzzy", minScore: 0.6 }
+      });
+      expect(lowConfidence.status).toBe("ok");
+      expect(lowConfidence.selectorDiagnostics?.nameMatch?.score).toBe(0.667);
+      const captured = await session.perform({
+        type: "capture",
+        name: "status",
+        from: "text",
+        target: { kind: "css", selector: "#status" }
+      });
+      expect(captured.captureSummary?.value).toBe("clicked: help");
+
+      const tracePath = join(tempDir, "trace.json");
+      await session.saveTrace(tracePath);
+      const trace = JSON.parse(await readFile(tracePath, "utf8")) as SavedTrace;
+      const scored = trace.records.filter((record) => record.result.selectorNameScore !== undefined);
+      expect(scored.map((record) => record.result.selectorNameScore)).toEqual([1, 1, 0.667]);
+      expect(scored[2]?.result.selectorMatchedName).toBe("★ Ayuda rápida");
+    } finally {
+      await session.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("selects among duplicate matches with within, nth, and near targets and traces the choice", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-composed-"));
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir
+    });
+    const addToCart = { kind: "roleName", role: "button", name: "Add to cart" } as const;
+
+    try {
+      await session.start();
+      await session.perform({ type: "navigate", url: `${fixture.baseUrl}/cards.html` });
+      const status = async () => {
+        const captured = await session.perform({
+          type: "capture",
+          name: "status",
+          from: "text",
+          target: { kind: "css", selector: "#status" }
+        });
+        return captured.captureSummary?.value;
+      };
+
+      const scoped = await session.perform({
+        type: "click",
+        target: { kind: "within", scope: { kind: "testId", value: "card-lamp" }, target: addToCart }
+      });
+      expect(scoped.status).toBe("ok");
+      expect(scoped.selectorDiagnostics?.targetLabel).toBe("within(testId:card-lamp) roleName:button:Add to cart");
+      expect(scoped.selectorDiagnostics?.selection).toMatchObject({ kind: "within", matchCount: 1 });
+      expect(await status()).toBe("added: Lamp");
+
+      // The hidden mobile button is not counted.
+      const second = await session.perform({ type: "click", target: { kind: "nth", index: 1, target: addToCart } });
+      expect(second.selectorDiagnostics?.selection).toEqual({ kind: "nth", matchCount: 4, selectedIndex: 1 });
+      expect(await status()).toBe("added: Laptop stand");
+
+      const last = await session.perform({ type: "click", target: { kind: "nth", index: -1, target: addToCart } });
+      expect(last.selectorDiagnostics?.selection?.selectedIndex).toBe(3);
+      expect(await status()).toBe("added: Keyboard");
+
+      const near = await session.perform({
+        type: "click",
+        target: { kind: "near", anchor: { kind: "text", text: "Laptop", match: "exact" }, target: addToCart }
+      });
+      expect(near.status).toBe("ok");
+      expect(near.selectorDiagnostics?.selection?.kind).toBe("near");
+      expect(near.selectorDiagnostics?.selection?.matchCount).toBe(4);
+      expect(await status()).toBe("added: Laptop");
+
+      const outOfRange = await session.perform({
+        type: "click",
+        target: { kind: "nth", index: 9, target: addToCart },
+        timeoutMs: 1_500
+      });
+      expect(outOfRange.status).not.toBe("ok");
+      expect(outOfRange.error?.message).toContain("4 visible match(es)");
+
+      const tooFar = await session.perform({
+        type: "click",
+        target: { kind: "near", anchor: { kind: "css", selector: "h1" }, target: addToCart, maxDistance: 5 },
+        timeoutMs: 1_500
+      });
+      expect(tooFar.status).not.toBe("ok");
+
+      const tracePath = join(tempDir, "trace.json");
+      await session.saveTrace(tracePath);
+      const trace = JSON.parse(await readFile(tracePath, "utf8")) as SavedTrace;
+      const clicks = trace.records.filter((record) => record.action.type === "click" && record.result.status === "ok");
+      expect(clicks.map((record) => record.result.selectorSelectionKind)).toEqual(["within", "nth", "nth", "near"]);
+      expect(clicks[1]?.result.selectorMatchCount).toBe(4);
+      expect(clicks[2]?.result.selectorMatchIndex).toBe(3);
+      expect(clicks[3]?.result.selectorNearDistance).toBeGreaterThan(0);
+    } finally {
+      await session.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("resolves text, label, placeholder, test id, and xpath targets with their own labels", async () => {
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false
+    });
+
+    try {
+      await session.start();
+      await session.perform({ type: "navigate", url: `${fixture.baseUrl}/index.html` });
+
+      const email = await session.perform({
+        type: "fill",
+        value: "agent@example.com",
+        target: { kind: "label", text: "Email" }
+      });
+      expect(email.status).toBe("ok");
+      expect(email.selectorDiagnostics?.targetLabel).toBe("label:Email");
+      expect(email.selectorDiagnostics?.selectedCandidateLabel).toBe("testId:email-input");
+
+      const password = await session.perform({
+        type: "fill",
+        value: "supersecret",
+        target: { kind: "placeholder", text: "at least 8", exact: false }
+      });
+      expect(password.status).toBe("ok");
+      expect(password.selectorDiagnostics?.targetLabel).toBe("placeholder:at least 8");
+
+      const submit = await session.perform({
+        type: "click",
+        target: { kind: "text", text: "Sign in", match: "exact" }
+      });
+      expect(submit.status).toBe("ok");
+      expect(submit.selectorDiagnostics?.targetLabel).toBe("text:exact:Sign in");
+      expect(submit.selectorDiagnostics?.selectedCandidateLabel).toBe("testId:submit-button");
+
+      const welcome = await session.perform({
+        type: "waitFor",
+        condition: { kind: "selector", selector: "#result.ok" }
+      });
+      expect(welcome.status).toBe("ok");
+      const captured = await session.perform({
+        type: "capture",
+        name: "greeting",
+        from: "text",
+        target: { kind: "text", text: "^Welcome \\S+@", match: "regex" }
+      });
+      expect(captured.captureSummary?.value).toBe("Welcome agent@example.com");
+
+      await session.perform({ type: "navigate", url: `${fixture.baseUrl}/ambiguous.html` });
+      const byXpath = await session.perform({
+        type: "click",
+        target: { kind: "xpath", expression: "//main/button[@id='visible-search']" }
+      });
+      expect(byXpath.status).toBe("ok");
+      expect(byXpath.selectorDiagnostics?.targetLabel).toBe("xpath://main/button[@id='visible-search']");
+      expect(byXpath.selectorDiagnostics?.selectedCandidateLabel).toBe("testId:visible-search");
+
+      const byTestId = await session.perform({ type: "click", target: { kind: "testId", value: "visible-search" } });
+      expect(byTestId.status).toBe("ok");
+      expect(byTestId.selectorDiagnostics?.targetLabel).toBe("testId:visible-search");
+
+      const missing = await session.perform({
+        type: "click",
+        target: { kind: "testId", value: "does-not-exist" },
+        timeoutMs: 1_500
+      });
+      expect(missing.status).not.toBe("ok");
+      expect(missing.error?.message).toContain("testId:does-not-exist");
+    } finally {
+      await session.close();
+    }
+  }, 120_000);
+
+  it("extracts typed rows across paginated pages into a file with clickable stableRefs", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-extract-"));
+
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir
+    });
+
+    try {
+      await session.start();
+      await session.perform({ type: "navigate", url: `${fixture.baseUrl}/catalog.html` });
+
+      const extracted = await session.perform({
+        type: "extract",
+        schema: {
+          items: {
+            selector: "li.product",
+            fields: {
+              title: "a",
+              price: { selector: ".price@text", type: "number" },
+              link: "a@href",
+              sku: "@data-sku"
+            }
+          }
+        },
+        next: { kind: "css", selector: "#next-page" }
+      });
+      expect(extracted.status).toBe("ok");
+      expect(extracted.extractSummary?.pages).toBe(3);
+      expect(extracted.extractSummary?.rowCount).toBe(5);
+
+      const rows = extracted.extractSummary?.data.items ?? [];
+      expect(rows.map((row) => row.fields.sku)).toEqual(["LP-100", "LS-200", "LM-300", "KB-400", "MS-500"]);
+      expect(rows.map((row) => row.page)).toEqual([1, 1, 2, 2, 3]);
+      expect(rows[0]?.fields).toMatchObject({ title: "Laptop", price: 999, link: `${fixture.baseUrl}/products/lp-100` });
+      expect(rows[2]?.fields.price).toBe(29.5);
+      expect(rows.every((row) => typeof row.stableRef === "string")).toBe(true);
+
+      const saved = JSON.parse(await readFile(extracted.extractSummary?.path ?? "", "utf8")) as {
+        url: string;
+        pages: number;
+        data: { items: unknown[] };
+      };
+      expect(saved.url).toContain("/catalog.html");
+      expect(saved.pages).toBe(3);
+      expect(saved.data.items).toHaveLength(5);
+
+      const lastRow = rows[4];
+      const clicked = await session.perform({
+        type: "click",
+        target: { kind: "stableRef", value: lastRow?.stableRef ?? "" }
+      });
+      expect(clicked.status).toBe("ok");
+      expect(clicked.resolvedNodeId).toBe(lastRow?.nodeId);
+
+      const outPath = join(tempDir, "total.json");
+      const single = await session.perform({
+        type: "extract",
+        schema: { totals: { selector: "#total", fields: { cents: { selector: "@data-total-cents", type: "number" } } } },
+        path: outPath
+      });
+      expect(single.extractSummary?.path).toBe(outPath);
+      expect(single.extractSummary?.pages).toBe(1);
+      expect(single.extractSummary?.data.totals?.[0]?.fields.cents).toBe(2_500);
+
+      const tracePath = join(tempDir, "trace.json");
+      await session.saveTrace(tracePath);
+      const trace = JSON.parse(await readFile(tracePath, "utf8")) as SavedTrace;
+      const record = trace.records.find((entry) => entry.action.type === "extract");
+      expect(record?.result.extractRowCount).toBe(5);
+      expect(record?.result.extractPages).toBe(3);
+    } finally {
+      await session.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("evaluates expressions into JSON results with a size limit and honours the disable switch", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-evaluate-"));
+
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir
+    });
+    const lockedDown = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir,
+      allowEvaluate: false
+    });
+
+    try {
+      await session.start();
+      await session.perform({ type: "navigate", url: `${fixture.baseUrl}/catalog.html` });
+
+      const blob = await session.perform({
+        type: "evaluate",
+        expression: "JSON.parse(document.querySelector('#catalog-data').textContent).pages[0]"
+      });
+      expect(blob.status).toBe("ok");
+      expect(blob.evaluateSummary?.value).toEqual([
+        { sku: "LP-100", name: "Laptop", price: "$999.00", href: "/products/lp-100" },
+        { sku: "LS-200", name: "Laptop stand", price: "$49.00", href: "/products/ls-200" }
+      ]);
+      expect(blob.evaluateSummary?.sizeBytes).toBeGreaterThan(0);
+
+      const total = await session.perform({
+        type: "evaluate",
+        expression: "(el) => Number(el.dataset.totalCents)",
+        target: { kind: "css", selector: "#total" },
+        saveAs: "totalCents"
+      });
+      expect(total.evaluateSummary?.value).toBe(104_800);
+      expect(total.selectorDiagnostics?.targetLabel).toBe("css:#total");
+
+      const throwing = await session.perform({
+        type: "evaluate",
+        expression: "(el) => { window.evaluateRuns = (window.evaluateRuns ?? 0) + 1; throw new Error(`boom ${el.id}`); }",
+        target: { kind: "css", selector: "#total" }
+      });
+      expect(throwing.status).not.toBe("ok");
+      expect(throwing.error?.message).toContain("boom total");
+      expect(throwing.error?.message).not.toContain("Unable to resolve actionable locator");
+      const runs = await session.perform({ type: "evaluate", expression: "window.evaluateRuns" });
+      expect(runs.evaluateSummary?.value).toBe(1);
+
+      const asyncValue = await session.perform({
+        type: "evaluate",
+        expression: "new Promise((resolve) => setTimeout(() => resolve(document.title), 50))"
+      });
+      expect(asyncValue.evaluateSummary?.value).toBe("Catalog Fixture");
+
+      const oversized = await session.perform({
+        type: "evaluate",
+        expression: "document.body.innerHTML",
+        maxResultBytes: 64
+      });
+      expect(oversized.status).not.toBe("ok");
+      expect(oversized.error?.message).toContain("byte limit");
+
+      const notJson = await session.perform({ type: "evaluate", expression: "(() => { const a = {}; a.self = a; return a; })()" });
+      expect(notJson.error?.message).toContain("not JSON-serializable");
+
+      await lockedDown.start();
+      const blocked = await lockedDown.perform({ type: "evaluate", expression: "document.title" });
+      expect(blocked.status).not.toBe("ok");
+      expect(blocked.error?.message).toContain("disabled");
+    } finally {
+      await session.close();
+      await lockedDown.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("captures element screenshots with padding, scopes snapshots, and baselines a single component", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-element-shot-"));
+
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir
+    });
+
+    try {
+      await session.start();
+      await session.perform({ type: "navigate", url: `${fixture.baseUrl}/toggles.html` });
+
+      const baselinePath = join(tempDir, "plan.png");
+      const shot = await session.perform({
+        type: "screenshot",
+        target: { kind: "css", selector: "#plan" },
+        padding: 6,
+        path: baselinePath
+      });
+      expect(shot.status).toBe("ok");
+      expect(shot.screenshotSummary?.path).toBe(baselinePath);
+      const clip = shot.screenshotSummary?.clip;
+      const box = shot.resolvedBoundingBox;
+      expect(clip && box ? Math.round(clip.width - box.width) : -1).toBe(12);
+      const image = PNG.sync.read(await readFile(baselinePath));
+      expect(image.width).toBe(Math.round(clip?.width ?? 0));
+
+      const scoped = await session.perform({ type: "snapshot", target: { kind: "css", selector: "#plan" } });
+      expect(scoped.status).toBe("ok");
+      const scopedRefs = scoped.scopedSnapshot?.nodes.map((node) => node.stableRef) ?? [];
+      expect(scopedRefs).toContain("id:plan");
+      expect(scopedRefs).toContain("id:plan-pro");
+      expect(scopedRefs).not.toContain("id:newsletter");
+      expect(scoped.scopedSnapshot?.nodeCount).toBeLessThan(scoped.postSnapshot.nodeCount);
+
+      const matching = await session.perform({
+        type: "assert",
+        condition: { kind: "visual_baseline", baselinePath, target: { kind: "css", selector: "#plan" }, padding: 6 }
+      });
+      expect(matching.status).toBe("ok");
+      expect(matching.selectorDiagnostics?.targetLabel).toBe("css:#plan");
+
+      // Changing an unrelated part of the page must not disturb the component baseline.
+      await session.perform({ type: "uncheck", target: { kind: "css", selector: "#newsletter" } });
+      const unrelated = await session.perform({
+        type: "assert",
+        condition: { kind: "visual_baseline", baselinePath, target: { kind: "css", selector: "#plan" }, padding: 6 }
+      });
+      expect(unrelated.status).toBe("ok");
+
+      await session.perform({ type: "check", target: { kind: "css", selector: "#plan-pro" } });
+      const changed = await session.perform({
+        type: "assert",
+        condition: {
+          kind: "visual_baseline",
+          baselinePath,
+          target: { kind: "css", selector: "#plan" },
+          padding: 6,
+          maxMismatchRatio: 0
+        }
+      });
+      expect(changed.status).not.toBe("ok");
+      expect(changed.error?.message).toContain("Visual baseline assert failed");
+    } finally {
+      await session.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("moves through history and reloads without re-entering URLs", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-history-"));
+
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir
+    });
+
+    try {
+      await session.start();
+      await session.perform({ type: "navigate", url: `${fixture.baseUrl}/toggles.html?step=1` });
+      await session.perform({ type: "navigate", url: `${fixture.baseUrl}/typing.html` });
+
+      const back = await session.perform({ type: "goBack" });
+      expect(back.status).toBe("ok");
+      expect(back.postSnapshot.url).toContain("toggles.html?step=1");
+
+      const forward = await session.perform({ type: "goForward", waitUntil: "load" });
+      expect(forward.status).toBe("ok");
+      expect(forward.postSnapshot.url).toContain("typing.html");
+
+      const noNext = await session.perform({ type: "goForward", timeoutMs: 2_000 });
+      expect(noNext.status).not.toBe("ok");
+      expect(noNext.error?.message).toContain("No next page");
+
+      await session.perform({ type: "fill", target: { kind: "css", selector: "#search" }, value: "draft" });
+      const reloaded = await session.perform({ type: "reload" });
+      expect(reloaded.status).toBe("ok");
+      expect(reloaded.postSnapshot.nodes.find((node) => node.stableRef === "id:search")?.value).toBe("old query");
+    } finally {
+      await session.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("converges checkboxes, radios, and switches to the requested state", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-toggles-"));
+
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir
+    });
+
+    try {
+      await session.start();
+      await session.perform({ type: "navigate", url: `${fixture.baseUrl}/toggles.html` });
+
+      const initial = await session.snapshot();
+      expect(initial.nodes.find((node) => node.stableRef === "id:newsletter")?.checked).toBe(true);
+      expect(initial.nodes.find((node) => node.stableRef === "id:advanced")?.expanded).toBe(false);
+
+      // Already checked: replaying check must leave it checked instead of toggling it off.
+      const alreadyChecked = await session.perform({ type: "check", target: { kind: "css", selector: "#newsletter" } });
+      expect(alreadyChecked.status).toBe("ok");
+      expect(alreadyChecked.postSnapshot.nodes.find((node) => node.stableRef === "id:newsletter")?.checked).toBe(true);
+
+      const terms = await session.perform({ type: "check", target: { kind: "css", selector: "#terms" } });
+      expect(terms.domDiff.changed.some((node) => node.changes.some((change) => change.field === "checked"))).toBe(true);
+
+      // A label stands in for the control it wraps.
+      const viaLabel = await session.perform({ type: "uncheck", target: { kind: "css", selector: "label:has(#terms)" } });
+      expect(viaLabel.status).toBe("ok");
+      expect(viaLabel.postSnapshot.nodes.find((node) => node.stableRef === "id:terms")?.checked).toBe(false);
+
+      const unsubscribed = await session.perform({ type: "uncheck", target: { kind: "css", selector: "#newsletter" } });
+      expect(unsubscribed.postSnapshot.nodes.find((node) => node.stableRef === "id:newsletter")?.checked).toBe(false);
+
+      const pro = await session.perform({ type: "check", target: { kind: "css", selector: "#plan-pro" } });
+      expect(pro.postSnapshot.nodes.find((node) => node.stableRef === "id:plan-free")?.checked).toBe(false);
+      const uncheckRadio = await session.perform({ type: "uncheck", target: { kind: "css", selector: "#plan-pro" } });
+      expect(uncheckRadio.status).not.toBe("ok");
+
+      for (let attempt = 0; attempt < 2; attempt += 1) {
+        const dark = await session.perform({
+          type: "setChecked",
+          checked: true,
+          target: { kind: "roleName", role: "switch", name: "Dark mode" }
+        });
+        expect(dark.status).toBe("ok");
+        expect(dark.postSnapshot.nodes.find((node) => node.stableRef === "id:dark-mode")?.checked).toBe(true);
+      }
+    } finally {
+      await session.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("types with per-keystroke events, presses chords, and holds modifier keys", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "sazen-typing-"));
+
+    const session = new AgentSession({
+      headed: false,
+      deterministic: true,
+      captureScreenshots: false,
+      artifactsDir: tempDir
+    });
+
+    try {
+      await session.start();
+      await session.perform({ type: "navigate", url: `${fixture.baseUrl}/typing.html` });
+
+      const typed = await session.perform({
+        type: "type",
+        target: { kind: "css", selector: "#search" },
+        text: "lap",
+        delayMs: 20,
+        clearFirst: true
+      });
+      expect(typed.status).toBe("ok");
+      expect(typed.selectorDiagnostics?.targetLabel).toBe("css:#search");
+
+      const suggestions = await session.perform({
+        type: "assert",
+        condition: { kind: "selector", selector: "#suggestions", textContains: "Laptop stand" }
+      });
+      expect(suggestions.status).toBe("ok");
+      const keystrokes = await session.perform({
+        type: "assert",
+        condition: { kind: "selector", selector: "#keystrokes", textContains: "3" }
+      });
+      expect(keystrokes.status).toBe("ok");
+
+      const chord = await session.perform({ type: "press", key: "Control+Shift+K" });
+      expect(chord.status).toBe("ok");
+      expect(
+        (
+          await session.perform({
+            type: "assert",
+            condition: { kind: "selector", selector: "#status", textContains: "palette" }
+          })
+        ).status
+      ).toBe("ok");
+
+      const held = await session.perform({ type: "keyDown", key: "Shift", target: { kind: "css", selector: "#grid" } });
+      expect(held.status).toBe("ok");
+      expect(
+        (
+          await session.perform({
+            type: "assert",
+            condition: { kind: "selector", selector: "#modifier", textContains: "held" }
+          })
+        ).status
+      ).toBe("ok");
+
+      await session.perform({ type: "keyUp", key: "Shift" });
+      expect(
+        (
+          await session.perform({
+            type: "assert",
+            condition: { kind: "selector", selector: "#modifier", textContains: "released" }
+          })
+        ).status
+      ).toBe("ok");
+    } finally {
+      await session.close();
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
   it("closes sessions idempotently across repeated calls", async () => {
     const session = new AgentSession({
       headed: false,
@@ -1,25 +1,7 @@
 import { describe, expect, it } from "vitest";
 import { createAgentPageDescription, diffSnapshots, tokenOptimizedSnapshot } from "../src/snapshot.js";
 import type { AgentNode, DomSnapshot } from "../src/types.js";
-
-function makeNode(partial: Partial<AgentNode> & Pick<AgentNode, "id">): AgentNode {
-  return {
-    id: partial.id,
-    stableRef: partial.stableRef ?? `id:${partial.id}`,
-    tag: partial.tag ?? "button",
-    role: partial.role ?? "button",
-    name: partial.name ?? "Button",
-    text: partial.text ?? "Button",
-    value: partial.value ?? "",
-    visible: partial.visible ?? true,
-    enabled: partial.enabled ?? true,
-    editable: partial.editable ?? false,
-    interactive: partial.interactive ?? true,
-    boundingBox: partial.boundingBox ?? { x: 0, y: 0, width: 100, height: 32 },
-    path: partial.path ?? `body > button[data-id="${partial.id}"]`,
-    attributes: partial.attributes ?? {}
-  };
-}
+import { makeNode } from "./helpers/nodes.js";
 
 function makeSnapshot(id: string, nodes: AgentNode[]): DomSnapshot {
   return {
@@ -61,6 +43,30 @@ describe("snapshot diff", () => {
     expect(diff.changed[0].changes[0].field).toBe("text");
   });
 
+  it("tracks checked, selected, and expanded state changes", () => {
+    const before = makeSnapshot("before", [
+      makeNode({ id: "node_1", role: "checkbox", checked: false }),
+      makeNode({ id: "node_2", role: "tab", selected: true }),
+      makeNode({ id: "node_3", role: "button", expanded: true }),
+      makeNode({ id: "node_4", role: "checkbox", checked: "mixed" })
+    ]);
+
+    const after = makeSnapshot("after", [
+      makeNode({ id: "node_1", role: "checkbox", checked: true }),
+      makeNode({ id: "node_2", role: "tab", selected: true }),
+      makeNode({ id: "node_3", role: "button" }),
+      makeNode({ id: "node_4", role: "checkbox", checked: true })
+    ]);
+
+    const diff = diffSnapshots(before, after);
+
+    expect(diff.changed.map((node) => [node.id, node.changes])).toEqual([
+      ["node_1", [{ field: "checked", before: false, after: true }]],
+      ["node_3", [{ field: "expanded", before: true, after: false }]],
+      ["node_4", [{ field: "checked", before: "mixed", after: true }]]
+    ]);
+  });
+
   it("produces token optimized snapshot with relevant nodes", () => {
     const snapshot = makeSnapshot("snap", [
       makeNode({ id: "node_1", interactive: true, role: "button", name: "Submit", text: "Submit" }),
@@ -116,4 +122,14 @@ describe("snapshot diff", () => {
     expect(description.interactiveElements[0].confidenceReasons.length).toBeGreaterThan(0);
     expect(description.potentialIssues.join(" ")).toMatch(/disabled|duplicate|small hit areas/i);
   });
+
+  it("suggests check for toggle controls and exposes their state", () => {
+    const snapshot = makeSnapshot("toggles", [
+      makeNode({ id: "node_1", tag: "input", role: "checkbox", name: "Subscribe", checked: true })
+    ]);
+
+    const [element] = createAgentPageDescription(snapshot).interactiveElements;
+    expect(element.suggestedActions).toEqual(["check", "click"]);
+    expect(element.checked).toBe(true);
+  });
 });
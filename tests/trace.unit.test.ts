@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { getTraceTimeline } from "../src/trace.js";
+import { formatBlockPath, getTraceTimeline } from "../src/trace.js";
 import type { SavedTrace } from "../src/types.js";
 
 describe("trace timeline", () => {
@@ -117,4 +117,13 @@ describe("trace timeline", () => {
     expect(timeline[1].actionType).toBe("pause_resume");
     expect(timeline[1].control?.phase).toBe("resume");
   });
+
+  it("formats nested block frames as a readable path", () => {
+    expect(
+      formatBlockPath([
+        { kind: "forEach", label: "plans", iteration: 2, vars: { item: "pro" } },
+        { kind: "if", branch: "then" }
+      ])
+    ).toBe("forEach(plans)#2 > if:then");
+  });
 });
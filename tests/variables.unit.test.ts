@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { findUnsupportedPlaceholders, SECRET_PLACEHOLDER, ScriptVariables } from "../src/variables.js";
+
+describe("script variables", () => {
+  it("interpolates env, secret, and vars placeholders through nested actions", () => {
+    const variables = new ScriptVariables({
+      vars: { user: "alice" },
+      secrets: { PASSWORD: "hunter2" },
+      env: { BASE_URL: "http://127.0.0.1:4173" }
+    });
+
+    const action = variables.interpolate({
+      type: "fill",
+      target: { kind: "css", selector: "[data-user='${vars.user}']" },
+      value: "${secret.PASSWORD}",
+      url: "${env.BASE_URL}/login"
+    });
+
+    expect(action).toEqual({
+      type: "fill",
+      target: { kind: "css", selector: "[data-user='alice']" },
+      value: "hunter2",
+      url: "http://127.0.0.1:4173/login"
+    });
+  });
+
+  it("fails loudly on unknown variables, env names, and secrets", () => {
+    const variables = new ScriptVariables({ env: {} });
+    expect(() => variables.interpolateString("${vars.missing}")).toThrowError(/Unknown variable 'vars.missing'/);
+    expect(() => variables.interpolateString("${env.MISSING}")).toThrowError(/Environment variable 'MISSING'/);
+    expect(() => variables.interpolateString("${secret.MISSING}")).toThrowError(/SAZEN_SECRET_MISSING/);
+  });
+
+  it("reads secrets from prefixed environment variables and redacts them once used", () => {
+    const variables = new ScriptVariables({ env: { SAZEN_SECRET_TOKEN: "tok-123" } });
+    expect(variables.redactString("Bearer tok-123")).toBe("Bearer tok-123");
+
+    expect(variables.interpolateString("${secret.TOKEN}")).toBe("tok-123");
+    expect(variables.redact({ message: "Bearer tok-123", nested: ["tok-123"] })).toEqual({
+      message: `Bearer ${SECRET_PLACEHOLDER}`,
+      nested: [SECRET_PLACEHOLDER]
+    });
+  });
+
+  it("masks overlapping secrets longest first and tracks captured vars", () => {
+    const variables = new ScriptVariables({ secrets: { SHORT: "abc", LONG: "abcdef" } });
+    expect(variables.redactString("abcdef-abc")).toBe(`${SECRET_PLACEHOLDER}-${SECRET_PLACEHOLDER}`);
+
+    variables.set("orderId", "42");
+    expect(variables.interpolateString("order ${vars.orderId}")).toBe("order 42");
+    expect(variables.snapshot()).toEqual({ orderId: "42" });
+  });
+
+  it("reports placeholders in unsupported namespaces", () => {
+    expect(findUnsupportedPlaceholders({ url: "${config.host}/${env.PATH_NAME}", list: ["${foo.bar}"] })).toEqual([
+      "${config.host}",
+      "${foo.bar}"
+    ]);
+  });
+});